@@ -0,0 +1,37 @@
+import {
+  deleteItem, errorResponse, getItem, ifMatchOf, normalizeCard, putItem, readJson
+} from '@/app/lib/server/library';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/cards/:id
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return Response.json(await getItem('cards', id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// PUT /api/cards/:id <card> — create or replace; If-Match: <rev> guards
+// against overwriting someone else's newer edit (409)
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const card = normalizeCard({ ...(await readJson(request)), id });
+    return Response.json(await putItem('cards', card, ifMatchOf(request)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// DELETE /api/cards/:id — If-Match: <rev> as for PUT
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return Response.json(await deleteItem('cards', id, ifMatchOf(request)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  LibraryError, createItem, errorResponse, normalizeCard, readJson, readLibrary, reorderCards
+} from '@/app/lib/server/library';
+
+// GET /api/cards — cards in display order
+export async function GET() {
+  try {
+    const { version, cards } = await readLibrary();
+    return Response.json({ version, cards });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// POST /api/cards <card> — create (409 if the id exists)
+export async function POST(request: Request) {
+  try {
+    const card = normalizeCard(await readJson(request));
+    return Response.json(await createItem('cards', card), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// PUT /api/cards { order: [id, ...] } — reorder
+export async function PUT(request: Request) {
+  try {
+    const body = await readJson(request);
+    if (!Array.isArray(body.order)) throw new LibraryError(400, 'order must be an array of ids');
+    return Response.json(await reorderCards(body.order.map(String)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
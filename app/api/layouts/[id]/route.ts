@@ -0,0 +1,37 @@
+import {
+  deleteItem, errorResponse, getItem, ifMatchOf, normalizeLayout, putItem, readJson
+} from '@/app/lib/server/library';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/layouts/:id
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return Response.json(await getItem('layouts', id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// PUT /api/layouts/:id <layout> — create or replace; If-Match: <rev> guards
+// against overwriting someone else's newer save (409)
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    const layout = normalizeLayout({ ...(await readJson(request)), id });
+    return Response.json(await putItem('layouts', layout, ifMatchOf(request)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// DELETE /api/layouts/:id — If-Match: <rev> as for PUT
+export async function DELETE(request: Request, { params }: Params) {
+  try {
+    const { id } = await params;
+    return Response.json(await deleteItem('layouts', id, ifMatchOf(request)));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  createItem, errorResponse, normalizeLayout, readJson, readLibrary
+} from '@/app/lib/server/library';
+
+// GET /api/layouts — saved layouts in the order they were added
+export async function GET() {
+  try {
+    const { version, layouts } = await readLibrary();
+    return Response.json({ version, layouts });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// POST /api/layouts <layout> — create (409 if the id exists)
+export async function POST(request: Request) {
+  try {
+    const layout = normalizeLayout(await readJson(request));
+    return Response.json(await createItem('layouts', layout), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  LibraryError, errorResponse, importItems, normalizeCard, normalizeLayout, readJson, readLibrary
+} from '@/app/lib/server/library';
+
+// GET /api/library[?since=<version>] — the whole shared library, or just
+// { version, unchanged: true } when nothing changed since `since`.
+export async function GET(request: Request) {
+  try {
+    const data = await readLibrary();
+    const since = new URL(request.url).searchParams.get('since');
+    if (since !== null && Number(since) === data.version) {
+      return Response.json({ version: data.version, unchanged: true });
+    }
+    return Response.json(data);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// POST /api/library { cards?, layouts? } — add records whose ids are new
+// (used to seed an empty server from a browser's local library).
+export async function POST(request: Request) {
+  try {
+    const body = await readJson(request);
+    for (const key of ['cards', 'layouts']) {
+      if (body[key] !== undefined && !Array.isArray(body[key])) throw new LibraryError(400, `${key} must be an array`);
+    }
+    const cards = Array.isArray(body.cards) ? body.cards.map(c => normalizeCard(c)) : [];
+    const layouts = Array.isArray(body.layouts) ? body.layouts.map(l => normalizeLayout(l)) : [];
+    return Response.json(await importItems(cards, layouts));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
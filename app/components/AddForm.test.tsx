@@ -0,0 +1,62 @@
+import { createRef, useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_DRAFT, type CardDraft } from '../lib/cards';
+import { DEFAULT_TOKEN_SETTINGS } from '../lib/tokens';
+import { AddForm } from './AddForm';
+
+// The page owns the draft; this stands in for it
+function Harness({ onAdd, disabled = false, resolveText = (t: string) => t }: {
+  onAdd: (draft: CardDraft) => void;
+  disabled?: boolean;
+  resolveText?: (text: string) => string;
+}) {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  return (
+    <AddForm
+      draft={draft}
+      onChange={setDraft}
+      onAdd={() => onAdd(draft)}
+      disabled={disabled}
+      titleRef={createRef<HTMLInputElement>()}
+      tokenSettings={DEFAULT_TOKEN_SETTINGS}
+      includeOptions={[{ id: 'c1', title: 'Preamble' }]}
+      resolveText={resolveText}
+    />
+  );
+}
+
+describe('AddForm', () => {
+  it('reports the typed draft when adding', async () => {
+    const user = userEvent.setup();
+    const onAdd = vi.fn();
+    render(<Harness onAdd={onAdd} />);
+    await user.type(screen.getByPlaceholderText(/^Title/), 'Greeting');
+    await user.type(screen.getByPlaceholderText(/^Prompt text/), 'Hello there');
+    await user.type(screen.getByPlaceholderText(/^Tags/), 'work, intro');
+    await user.click(screen.getByRole('button', { name: /Add/ }));
+    expect(onAdd).toHaveBeenCalledWith({ title: 'Greeting', text: 'Hello there', tags: 'work, intro' });
+  });
+
+  it('inserts an include directive from the picker', async () => {
+    const user = userEvent.setup();
+    const onAdd = vi.fn();
+    render(<Harness onAdd={onAdd} />);
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Include another prompt' }), 'c1');
+    await user.click(screen.getByRole('button', { name: /Add/ }));
+    expect(onAdd.mock.calls[0][0].text).toBe('{{> c1}}');
+  });
+
+  it('sizes the text with its includes expanded', async () => {
+    const user = userEvent.setup();
+    render(<Harness onAdd={vi.fn()} resolveText={(t) => t.replace('{{> c1}}', 'one two three')} />);
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Include another prompt' }), 'c1');
+    expect(screen.getByText(/13 chars · 3 words/)).toBeInTheDocument();
+  });
+
+  it('cannot add before the saved prompts have loaded', () => {
+    render(<Harness onAdd={vi.fn()} disabled />);
+    expect(screen.getByRole('button', { name: /Add/ })).toBeDisabled();
+  });
+});
@@ -0,0 +1,103 @@
+import type { CardDraft } from '../lib/cards';
+import type { IncludeOption } from '../lib/includes';
+import type { TokenSettings } from '../lib/tokens';
+import { MarkdownField } from './MarkdownField';
+import { SizeInfo } from './SizeInfo';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// New prompt form above the list; the page owns the draft and adds the card
+export function AddForm({ draft, onChange, onAdd, disabled, titleRef, tokenSettings, includeOptions, resolveText }: {
+  draft: CardDraft;
+  onChange: (draft: CardDraft) => void;
+  onAdd: () => void;
+  disabled: boolean; // until the saved prompts have loaded
+  titleRef: React.RefObject<HTMLInputElement | null>; // focused by the "add" shortcut
+  tokenSettings: TokenSettings;
+  includeOptions: IncludeOption[]; // cards the new one can include
+  resolveText: (text: string) => string; // expands includes, for the preview and size
+}) {
+  return (
+    <div
+      style={{
+        background: PANEL,
+        border: `1px solid ${BORDER}`,
+        borderRadius: 12,
+        padding: 16,
+        display: 'grid',
+        gap: 10,
+        marginBottom: 16,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden' // ensures rounded corners are always respected
+      }}
+    >
+      {/* No section title */}
+      <input
+        ref={titleRef}
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="Title (e.g., Outreach – Follow-up #1)"
+        style={{
+          width: '100%',
+          background: SURFACE,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: '10px',
+          boxSizing: 'border-box',
+          maxWidth: '100%',
+          overflowWrap: 'anywhere',
+          wordBreak: 'break-word'
+        }}
+      />
+
+      <MarkdownField
+        value={draft.text}
+        onChange={(text) => onChange({ ...draft, text })}
+        placeholder="Prompt text… (use {{name}}, {{name=default}} or {{name=a|b}} for fill-in variables; Markdown is shown formatted)"
+        rows={5}
+        includeOptions={includeOptions}
+        resolveText={resolveText}
+        style={{
+          width: '100%',
+          background: SURFACE,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: 10,
+          boxSizing: 'border-box',
+          maxWidth: '100%',
+          overflowWrap: 'anywhere',
+          wordBreak: 'break-word'
+        }}
+      />
+
+      <input
+        value={draft.tags}
+        onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+        placeholder="Tags, comma-separated (use / for folders, e.g. outreach/follow-up)"
+        style={{
+          width: '100%',
+          background: SURFACE,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: '8px 10px',
+          boxSizing: 'border-box',
+          maxWidth: '100%'
+        }}
+      />
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <button
+          onClick={onAdd}
+          disabled={disabled}
+          style={{ background: ACCENT, color: ON_ACCENT, padding: '10px 14px', borderRadius: 8 }}
+        >
+          ➕ Add (goes to bottom)
+        </button>
+        <SizeInfo text={resolveText(draft.text)} settings={tokenSettings} />
+      </div>
+    </div>
+  );
+}
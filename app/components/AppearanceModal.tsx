@@ -0,0 +1,182 @@
+import {
+  PALETTE_LABELS, PRESETS, THEME_MODES, checkContrast, readableOn,
+  type Palette, type PresetName, type ThemeMode, type ThemeSettings
+} from '../lib/theme';
+import { PREVIEW_LINES_MAX, PREVIEW_LINES_MIN } from '../lib/preferences';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BORDER, BUTTON_FONT_SIZE, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Theme picker, palette editor and card preview settings. Changes apply
+// as they are made; the contrast list warns about colour pairs that are
+// hard to read.
+export function AppearanceModal({
+  theme, palette, onThemeChange, previewLines, onPreviewLinesChange, keepExpanded, onKeepExpandedChange, onClose
+}: {
+  theme: ThemeSettings;
+  palette: Palette; // colours in effect (the system's, for "Match system")
+  onThemeChange: (theme: ThemeSettings) => void;
+  previewLines: number;
+  onPreviewLinesChange: (lines: number) => void;
+  keepExpanded: boolean;
+  onKeepExpandedChange: (keep: boolean) => void;
+  onClose: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+  const checks = checkContrast(palette);
+  const failing = checks.filter(c => !c.ok).length;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="appearance-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(520px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 12
+        }}
+      >
+        <div id="appearance-title" style={{ fontWeight: 700, fontSize: 16 }}>Appearance</div>
+
+        {/* Native radios: one tab stop, arrow keys move between modes */}
+        <div role="radiogroup" aria-label="Theme" style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          {(Object.keys(THEME_MODES) as ThemeMode[]).map(mode => (
+            <label
+              key={mode}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                background: theme.mode === mode ? ACCENT : SURFACE,
+                color: theme.mode === mode ? ON_ACCENT : TEXT,
+                border: `1px solid ${BORDER}`,
+                borderRadius: 8,
+                padding: '6px 10px',
+                fontSize: BUTTON_FONT_SIZE,
+                cursor: 'pointer'
+              }}
+            >
+              <input
+                type="radio"
+                name="theme-mode"
+                checked={theme.mode === mode}
+                onChange={() => onThemeChange({ ...theme, mode })}
+                style={{ margin: 0 }}
+              />
+              {THEME_MODES[mode]}
+            </label>
+          ))}
+        </div>
+
+        <fieldset style={{ border: `1px solid ${BORDER}`, borderRadius: 8, padding: 10, margin: 0, display: 'grid', gap: 8 }}>
+          <legend style={{ fontSize: 13, opacity: .8, padding: '0 4px' }}>
+            {theme.mode === 'custom' ? 'Custom palette' : 'Colours (changing one switches to Custom)'}
+          </legend>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '6px 12px' }}>
+            {(Object.keys(PALETTE_LABELS) as (keyof Palette)[]).map(key => (
+              <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 14 }}>
+                <input
+                  type="color"
+                  value={palette[key]}
+                  // Editing a preset starts the custom palette from it
+                  onChange={(e) => onThemeChange({ mode: 'custom', custom: { ...palette, [key]: e.target.value } })}
+                  style={{ width: 32, height: 24, padding: 0, border: `1px solid ${BORDER}`, borderRadius: 4, background: 'none' }}
+                />
+                {PALETTE_LABELS[key]}
+                <code style={{ marginLeft: 'auto', fontSize: 12, opacity: .7 }}>{palette[key]}</code>
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center', fontSize: 13 }}>
+            <span style={{ opacity: .8 }}>Start custom from:</span>
+            {(Object.keys(PRESETS) as PresetName[]).map(name => (
+              <button
+                key={name}
+                onClick={() => onThemeChange({ mode: 'custom', custom: PRESETS[name] })}
+                style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '2px 8px' }}
+              >
+                {THEME_MODES[name]}
+              </button>
+            ))}
+            {theme.mode === 'custom' && (
+              <button
+                onClick={() => onThemeChange({ ...theme, custom: { ...theme.custom, onAccent: readableOn(theme.custom.accent) } })}
+                title="Pick black or white text for accent buttons, whichever is readable"
+                style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '2px 8px' }}
+              >
+                Fix text on accent
+              </button>
+            )}
+          </div>
+        </fieldset>
+
+        <div>
+          <div style={{ fontSize: 13, opacity: .8, marginBottom: 6 }}>
+            Contrast {failing ? `— ${failing} pair${failing === 1 ? '' : 's'} below the WCAG AA minimum` : '— all pairs meet WCAG AA'}
+          </div>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: 4, fontSize: 14 }}>
+            {checks.map(c => (
+              <li key={c.label} style={{ display: 'flex', gap: 8 }}>
+                <span aria-hidden>{c.ok ? '✓' : '⚠️'}</span>
+                <span>{c.label}</span>
+                <span style={{ marginLeft: 'auto', fontFamily: 'monospace', opacity: c.ok ? .7 : 1 }}>
+                  {c.ratio.toFixed(2)}:1{c.ok ? '' : ` (needs ${c.min}:1)`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <fieldset style={{ border: `1px solid ${BORDER}`, borderRadius: 8, padding: 10, margin: 0, display: 'grid', gap: 8, fontSize: 14 }}>
+          <legend style={{ fontSize: 13, opacity: .8, padding: '0 4px' }}>Card previews</legend>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            Collapsed cards show
+            <input
+              type="number"
+              min={PREVIEW_LINES_MIN}
+              max={PREVIEW_LINES_MAX}
+              value={previewLines}
+              onChange={(e) => {
+                const n = Math.round(Number(e.target.value));
+                if (n >= PREVIEW_LINES_MIN && n <= PREVIEW_LINES_MAX) onPreviewLinesChange(n);
+              }}
+              style={{ width: 60, background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '4px 6px' }}
+            />
+            lines
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <input type="checkbox" checked={keepExpanded} onChange={(e) => onKeepExpandedChange(e.target.checked)} />
+            Remember expanded cards after reloading
+          </label>
+        </fieldset>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button onClick={onClose} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import type { AskRequest } from '../hooks/useNotices';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Confirm / text dialog: above everything else, as it answers a question
+// from the page. Mount it with a key per request so the input starts fresh.
+export function AskDialog({ request, onAnswer }: {
+  request: AskRequest;
+  onAnswer: (ok: boolean, value?: string) => void;
+}) {
+  const [value, setValue] = useState(request.kind === 'text' ? request.value : '');
+  const dialogRef = useFocusTrap(true);
+  const danger = request.kind === 'confirm' && request.danger;
+
+  return (
+    <div
+      onClick={() => onAnswer(false)}
+      style={{ position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)', display: 'grid', placeItems: 'center', zIndex: 10003 }}
+    >
+      <div
+        ref={dialogRef}
+        role={request.kind === 'confirm' ? 'alertdialog' : 'dialog'}
+        aria-modal="true"
+        aria-labelledby="ask-title"
+        aria-describedby={request.kind === 'confirm' && request.message ? 'ask-message' : undefined}
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(420px, 94vw)',
+          padding: 16
+        }}
+      >
+        {/* The form sits inside: a <form> can't take the dialog role */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onAnswer(true, value);
+          }}
+          style={{ display: 'grid', gap: 12 }}
+        >
+          <div id="ask-title" style={{ fontWeight: 700 }}>{request.title}</div>
+          {request.kind === 'confirm' && request.message && (
+            <div id="ask-message" style={{ opacity: 0.85, whiteSpace: 'pre-wrap', overflowWrap: 'anywhere' }}>{request.message}</div>
+          )}
+          {request.kind === 'text' && (
+            <label style={{ display: 'grid', gap: 6 }}>
+              <span style={{ fontSize: 13, opacity: 0.8 }}>{request.label}</span>
+              <input
+                autoFocus
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 8, padding: '8px 10px' }}
+              />
+            </label>
+          )}
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button type="button" onClick={() => onAnswer(false)} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+              Cancel
+            </button>
+            <button
+              type="submit"
+              // Destructive ones start on Cancel instead, so Enter never deletes by accident
+              autoFocus={request.kind === 'confirm' && !danger}
+              style={{ background: danger ? '#dc2626' : ACCENT, color: danger ? '#fff' : ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}
+            >
+              {request.confirmLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { BACKUP_INTERVALS, type BackupInterval, type BackupRecord, type BackupSettings } from '../lib/backup';
+import { IMPORT_ACCEPT } from '../lib/exchange';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { FileButton } from './FileButton';
+import { ACCENT, BORDER, BUTTON_FONT_SIZE, LIB_BTN_STYLE, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Backups: the automatic schedule, the backups kept in this browser, and
+// restoring from one of them or from a file
+export function BackupsModal({
+  settings, onSettingsChange, backups, onBackupNow, onRestoreFile, onRestore, onDownload, onDelete, onClose
+}: {
+  settings: BackupSettings;
+  onSettingsChange: (settings: BackupSettings) => void;
+  backups: BackupRecord[]; // newest first
+  onBackupNow: () => void;
+  onRestoreFile: (file: File) => void;
+  onRestore: (backup: BackupRecord) => void;
+  onDownload: (backup: BackupRecord) => void;
+  onDelete: (backup: BackupRecord) => void;
+  onClose: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10001,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Backups"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(640px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Backups</div>
+          <button
+            onClick={onClose}
+            style={{ background: ACCENT, color: ON_ACCENT, padding: '6px 10px', borderRadius: 8, fontSize: BUTTON_FONT_SIZE }}
+          >
+            Close
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', fontSize: 13 }}>
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            Automatic backups
+            <select
+              value={settings.interval}
+              onChange={(e) => onSettingsChange({ ...settings, interval: e.target.value as BackupInterval })}
+              style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '4px 6px' }}
+            >
+              {(Object.keys(BACKUP_INTERVALS) as BackupInterval[]).map(k => (
+                <option key={k} value={k}>{BACKUP_INTERVALS[k].label}</option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            Keep the last
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={settings.keep}
+              onChange={(e) => {
+                const keep = Math.max(1, Math.min(100, Math.round(Number(e.target.value)) || 1));
+                onSettingsChange({ ...settings, keep });
+              }}
+              style={{ width: 60, background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '4px 6px' }}
+            />
+            automatic backups
+          </label>
+        </div>
+        <div style={{ fontSize: 12, opacity: .7 }}>
+          Automatic backups are kept in this browser and skipped when nothing changed. Manual backups are never removed automatically.
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          <button onClick={onBackupNow} style={LIB_BTN_STYLE}>Back Up Now</button>
+          <FileButton
+            style={LIB_BTN_STYLE}
+            title="Restore from a downloaded backup or export"
+            accept={IMPORT_ACCEPT}
+            onFiles={(files) => onRestoreFile(files[0])}
+          >
+            Restore From File…
+          </FileButton>
+        </div>
+
+        <div style={{ display: 'grid', gap: 6 }}>
+          {backups.length === 0 && <div style={{ fontSize: 13, opacity: .7 }}>(No backups in this browser yet)</div>}
+          {backups.map(b => (
+            <div
+              key={b.id}
+              style={{ display: 'flex', alignItems: 'center', gap: 8, border: `1px solid ${BORDER}`, borderRadius: 8, padding: '6px 8px', background: SURFACE, fontSize: 13 }}
+            >
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 600 }}>{new Date(b.createdAt).toLocaleString()}</div>
+                <div style={{ opacity: .7, fontSize: 12 }}>
+                  {b.auto ? 'Automatic' : 'Manual'} · {b.counts.cards} prompts · {b.counts.layouts} layouts · {Math.ceil(b.doc.length / 1024)} KB
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(b)}
+                style={{ ...LIB_BTN_STYLE, padding: '4px 8px' }}
+              >
+                Restore…
+              </button>
+              <button onClick={() => onDownload(b)} style={{ ...LIB_BTN_STYLE, padding: '4px 8px' }}>Download</button>
+              <button onClick={() => onDelete(b)} style={{ ...LIB_BTN_STYLE, padding: '4px 8px' }} title="Delete backup">🗑</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
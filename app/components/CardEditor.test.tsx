@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import type { CardDraft } from '../lib/cards';
+import { DEFAULT_TOKEN_SETTINGS } from '../lib/tokens';
+import { CardEditor } from './CardEditor';
+
+function Harness({ initial, stale = false, onSave, onCancel = vi.fn() }: {
+  initial: CardDraft;
+  stale?: boolean;
+  onSave: (draft: CardDraft) => void;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  return (
+    <CardEditor
+      draft={draft}
+      onChange={setDraft}
+      stale={stale}
+      tokenSettings={DEFAULT_TOKEN_SETTINGS}
+      includeOptions={[]}
+      resolveText={(t) => t}
+      onSave={() => onSave(draft)}
+      onCancel={onCancel}
+    />
+  );
+}
+
+const initial: CardDraft = { title: 'Summary', text: 'Summarize **this**', tags: 'work' };
+
+describe('CardEditor', () => {
+  it('starts from the draft and saves the edits', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    render(<Harness initial={initial} onSave={onSave} />);
+    const title = screen.getByPlaceholderText('Title');
+    expect(title).toHaveValue('Summary');
+    await user.clear(title);
+    await user.type(title, 'Short summary');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+    expect(onSave).toHaveBeenCalledWith({ ...initial, title: 'Short summary' });
+  });
+
+  it('cancels without saving', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    const onCancel = vi.fn();
+    render(<Harness initial={initial} onSave={onSave} onCancel={onCancel} />);
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalled();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('previews the text as Markdown', async () => {
+    const user = userEvent.setup();
+    render(<Harness initial={initial} onSave={vi.fn()} />);
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+    expect(screen.getByText('this').tagName).toBe('STRONG');
+    expect(screen.queryByPlaceholderText('Text')).not.toBeInTheDocument();
+  });
+
+  it('warns when the card changed since editing started', () => {
+    const { rerender } = render(<Harness initial={initial} onSave={vi.fn()} />);
+    expect(screen.queryByText(/changed in another tab/)).not.toBeInTheDocument();
+    rerender(<Harness initial={initial} onSave={vi.fn()} stale />);
+    expect(screen.getByText(/changed in another tab/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,89 @@
+import type { CardDraft } from '../lib/cards';
+import type { IncludeOption } from '../lib/includes';
+import type { TokenSettings } from '../lib/tokens';
+import { MarkdownField } from './MarkdownField';
+import { SizeInfo } from './SizeInfo';
+import { ACCENT, BG, BORDER, ON_ACCENT, PANEL, TEXT, WARNING } from './theme';
+
+// Inline editor shown in place of a card in the list
+export function CardEditor({ draft, onChange, stale, tokenSettings, includeOptions, resolveText, onSave, onCancel }: {
+  draft: CardDraft;
+  onChange: (draft: CardDraft) => void;
+  stale: boolean; // the card changed elsewhere since editing started
+  tokenSettings: TokenSettings;
+  includeOptions: IncludeOption[]; // other cards this one can include
+  resolveText: (text: string) => string; // expands includes, for the preview and size
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div style={{ display: 'grid', gap: 8, boxSizing: 'border-box', maxWidth: '100%' }}>
+      <input
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="Title"
+        style={{
+          width: '100%',
+          background: BG,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: '8px 10px',
+          boxSizing: 'border-box',
+          maxWidth: '100%',
+          overflowWrap: 'anywhere',
+          wordBreak: 'break-word'
+        }}
+      />
+      <MarkdownField
+        value={draft.text}
+        onChange={(text) => onChange({ ...draft, text })}
+        placeholder="Text"
+        rows={5}
+        includeOptions={includeOptions}
+        resolveText={resolveText}
+        style={{
+          width: '100%',
+          background: BG,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: 10,
+          boxSizing: 'border-box',
+          maxWidth: '100%',
+          overflowWrap: 'anywhere',
+          wordBreak: 'break-word'
+        }}
+      />
+      <input
+        value={draft.tags}
+        onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+        placeholder="Tags, comma-separated"
+        style={{
+          width: '100%',
+          background: BG,
+          color: TEXT,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 8,
+          padding: '8px 10px',
+          boxSizing: 'border-box',
+          maxWidth: '100%'
+        }}
+      />
+      {stale && (
+        <div style={{ fontSize: 12, color: WARNING }}>
+          ⚠️ This prompt changed in another tab or was edited by a teammate since you started editing. Saving will ask which version to keep.
+        </div>
+      )}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <button onClick={onSave} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }} data-nocopy>
+          Save
+        </button>
+        <button onClick={onCancel} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }} data-nocopy>
+          Cancel
+        </button>
+        <SizeInfo text={resolveText(draft.text)} settings={tokenSettings} style={{ marginLeft: 'auto' }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_DRAFT } from '../lib/cards';
+import { resolveIncludes } from '../lib/includes';
+import { DEFAULT_TOKEN_SETTINGS } from '../lib/tokens';
+import type { Card } from '../lib/types';
+import { EMPTY_USAGE } from '../lib/usage';
+import { CardList, type CardListProps } from './CardList';
+
+const cards: Card[] = [
+  { id: 'a', title: 'Preamble', text: 'Be brief.', createdAt: 1, tags: ['work'] },
+  { id: 'b', title: 'Summary', text: '{{> a}} Summarize {{> gone}}', createdAt: 2 }
+];
+const includeCards = new Map(cards.map(c => [c.id, c]));
+
+function props(overrides: Partial<CardListProps> = {}): CardListProps {
+  return {
+    cards,
+    totalCount: cards.length,
+    filter: '',
+    loaded: true,
+    usage: EMPTY_USAGE,
+    now: 0,
+    history: {},
+    tagColors: {},
+    keyBindings: {},
+    cardRefs: { current: new Map() },
+    onCopy: vi.fn(),
+    onEdit: vi.fn(),
+    onDelete: vi.fn(),
+    onHistory: vi.fn(),
+    onTagClick: vi.fn(),
+    selected: new Set(),
+    onToggleSelected: vi.fn(),
+    tokenSettings: DEFAULT_TOKEN_SETTINGS,
+    resolved: new Map([['b', resolveIncludes(cards[1], includeCards)]]),
+    dependents: new Map([['a', [cards[1]]]]),
+    includeCards,
+    includeOptions: cards.map(c => ({ id: c.id, title: c.title })),
+    previewLines: 3,
+    expanded: new Set(),
+    onToggleExpanded: vi.fn(),
+    editingId: null,
+    editDraft: EMPTY_DRAFT,
+    editStale: false,
+    onEditChange: vi.fn(),
+    onSaveEdit: vi.fn(),
+    onCancelEdit: vi.fn(),
+    manualOrder: true,
+    dragId: null,
+    dropTarget: null,
+    onDragStart: vi.fn(),
+    onDragMove: vi.fn(),
+    onDragEnd: vi.fn(),
+    onHandleKey: vi.fn(),
+    ...overrides
+  };
+}
+
+const card = (title: string) => screen.getByRole('article', { name: `Copy ${title}` });
+
+describe('CardList', () => {
+  it('shows each card as an article in the feed', () => {
+    render(<CardList {...props()} />);
+    const feed = screen.getByRole('feed', { name: 'Prompts' });
+    const articles = within(feed).getAllByRole('article');
+    expect(articles).toHaveLength(2);
+    expect(articles[1]).toHaveAttribute('aria-posinset', '2');
+    expect(articles[1]).toHaveAttribute('aria-setsize', '2');
+  });
+
+  it('copies when the card or its title is clicked, but not from its controls', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<CardList {...p} />);
+    await user.click(within(card('Preamble')).getByText('Be brief.'));
+    await user.click(screen.getByRole('button', { name: 'Copy Summary' }));
+    await user.click(within(card('Preamble')).getByRole('button', { name: 'Edit' }));
+    expect(p.onCopy).toHaveBeenCalledTimes(2);
+    expect(p.onCopy).toHaveBeenNthCalledWith(2, cards[1]);
+    expect(p.onEdit).toHaveBeenCalledWith('a');
+  });
+
+  it('copies in the mode picked from "Copy as…"', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<CardList {...p} />);
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Copy Preamble as…' }), 'quoted');
+    expect(p.onCopy).toHaveBeenCalledWith(cards[0], 'quoted');
+  });
+
+  it('shows the expanded text and include badges', () => {
+    render(<CardList {...props()} />);
+    const summary = card('Summary');
+    expect(within(summary).getByText(/Be brief\. Summarize/)).toBeInTheDocument();
+    expect(within(summary).getByText(/Includes Preamble/)).toBeInTheDocument();
+    expect(within(summary).getByText(/1 missing include/)).toBeInTheDocument();
+    expect(within(card('Preamble')).getByText(/Used by 1 prompt$/)).toBeInTheDocument();
+  });
+
+  it('reports ticks, tag clicks and deletes', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<CardList {...p} />);
+    await user.click(screen.getByRole('checkbox', { name: 'Select Summary' }));
+    await user.click(screen.getByTitle('Filter by work'));
+    await user.click(within(card('Summary')).getByRole('button', { name: 'Delete' }));
+    expect(p.onToggleSelected).toHaveBeenCalledWith('b');
+    expect(p.onTagClick).toHaveBeenCalledWith('work');
+    expect(p.onDelete).toHaveBeenCalledWith('b');
+    expect(p.onCopy).not.toHaveBeenCalled();
+  });
+
+  it('offers history only for cards that have revisions', async () => {
+    const user = userEvent.setup();
+    const p = props({ history: { a: [{ at: 1, author: '', title: 'Old', text: 'old' }] } });
+    render(<CardList {...p} />);
+    expect(within(card('Summary')).queryByRole('button', { name: /History/ })).not.toBeInTheDocument();
+    await user.click(within(card('Preamble')).getByRole('button', { name: 'History (1)' }));
+    expect(p.onHistory).toHaveBeenCalledWith('a');
+  });
+
+  it('offers drag handles only in manual order', () => {
+    const { rerender } = render(<CardList {...props()} />);
+    expect(screen.getAllByRole('button', { name: /^Reorder/ })).toHaveLength(2);
+    rerender(<CardList {...props({ manualOrder: false })} />);
+    expect(screen.queryByRole('button', { name: /^Reorder/ })).not.toBeInTheDocument();
+  });
+
+  it('shows the editor in place of the card being edited', async () => {
+    const user = userEvent.setup();
+    const p = props({ editingId: 'a', editDraft: { title: 'Preamble', text: 'Be brief.', tags: '' } });
+    render(<CardList {...p} />);
+    expect(screen.getByPlaceholderText('Title')).toHaveValue('Preamble');
+    await user.click(screen.getByPlaceholderText('Title'));
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+    expect(p.onSaveEdit).toHaveBeenCalled();
+    expect(p.onCopy).not.toHaveBeenCalled();
+  });
+
+  it('says why the list is empty', () => {
+    const { rerender } = render(<CardList {...props({ cards: [], totalCount: 0, loaded: false })} />);
+    expect(screen.getByText('(Loading…)')).toBeInTheDocument();
+    rerender(<CardList {...props({ cards: [], totalCount: 0 })} />);
+    expect(screen.getByText(/No prompts yet/)).toBeInTheDocument();
+    rerender(<CardList {...props({ cards: [], filter: 'zzz' })} />);
+    expect(screen.getByText('(No prompts match “zzz”)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,340 @@
+import type { CardDraft } from '../lib/cards';
+import { COPY_MODES, type CopyMode } from '../lib/clipboard';
+import type { HistoryMap } from '../lib/history';
+import { MAX_INCLUDES, describeCycle, includesOf, resolveIncludes, type IncludeOption, type Resolved } from '../lib/includes';
+import { bindingOf, describeCombo, type KeyBindings } from '../lib/shortcuts';
+import { tagColor, type TagColors } from '../lib/tags';
+import type { TokenSettings } from '../lib/tokens';
+import type { Card } from '../lib/types';
+import { timeAgo, type UsageState } from '../lib/usage';
+import { CardEditor } from './CardEditor';
+import { CardPreview } from './CardPreview';
+import { SizeInfo } from './SizeInfo';
+import { ACCENT, BORDER, PANEL, SR_ONLY, SURFACE, TEXT, WARNING } from './theme';
+
+// The prompts on the page, in display order (user order unless sorted by
+// usage; new cards go to the bottom). State lives in the page; the list
+// reports what was clicked.
+export type CardListProps = {
+  cards: Card[]; // after filtering and sorting
+  totalCount: number; // on the page, before filtering
+  filter: string;
+  loaded: boolean;
+  usage: UsageState;
+  now: number; // reference time for "x ago"
+  history: HistoryMap;
+  tagColors: TagColors;
+  keyBindings: KeyBindings;
+  cardRefs: React.RefObject<Map<string, HTMLDivElement>>;
+  onCopy: (c: Card, mode?: CopyMode) => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onHistory: (id: string) => void;
+  onTagClick: (tag: string) => void;
+  // Ticked for bulk actions
+  selected: Set<string>;
+  onToggleSelected: (id: string) => void;
+  tokenSettings: TokenSettings; // sizes shown on each card
+  // Includes (see lib/includes.ts): cards shown expanded, and who uses whom
+  resolved: Map<string, Resolved>;
+  dependents: Map<string, Card[]>;
+  includeCards: Map<string, Card>;
+  includeOptions: IncludeOption[];
+  // Show more / less
+  previewLines: number; // collapsed height
+  expanded: Set<string>;
+  onToggleExpanded: (id: string) => void;
+  // Inline editing (see CardEditor)
+  editingId: string | null;
+  editDraft: CardDraft;
+  editStale: boolean;
+  onEditChange: (draft: CardDraft) => void;
+  onSaveEdit: () => void;
+  onCancelEdit: () => void;
+  // Drag-to-reorder; only offered in manual order
+  manualOrder: boolean;
+  dragId: string | null;
+  dropTarget: { id: string; after: boolean } | null;
+  onDragStart: (id: string) => void;
+  onDragMove: (e: React.PointerEvent, id: string) => void;
+  onDragEnd: (commit: boolean) => void;
+  onHandleKey: (e: React.KeyboardEvent<HTMLButtonElement>, id: string) => void;
+};
+
+export function CardList({
+  cards, totalCount, filter, loaded, usage, now, history, tagColors, keyBindings, tokenSettings,
+  resolved, dependents, includeCards, includeOptions, cardRefs,
+  onCopy, onEdit, onDelete, onHistory, onTagClick, selected, onToggleSelected, previewLines, expanded, onToggleExpanded,
+  editingId, editDraft, editStale, onEditChange, onSaveEdit, onCancelEdit,
+  manualOrder, dragId, dropTarget, onDragStart, onDragMove, onDragEnd, onHandleKey
+}: CardListProps) {
+  return (
+    <div style={{ display: 'grid', gap: 12, overflowX: 'hidden', boxSizing: 'border-box', maxWidth: '100%', flex: '1 1 320px', minWidth: 0 }}>
+      {!loaded && (
+        <div style={{ opacity: .7, textAlign: 'center' }}>(Loading…)</div>
+      )}
+      {loaded && totalCount === 0 && (
+        <div style={{ opacity: .7, textAlign: 'center' }}>(No prompts yet — add one above)</div>
+      )}
+      {totalCount > 0 && cards.length === 0 && (
+        <div style={{ opacity: .7, textAlign: 'center' }}>(No prompts match “{filter}”)</div>
+      )}
+
+      {/* Feed pattern: each card is a focusable article (see onShortcut in page.tsx) */}
+      <div
+        role="feed"
+        aria-label="Prompts"
+        aria-busy={!loaded}
+        style={{ display: 'grid', gap: 12, boxSizing: 'border-box', maxWidth: '100%', minWidth: 0 }}
+      >
+        {cards.map((c, pos) => {
+          const isEditing = editingId === c.id;
+          const isExpanded = expanded.has(c.id);
+          const isDropBefore = dropTarget?.id === c.id && !dropTarget.after;
+          const isDropAfter = dropTarget?.id === c.id && dropTarget.after;
+          const includes = resolved.get(c.id);
+          const users = dependents.get(c.id) ?? [];
+          const text = includes?.text ?? c.text;
+
+          return (
+            <div
+              key={c.id}
+              ref={(el) => {
+                if (el) cardRefs.current.set(c.id, el);
+                else cardRefs.current.delete(c.id);
+              }}
+              // Focusable for the keyboard shortcuts (see onShortcut in page.tsx)
+              tabIndex={isEditing ? -1 : 0}
+              data-card-id={c.id}
+              role="article"
+              aria-labelledby={`card-title-${c.id}`}
+              aria-describedby="card-keys-hint"
+              aria-posinset={pos + 1}
+              aria-setsize={cards.length}
+              onClick={(e) => {
+                if (isEditing) return;
+                if ((e.target as HTMLElement).closest('[data-nocopy]')) return;
+                // Copy full text on card click (primary behavior);
+                // templated cards ask for their variables first
+                onCopy(c);
+              }}
+              style={{
+                background: SURFACE,
+                border: `1px solid ${BORDER}`,
+                borderRadius: 12,
+                padding: 12,
+                boxSizing: 'border-box',
+                maxWidth: '100%',
+                // Critical: Clip children so rounded corners are always respected
+                overflow: 'hidden',
+                opacity: dragId === c.id ? .5 : 1,
+                boxShadow: isDropBefore
+                  ? `0 -3px 0 0 ${ACCENT}`
+                  : isDropAfter ? `0 3px 0 0 ${ACCENT}` : undefined
+              }}
+            >
+              {isEditing ? (
+                <CardEditor
+                  draft={editDraft}
+                  onChange={onEditChange}
+                  stale={editStale}
+                  tokenSettings={tokenSettings}
+                  includeOptions={includeOptions.filter(o => o.id !== c.id)}
+                  resolveText={(draftText) => resolveIncludes({ id: c.id, text: draftText }, includeCards).text}
+                  onSave={onSaveEdit}
+                  onCancel={onCancelEdit}
+                />
+              ) : (
+                <div style={{ display: 'grid', gap: 6, boxSizing: 'border-box', maxWidth: '100%' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
+                    <input
+                      type="checkbox"
+                      data-nocopy
+                      checked={selected.has(c.id)}
+                      onChange={() => onToggleSelected(c.id)}
+                      aria-label={`Select ${c.title || 'Untitled'}`}
+                      style={{ flex: '0 0 auto', margin: 0 }}
+                    />
+                    {/* Drag handle: pointer drag (mouse/touch) or arrow keys when focused;
+                        only in manual order, as other sorts are computed */}
+                    {manualOrder && (
+                      <button
+                        data-nocopy
+                        onPointerDown={(e) => {
+                          e.currentTarget.setPointerCapture(e.pointerId);
+                          onDragStart(c.id);
+                        }}
+                        onPointerMove={(e) => onDragMove(e, c.id)}
+                        onPointerUp={() => onDragEnd(true)}
+                        onPointerCancel={() => onDragEnd(false)}
+                        onKeyDown={(e) => onHandleKey(e, c.id)}
+                        aria-label={`Reorder ${c.title || 'Untitled'} (drag, or use arrow keys / Home / End)`}
+                        title="Drag to reorder (or focus and use ↑ ↓ Home End)"
+                        style={{
+                          background: 'transparent',
+                          color: TEXT,
+                          border: 'none',
+                          padding: '0 2px',
+                          opacity: .6,
+                          cursor: dragId === c.id ? 'grabbing' : 'grab',
+                          touchAction: 'none',
+                          flex: '0 0 auto',
+                          lineHeight: 1
+                        }}
+                      >
+                        ⠿
+                      </button>
+                    )}
+                    {/* The card's main action as a real button */}
+                    <button
+                      id={`card-title-${c.id}`}
+                      data-nocopy
+                      onClick={() => onCopy(c)}
+                      aria-label={`Copy ${c.title || 'Untitled'}`}
+                      style={{
+                        fontWeight: 700,
+                        fontSize: 16,
+                        background: 'transparent',
+                        color: TEXT,
+                        border: 'none',
+                        padding: 0,
+                        textAlign: 'left',
+                        boxSizing: 'border-box',
+                        maxWidth: '100%',
+                        minWidth: 0,
+                        flex: '1 1 auto',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap'
+                      }}
+                      title={c.title || 'Untitled'}
+                    >
+                      {c.title || 'Untitled'}
+                    </button>
+                    {usage.cards[c.id] && (
+                      <span
+                        style={{ flex: '0 0 auto', fontSize: 12, opacity: .6, whiteSpace: 'nowrap' }}
+                        title={`Copied ${usage.cards[c.id].count} time${usage.cards[c.id].count === 1 ? '' : 's'}, last on ${new Date(usage.cards[c.id].lastAt).toLocaleString()}`}
+                      >
+                        {usage.cards[c.id].count}× · {timeAgo(usage.cards[c.id].lastAt, now)}
+                      </span>
+                    )}
+                    {/* Copy in another mode; a plain click on the card copies plain text */}
+                    <select
+                      data-nocopy
+                      value=""
+                      onChange={(e) => {
+                        if (e.target.value) onCopy(c, e.target.value as CopyMode);
+                      }}
+                      aria-label={`Copy ${c.title || 'Untitled'} as…`}
+                      title="Copy as…"
+                      style={{
+                        flex: '0 0 auto',
+                        background: PANEL,
+                        color: TEXT,
+                        border: `1px solid ${BORDER}`,
+                        borderRadius: 6,
+                        padding: '2px 4px',
+                        fontSize: 12
+                      }}
+                    >
+                      <option value="">Copy as…</option>
+                      {(Object.keys(COPY_MODES) as CopyMode[]).map(m => (
+                        <option key={m} value={m} title={COPY_MODES[m].hint}>{COPY_MODES[m].label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {(c.tags?.length ?? 0) > 0 && (
+                    <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+                      {c.tags?.map(tag => {
+                        const color = tagColor(tag, tagColors) ?? '#6b7280';
+                        return (
+                          <button
+                            key={tag}
+                            data-nocopy
+                            onClick={() => onTagClick(tag)}
+                            title={`Filter by ${tag}`}
+                            style={{
+                              background: color + '33',
+                              color: TEXT,
+                              border: `1px solid ${color}`,
+                              borderRadius: 999,
+                              padding: '0 8px',
+                              fontSize: 11,
+                              lineHeight: 1.6,
+                              maxWidth: '100%',
+                              overflow: 'hidden',
+                              textOverflow: 'ellipsis',
+                              whiteSpace: 'nowrap'
+                            }}
+                          >
+                            {tag}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {(includes || users.length > 0) && (
+                    <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', fontSize: 12, opacity: .8 }}>
+                      {includes && includes.included.length > 0 && (
+                        <span title="Shown and copied with the included prompts' current text">
+                          🔗 Includes {includesOf(c.text).filter(id => includeCards.has(id)).map(id => includeCards.get(id)?.title || 'Untitled').join(', ')}
+                        </span>
+                      )}
+                      {includes && includes.missing.length > 0 && (
+                        <span style={{ color: WARNING }} title={`No prompt has the id ${includes.missing.join(', ')}`}>
+                          ⚠️ {includes.missing.length} missing include{includes.missing.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                      {includes?.cycle && (
+                        <span style={{ color: WARNING }} title="A prompt can't include itself, directly or through others">
+                          ⚠️ Includes loop: {describeCycle(includes.cycle, includeCards)}
+                        </span>
+                      )}
+                      {includes?.tooLarge && (
+                        <span style={{ color: WARNING }} title={`Copying stops after ${MAX_INCLUDES} includes, as repeated includes grow very quickly`}>
+                          ⚠️ Too many includes
+                        </span>
+                      )}
+                      {users.length > 0 && (
+                        <span title={users.map(u => u.title || 'Untitled').join('\n')}>
+                          ↩ Used by {users.length} prompt{users.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  <CardPreview text={text} lines={previewLines} expanded={isExpanded} onToggle={() => onToggleExpanded(c.id)} />
+
+                  {/* Action buttons, and the size on the right */}
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 4, flexWrap: 'wrap' }}>
+                    <button onClick={() => onEdit(c.id)} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }} data-nocopy>
+                      Edit
+                    </button>
+                    <button onClick={() => onDelete(c.id)} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }} data-nocopy>
+                      Delete
+                    </button>
+                    {(history[c.id]?.length ?? 0) > 0 && (
+                      <button onClick={() => onHistory(c.id)} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }} data-nocopy>
+                        History ({history[c.id].length})
+                      </button>
+                    )}
+                    <SizeInfo text={text} settings={tokenSettings} style={{ marginLeft: 'auto' }} />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div id="card-keys-hint" style={SR_ONLY}>
+        {describeCombo(bindingOf(keyBindings, 'copy'))} copies,
+        {' '}{describeCombo(bindingOf(keyBindings, 'edit'))} edits,
+        {' '}{describeCombo(bindingOf(keyBindings, 'delete'))} deletes.
+        {' '}Press {describeCombo(bindingOf(keyBindings, 'help'))} for all shortcuts.
+      </div>
+    </div>
+  );
+}
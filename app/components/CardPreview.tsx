@@ -0,0 +1,63 @@
+import { useOverflow } from '../hooks/useOverflow';
+import { Markdown } from './Markdown';
+import { BORDER, PANEL, TEXT, markdownExpandedStyle, previewCollapsedStyle } from './theme';
+
+// Card text cut to `lines` lines, with "Show more" in the bottom-right
+// corner when the rendered text is actually taller than that
+export function CardPreview({ text, lines, expanded, onToggle }: {
+  text: string;
+  lines: number;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const { ref, overflows } = useOverflow(lines, text);
+  return (
+    <div
+      style={{
+        position: 'relative',
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        // Ensure toggle never sits outside rounded clipping
+        paddingBottom: overflows ? 28 : 0
+      }}
+    >
+      {/* Shown as Markdown; clicking still copies the source text */}
+      <div ref={ref} style={expanded ? markdownExpandedStyle : previewCollapsedStyle(lines, overflows)}>
+        {text ? <Markdown text={text} /> : <span style={{ opacity: .6 }}>(empty)</span>}
+      </div>
+
+      {overflows && (
+        <button
+          data-nocopy
+          onClick={(e) => {
+            e.stopPropagation(); // do not copy text when toggling
+            onToggle();
+          }}
+          aria-label={expanded ? 'Show less' : 'Show more'}
+          aria-expanded={expanded}
+          title={expanded ? 'Show less' : 'Show more'}
+          style={{
+            position: 'absolute',
+            right: 8, // inset to keep away from the clipped edge
+            bottom: 8, // inset to keep away from the clipped edge
+            background: PANEL,
+            color: TEXT,
+            border: `1px solid ${BORDER}`,
+            borderRadius: 6,
+            padding: '2px 8px',
+            fontSize: 12,
+            lineHeight: 1.4,
+            cursor: 'pointer',
+            maxWidth: 'calc(100% - 16px)',
+            boxSizing: 'border-box',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap'
+          }}
+        >
+          {expanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+    </div>
+  );
+}
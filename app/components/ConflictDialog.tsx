@@ -0,0 +1,104 @@
+import { diffWords } from '../lib/diff';
+import type { Conflict } from '../lib/sync';
+import type { Card } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { DiffView } from './DiffView';
+import { ACCENT, BG, BORDER, ON_ACCENT, PANEL, TEXT, previewExpandedStyle } from './theme';
+
+/** A card changed in two places: by another tab ('sync') or while being edited ('edit'). */
+export type CardConflict = Conflict<Card> & { source: 'sync' | 'edit' };
+
+// Conflict prompt, shown one at a time above other dialogs until every
+// conflict is resolved; there is no way to dismiss it without choosing
+export function ConflictDialog({ conflict, count, onResolve }: {
+  conflict: CardConflict;
+  count: number; // conflicts waiting, this one included
+  onResolve: (choice: 'mine' | 'theirs' | 'both') => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  const { local, remote, source } = conflict;
+  const theirs = remote ?? { ...local, title: '', text: '' };
+  const titleOps = diffWords(theirs.title, local.title);
+  const textOps = diffWords(theirs.text, local.text);
+  const boxStyle: React.CSSProperties = {
+    ...previewExpandedStyle,
+    background: BG,
+    border: `1px solid ${BORDER}`,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 13,
+    minWidth: 0,
+    maxHeight: '40vh',
+    overflow: 'auto'
+  };
+  return (
+    <div
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10001,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+        tabIndex={-1}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(900px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div id="conflict-title" style={{ fontWeight: 700, fontSize: 16 }}>
+          {source === 'edit' ? 'This prompt changed while you were editing' : 'Conflicting edit from another tab or a teammate'}
+          {count > 1 && <span style={{ opacity: .6, fontWeight: 400, fontSize: 13 }}> · 1 of {count}</span>}
+        </div>
+        <div style={{ fontSize: 13, opacity: .8 }}>
+          {remote
+            ? 'Both versions changed since they were last in sync. Choose which to keep.'
+            : 'The other version deleted this prompt. Keep yours or accept the deletion.'}
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+          <div style={{ fontSize: 12, opacity: .7 }}>{source === 'edit' ? 'Current (saved meanwhile)' : 'Other tab'}</div>
+          <div style={{ fontSize: 12, opacity: .7 }}>{source === 'edit' ? 'Your edit' : 'This tab'}</div>
+          <div style={boxStyle}>
+            {remote ? (
+              <>
+                <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={titleOps} side="old" /></div>
+                <DiffView ops={textOps} side="old" />
+              </>
+            ) : <span style={{ opacity: .6 }}>(deleted)</span>}
+          </div>
+          <div style={boxStyle}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={titleOps} side="new" /></div>
+            <DiffView ops={textOps} side="new" />
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+          <button onClick={() => onResolve('theirs')} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            {remote ? (source === 'edit' ? 'Discard my edit' : 'Keep other tab’s') : 'Accept deletion'}
+          </button>
+          <button onClick={() => onResolve('both')} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Keep both
+          </button>
+          <button onClick={() => onResolve('mine')} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Keep mine
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import type { DiffOp } from '../lib/diff';
+
+// Render a word diff; `side` limits output to one column of a split view
+export function DiffView({ ops, side }: { ops: DiffOp[]; side?: 'old' | 'new' }) {
+  return (
+    <>
+      {ops.map((op, i) => {
+        if (op.kind === 'same') return <span key={i}>{op.text}</span>;
+        if (side === 'old' && op.kind === 'add') return null;
+        if (side === 'new' && op.kind === 'del') return null;
+        return op.kind === 'add'
+          ? <ins key={i} style={{ background: 'rgba(34,197,94,.25)', textDecoration: 'none' }}>{op.text}</ins>
+          : <del key={i} style={{ background: 'rgba(239,68,68,.25)' }}>{op.text}</del>;
+      })}
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+import { useRef } from 'react';
+
+// A real button that opens the file picker (a <label> around a hidden
+// input can't be reached with the keyboard)
+export function FileButton({ children, title, accept, multiple, directory, style, onFiles }: {
+  children: React.ReactNode;
+  title: string;
+  accept?: string;
+  multiple?: boolean;
+  directory?: boolean; // pick a whole folder
+  style: React.CSSProperties;
+  onFiles: (files: FileList) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  return (
+    <>
+      <button type="button" onClick={() => inputRef.current?.click()} title={title} style={style}>
+        {children}
+      </button>
+      <input
+        ref={(el) => {
+          inputRef.current = el;
+          // Not in React's input props; every browser that matters supports it
+          if (el && directory) el.setAttribute('webkitdirectory', '');
+        }}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        hidden
+        tabIndex={-1}
+        aria-hidden
+        onChange={(e) => {
+          if (e.target.files?.length) onFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+import { COPY_MODES, type CopyMode } from '../lib/clipboard';
+import { renderTemplate, type TemplateVar } from '../lib/templates';
+import type { Card } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BG, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT, previewExpandedStyle } from './theme';
+
+// Template fill-in: one field per placeholder, with a live preview of
+// what gets copied
+export function FillDialog({ card, vars, values, onValuesChange, mode, onSubmit, onCancel }: {
+  card: Card;
+  vars: TemplateVar[];
+  values: Record<string, string>; // by variable name
+  onValuesChange: (values: Record<string, string>) => void;
+  mode: CopyMode; // how the result is copied
+  onSubmit: () => void;
+  onCancel: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Fill in template variables"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(520px, 92vw)',
+          maxHeight: '80vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          maxWidth: '92vw'
+        }}
+      >
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit();
+          }}
+          style={{ display: 'grid', gap: 10 }}
+        >
+          <div
+            style={{ fontWeight: 700, fontSize: 16, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+            title={card.title}
+          >
+            {card.title || 'Untitled'}
+          </div>
+
+          {vars.map((v, i) => {
+            const fieldStyle: React.CSSProperties = {
+              width: '100%',
+              background: SURFACE,
+              color: TEXT,
+              border: `1px solid ${BORDER}`,
+              borderRadius: 8,
+              padding: '8px 10px',
+              boxSizing: 'border-box',
+              maxWidth: '100%'
+            };
+            const value = values[v.name] ?? '';
+            const onChange = (val: string) => onValuesChange({ ...values, [v.name]: val });
+            return (
+              <label key={v.name} style={{ display: 'grid', gap: 4, fontSize: 13 }}>
+                <span style={{ opacity: .8 }}>{v.name}</span>
+                {v.choices.length > 0 ? (
+                  <select value={value} onChange={(e) => onChange(e.target.value)} autoFocus={i === 0} style={fieldStyle}>
+                    {v.choices.map(ch => <option key={ch} value={ch}>{ch}</option>)}
+                  </select>
+                ) : (
+                  <input
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={v.defaultValue || v.name}
+                    autoFocus={i === 0}
+                    style={fieldStyle}
+                  />
+                )}
+              </label>
+            );
+          })}
+
+          <div
+            style={{
+              ...previewExpandedStyle,
+              background: BG,
+              border: `1px solid ${BORDER}`,
+              borderRadius: 8,
+              padding: 10,
+              fontSize: 13,
+              maxHeight: 200,
+              overflow: 'auto'
+            }}
+          >
+            {renderTemplate(card.text, values)}
+          </div>
+
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            <button type="button" onClick={onCancel} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+              Cancel
+            </button>
+            <button type="submit" style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+              {mode === 'plain' ? 'Copy' : `Copy as ${COPY_MODES[mode].label.toLowerCase()}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { highlightSegments } from '../lib/search';
+import { ACCENT, ON_ACCENT } from './theme';
+
+// Render `text` with the characters at `hits` wrapped in <mark>
+export function Highlight({ text, hits }: { text: string; hits: number[] }) {
+  if (hits.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightSegments(text, hits).map((seg, i) => seg.hit
+        ? <mark key={i} style={{ background: ACCENT, color: ON_ACCENT, borderRadius: 2 }}>{seg.text}</mark>
+        : <span key={i}>{seg.text}</span>)}
+    </>
+  );
+}
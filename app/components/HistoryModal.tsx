@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { diffWords } from '../lib/diff';
+import type { Revision } from '../lib/history';
+import type { Card } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { DiffView } from './DiffView';
+import { ACCENT, BG, BORDER, BUTTON_FONT_SIZE, LIB_BTN_STYLE, ON_ACCENT, PANEL, SURFACE, TEXT, previewExpandedStyle } from './theme';
+
+// Revision history of one card: pick two versions to compare, inline or
+// side by side, and restore an older one
+export function HistoryModal({
+  card, entries, diffFrom, diffTo, onDiffFromChange, onDiffToChange, author, onAuthorChange, onRestore, onClose
+}: {
+  card: Card;
+  entries: Revision[]; // oldest..newest, the card's current wording last
+  diffFrom: number; // indices into entries
+  diffTo: number;
+  onDiffFromChange: (i: number) => void;
+  onDiffToChange: (i: number) => void;
+  author: string; // recorded on edits
+  onAuthorChange: (author: string) => void;
+  onRestore: (rev: Revision) => void;
+  onClose: () => void;
+}) {
+  const [diffMode, setDiffMode] = useState<'inline' | 'split'>('inline');
+  const dialogRef = useFocusTrap(true);
+
+  const last = entries.length - 1;
+  const from = entries[Math.min(diffFrom, last)];
+  const to = entries[Math.min(diffTo, last)];
+  const titleOps = diffWords(from.title, to.title);
+  const textOps = diffWords(from.text, to.text);
+  const label = (i: number) => i === last ? 'Current' : `#${i + 1} · ${new Date(entries[i].at).toLocaleString()}`;
+  const boxStyle: React.CSSProperties = {
+    ...previewExpandedStyle,
+    background: BG,
+    border: `1px solid ${BORDER}`,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 13,
+    minWidth: 0
+  };
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Revision history"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(900px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <div style={{ fontWeight: 700, fontSize: 16, flex: '1 1 auto', minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            History: {card.title || 'Untitled'}
+          </div>
+          <input
+            value={author}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            placeholder="Your name (recorded on edits)"
+            style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 8, padding: '6px 8px', fontSize: 13 }}
+          />
+          <button
+            onClick={() => setDiffMode(m => m === 'inline' ? 'split' : 'inline')}
+            style={LIB_BTN_STYLE}
+          >
+            {diffMode === 'inline' ? 'Side by side' : 'Inline'}
+          </button>
+          <button
+            onClick={onClose}
+            style={{ background: ACCENT, color: ON_ACCENT, padding: '6px 10px', borderRadius: 8, fontSize: BUTTON_FONT_SIZE }}
+          >
+            Close
+          </button>
+        </div>
+
+        {/* Revision list: pick the two versions to compare */}
+        <div style={{ display: 'grid', gap: 4, fontSize: 13 }}>
+          <div style={{ display: 'flex', gap: 8, opacity: .6, fontSize: 12 }}>
+            <span style={{ width: 36 }}>From</span><span style={{ width: 24 }}>To</span><span>Version</span>
+          </div>
+          {entries.map((_, i) => i).reverse().map(i => (
+            <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 8, minWidth: 0 }}>
+              <input
+                type="radio"
+                name="diff-from"
+                aria-label={`From ${label(i)}`}
+                checked={diffFrom === i}
+                onChange={() => onDiffFromChange(i)}
+                style={{ width: 36, margin: 0 }}
+              />
+              <input
+                type="radio"
+                name="diff-to"
+                aria-label={`To ${label(i)}`}
+                checked={diffTo === i}
+                onChange={() => onDiffToChange(i)}
+                style={{ width: 24, margin: 0 }}
+              />
+              <span style={{ flex: '1 1 auto', minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {label(i)}
+                {i !== last && entries[i].author && <span style={{ opacity: .6 }}> · replaced by {entries[i].author}</span>}
+                {i !== last && <span style={{ opacity: .6 }}> · {entries[i].title}</span>}
+              </span>
+              {i !== last && (
+                <button
+                  onClick={() => onRestore(entries[i])}
+                  style={{ background: PANEL, color: TEXT, padding: '2px 8px', borderRadius: 6, border: `1px solid ${BORDER}`, fontSize: 12 }}
+                >
+                  Restore
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ fontSize: 12, opacity: .7 }}>
+          Comparing {label(Math.min(diffFrom, last))} → {label(Math.min(diffTo, last))}
+        </div>
+
+        {diffMode === 'inline' ? (
+          <div style={boxStyle}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={titleOps} /></div>
+            <DiffView ops={textOps} />
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+            <div style={boxStyle}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={titleOps} side="old" /></div>
+              <DiffView ops={textOps} side="old" />
+            </div>
+            <div style={boxStyle}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={titleOps} side="new" /></div>
+              <DiffView ops={textOps} side="new" />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { diffWords } from '../lib/diff';
+import {
+  actionsFor, planSummary,
+  type ImportAction, type ImportItem, type ImportPlan, type ImportStatus
+} from '../lib/importer';
+import type { Card, LayoutEntry } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { DiffView } from './DiffView';
+import { ACCENT, BG, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT, previewExpandedStyle } from './theme';
+
+// Import wizard: preview the file and choose per item before writing.
+// Mount it once per file, so comparisons start closed.
+export function ImportWizard({
+  plan, name, problems, target, onTargetChange, layoutName, onLayoutNameChange, onAction, onConfirm, onCancel
+}: {
+  plan: ImportPlan;
+  name: string; // of the file
+  problems: string[]; // skipped entries
+  target: 'page' | 'layout'; // where imported cards go
+  onTargetChange: (target: 'page' | 'layout') => void;
+  layoutName: string; // for target 'layout'
+  onLayoutNameChange: (name: string) => void;
+  onAction: (which: { key: string } | { status: ImportStatus }, action: ImportAction) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const [compare, setCompare] = useState<string | null>(null); // row key
+  const dialogRef = useFocusTrap(true);
+
+  const summary = planSummary(plan);
+  const rows = plan.items as ImportItem<Card | LayoutEntry>[];
+  const isCards = plan.kind === 'cards';
+  const noun = isCards ? 'prompt' : 'layout';
+  const actionLabel = (action: ImportAction, status: ImportStatus) => {
+    if (action === 'both') return status === 'new' ? 'Add' : 'Keep both';
+    if (action === 'merge') return isCards ? 'Merge tags' : 'Merge cards';
+    return action === 'skip' ? 'Skip' : 'Overwrite';
+  };
+  const statusStyle: Record<ImportStatus, React.CSSProperties> = {
+    new: { background: 'rgba(34,197,94,.2)' },
+    duplicate: { background: 'rgba(148,163,184,.25)' },
+    conflict: { background: 'rgba(234,179,8,.25)' }
+  };
+  const selectStyle: React.CSSProperties = {
+    background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '4px 6px', fontSize: 13
+  };
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10001,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import preview"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(900px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ fontWeight: 700, fontSize: 16, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          Import {isCards ? 'prompts' : 'layouts'} from {name}
+        </div>
+        <div style={{ fontSize: 13, opacity: .8 }}>
+          {rows.length} {noun}{rows.length === 1 ? '' : 's'} in file: {summary.new} new, {summary.duplicate} already here, {summary.conflict} differ from an existing {noun}.
+          Nothing is changed until you press Import.
+        </div>
+
+        {isCards && (
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', fontSize: 13 }}>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="radio" checked={target === 'page'} onChange={() => onTargetChange('page')} />
+              Add to the page
+            </label>
+            <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input type="radio" checked={target === 'layout'} onChange={() => onTargetChange('layout')} />
+              Save as a new layout named
+            </label>
+            <input
+              value={layoutName}
+              onChange={(e) => { onLayoutNameChange(e.target.value); onTargetChange('layout'); }}
+              placeholder="Imported prompts"
+              style={{ ...selectStyle, flex: '1 1 180px', minWidth: 0 }}
+            />
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <div style={{ fontSize: 13, border: '1px solid rgba(234,179,8,.6)', borderRadius: 8, padding: 8, maxHeight: 140, overflow: 'auto' }}>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>
+              ⚠️ {problems.length} problem{problems.length === 1 ? '' : 's'} in the file; these entries are left out:
+            </div>
+            {problems.map((p, i) => <div key={i} style={{ fontFamily: 'monospace', fontSize: 12 }}>{p}</div>)}
+          </div>
+        )}
+
+        {/* Bulk choices per status */}
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', fontSize: 13 }}>
+          {(['new', 'duplicate', 'conflict'] as ImportStatus[]).filter(st => summary[st] > 0).map(st => (
+            <label key={st} style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              All {st === 'new' ? 'new' : st === 'duplicate' ? 'duplicates' : 'conflicts'}:
+              <select
+                value=""
+                onChange={(e) => e.target.value && onAction({ status: st }, e.target.value as ImportAction)}
+                style={selectStyle}
+              >
+                <option value="">Choose…</option>
+                {actionsFor(st).map(a => <option key={a} value={a}>{actionLabel(a, st)}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div style={{ display: 'grid', gap: 6 }}>
+          {rows.map(item => {
+            const { incoming, match, status } = item;
+            const comparing = compare === item.key && match !== null;
+            const card = (x: Card | LayoutEntry) => x as Card;
+            const layout = (x: Card | LayoutEntry) => x as LayoutEntry;
+            return (
+              <div key={item.key} style={{ border: `1px solid ${BORDER}`, borderRadius: 8, padding: 8, background: SURFACE, display: 'grid', gap: 6 }}>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center', minWidth: 0 }}>
+                  <span style={{ ...statusStyle[status], borderRadius: 999, padding: '1px 8px', fontSize: 12, flexShrink: 0 }}>
+                    {status === 'new' ? 'New' : status === 'duplicate' ? 'Duplicate' : 'Conflict'}
+                  </span>
+                  <span style={{ fontWeight: 600, flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={incoming.title}>
+                    {incoming.title || 'Untitled'}
+                    {!isCards && <span style={{ opacity: .6, fontWeight: 400 }}> · {layout(incoming).cards.length} cards</span>}
+                    {match && match.title !== incoming.title && (
+                      <span style={{ opacity: .6, fontWeight: 400 }}> · matches “{match.title}”</span>
+                    )}
+                  </span>
+                  {match && status === 'conflict' && (
+                    <button
+                      onClick={() => setCompare(comparing ? null : item.key)}
+                      style={{ background: PANEL, color: TEXT, padding: '4px 8px', borderRadius: 6, border: `1px solid ${BORDER}`, fontSize: 12 }}
+                    >
+                      {comparing ? 'Hide' : 'Compare'}
+                    </button>
+                  )}
+                  <select
+                    value={item.action}
+                    aria-label={`Action for ${incoming.title || 'Untitled'}`}
+                    onChange={(e) => onAction({ key: item.key }, e.target.value as ImportAction)}
+                    style={selectStyle}
+                  >
+                    {actionsFor(status).map(a => <option key={a} value={a}>{actionLabel(a, status)}</option>)}
+                  </select>
+                </div>
+                {isCards && !comparing && (
+                  <div style={{ fontSize: 12, opacity: .7, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={card(incoming).text}>
+                    {card(incoming).text.replace(/\s+/g, ' ').slice(0, 200)}
+                  </div>
+                )}
+                {comparing && match && (isCards ? (
+                  <div style={{ ...previewExpandedStyle, fontSize: 13, background: BG, borderRadius: 6, padding: 8, maxHeight: '30vh', overflow: 'auto' }}>
+                    <div style={{ fontWeight: 700, marginBottom: 6 }}><DiffView ops={diffWords(match.title, incoming.title)} /></div>
+                    <DiffView ops={diffWords(card(match).text, card(incoming).text)} />
+                  </div>
+                ) : (
+                  <div style={{ fontSize: 13, background: BG, borderRadius: 6, padding: 8, maxHeight: '30vh', overflow: 'auto' }}>
+                    {layout(incoming).cards.map(c => {
+                      const have = layout(match).cards.some(m => m.title.trim() === c.title.trim() && m.text.trim() === c.text.trim());
+                      return (
+                        <div key={c.id} style={{ opacity: have ? .6 : 1 }}>
+                          {have ? '= ' : '+ '}{c.title || 'Untitled'}
+                        </div>
+                      );
+                    })}
+                    <div style={{ opacity: .6, marginTop: 4 }}>
+                      “+” cards are not in the existing layout; merging adds only those.
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button onClick={onCancel} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Cancel
+          </button>
+          <button onClick={onConfirm} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Import {rows.filter(i => i.action !== 'skip').length}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
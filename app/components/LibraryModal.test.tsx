@@ -0,0 +1,105 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import type { LayoutEntry } from '../lib/types';
+import { LibraryModal } from './LibraryModal';
+
+const layouts: LayoutEntry[] = [
+  { id: 'L1', title: 'Daily', savedAt: 0, cards: [{ id: 'c1', title: 'A', text: '', createdAt: 0 }] },
+  { id: 'L2', title: 'Weekly', savedAt: 0, cards: [] }
+];
+
+function props(overrides: Partial<React.ComponentProps<typeof LibraryModal>> = {}): React.ComponentProps<typeof LibraryModal> {
+  return {
+    layouts,
+    visibleLayouts: layouts,
+    filter: '',
+    onFilterChange: vi.fn(),
+    sort: 'saved',
+    onSortChange: vi.fn(),
+    openTitle: null,
+    openDirty: false,
+    exportFormat: 'json',
+    onExportFormatChange: vi.fn(),
+    onClose: vi.fn(),
+    onOpen: vi.fn(),
+    onRename: vi.fn(),
+    onDuplicate: vi.fn(),
+    onDelete: vi.fn(),
+    onImportCards: vi.fn(),
+    onImportLibrary: vi.fn(),
+    onImportSources: vi.fn(),
+    onExportCards: vi.fn(),
+    onExportLibrary: vi.fn(),
+    onCopyLibrary: vi.fn(),
+    onDownloadBackup: vi.fn(),
+    onOpenBackups: vi.fn(),
+    ...overrides
+  };
+}
+
+const row = (title: string) => screen.getByTitle(title).parentElement!.parentElement!;
+
+describe('LibraryModal', () => {
+  it('lists layouts with their size and open state', () => {
+    render(<LibraryModal {...props({ openTitle: 'Daily', openDirty: true })} />);
+    expect(within(row('Daily')).getByText(/1 prompt · open, unsaved changes/)).toBeInTheDocument();
+    expect(within(row('Weekly')).getByText(/0 prompts$/)).toBeInTheDocument();
+  });
+
+  it('reports row actions by layout id', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<LibraryModal {...p} />);
+    const weekly = within(row('Weekly'));
+    await user.click(weekly.getByRole('button', { name: 'Open' }));
+    await user.click(weekly.getByRole('button', { name: 'Rename' }));
+    await user.click(weekly.getByRole('button', { name: 'Duplicate' }));
+    await user.click(weekly.getByRole('button', { name: 'Delete' }));
+    expect(p.onOpen).toHaveBeenCalledWith('L2');
+    expect(p.onRename).toHaveBeenCalledWith('L2');
+    expect(p.onDuplicate).toHaveBeenCalledWith('L2');
+    expect(p.onDelete).toHaveBeenCalledWith('L2');
+  });
+
+  it('filters, sorts and picks the export format', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<LibraryModal {...p} />);
+    await user.type(screen.getByRole('textbox', { name: 'Filter layouts' }), 'd');
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Sort layouts' }), 'title');
+    await user.selectOptions(screen.getByTitle('Export format'), 'csv');
+    expect(p.onFilterChange).toHaveBeenCalledWith('d');
+    expect(p.onSortChange).toHaveBeenCalledWith('title');
+    expect(p.onExportFormatChange).toHaveBeenCalledWith('csv');
+  });
+
+  it('passes the picked file to the import', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    const { container } = render(<LibraryModal {...p} />);
+    const file = new File(['{"cards": []}'], 'cards.json', { type: 'application/json' });
+    const inputs = container.querySelectorAll<HTMLInputElement>('input[type="file"]');
+    await user.upload(inputs[0], file);
+    expect(p.onImportCards).toHaveBeenCalledWith(file);
+  });
+
+  it('says when nothing is saved or nothing matches', () => {
+    const { rerender } = render(<LibraryModal {...props({ layouts: [], visibleLayouts: [] })} />);
+    expect(screen.getByText('(Library is empty)')).toBeInTheDocument();
+    expect(screen.queryByRole('textbox', { name: 'Filter layouts' })).not.toBeInTheDocument();
+    rerender(<LibraryModal {...props({ visibleLayouts: [] })} />);
+    expect(screen.getByText('(No layouts match)')).toBeInTheDocument();
+  });
+
+  it('closes from the close button or a click outside, not inside', async () => {
+    const user = userEvent.setup();
+    const p = props();
+    render(<LibraryModal {...p} />);
+    await user.click(screen.getByRole('dialog', { name: 'Library' }));
+    expect(p.onClose).not.toHaveBeenCalled();
+    await user.click(screen.getByRole('button', { name: 'Close' }));
+    await user.click(screen.getByRole('dialog').parentElement!);
+    expect(p.onClose).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,299 @@
+import { EXPORT_FORMATS, IMPORT_ACCEPT, type ExportFormat } from '../lib/exchange';
+import { LAYOUT_SORTS, type LayoutSort } from '../lib/layouts';
+import { SOURCE_ACCEPT } from '../lib/sources';
+import type { LayoutEntry } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { FileButton } from './FileButton';
+import { ACCENT, BORDER, BUTTON_FONT_SIZE, LIB_BTN_STYLE, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Library Modal: saved layouts, with Import/Export and backups inside.
+// Mounted only while open.
+export function LibraryModal({
+  layouts, visibleLayouts, filter, onFilterChange, sort, onSortChange, openTitle, openDirty, exportFormat, onExportFormatChange, onClose,
+  onOpen, onRename, onDuplicate, onDelete, onImportCards, onImportLibrary, onImportSources, onExportCards, onExportLibrary, onCopyLibrary,
+  onDownloadBackup, onOpenBackups
+}: {
+  layouts: LayoutEntry[];
+  visibleLayouts: LayoutEntry[]; // matching the filter, sorted
+  filter: string;
+  onFilterChange: (filter: string) => void;
+  sort: LayoutSort;
+  onSortChange: (sort: LayoutSort) => void;
+  openTitle: string | null; // layout open on the page
+  openDirty: boolean; // the page has changes not saved into it
+  exportFormat: ExportFormat; // for both exports; imports detect it from the file
+  onExportFormatChange: (format: ExportFormat) => void;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImportCards: (file: File) => void;
+  onImportLibrary: (file: File) => void;
+  onImportSources: (files: FileList) => void;
+  onExportCards: () => void;
+  onExportLibrary: () => void;
+  onCopyLibrary: () => void;
+  onDownloadBackup: () => void;
+  onOpenBackups: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Library"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(720px, 92vw)',
+          maxHeight: '80vh',
+          // Scroll stays inside rounded container:
+          overflow: 'auto',
+          padding: '16px 14px 16px',
+          boxSizing: 'border-box',
+          maxWidth: '92vw',
+          // Clip to preserve rounded corners at all times
+          overflowClipMargin: '0px', // harmless if unsupported
+          overflowX: 'hidden'
+        }}
+      >
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            justifyContent: 'space-between',
+            marginBottom: 10,
+            flexWrap: 'wrap',
+            rowGap: 8,
+            boxSizing: 'border-box',
+            maxWidth: '100%'
+          }}
+        >
+          {/* Left cluster: Import / Export Current Layout / Import Library / Export Library */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', boxSizing: 'border-box', maxWidth: '100%' }}>
+            {/* Import current layout (cards) */}
+            <FileButton
+              style={LIB_BTN_STYLE}
+              title="Import a layout (JSON file with cards)"
+              accept={IMPORT_ACCEPT}
+              onFiles={(files) => onImportCards(files[0])}
+            >
+              Import Layout From File
+            </FileButton>
+
+            {/* Export current layout (cards) */}
+            <button
+              onClick={onExportCards}
+              style={LIB_BTN_STYLE}
+              title={`Export current layout as ${EXPORT_FORMATS[exportFormat].label}`}
+            >
+              Export Current Layout
+            </button>
+
+            {/* NEW: Import Library (layouts) — placed to the LEFT of Export Library */}
+            <FileButton
+              style={LIB_BTN_STYLE}
+              title="Import a saved library (JSON with layouts)"
+              accept={IMPORT_ACCEPT}
+              onFiles={(files) => onImportLibrary(files[0])}
+            >
+              Import Library From File
+            </FileButton>
+
+            {/* Prompts from chat exports, Markdown notes and text files */}
+            <FileButton
+              style={LIB_BTN_STYLE}
+              title="Import prompts from a ChatGPT conversations.json, a chat transcript, Markdown or .txt files"
+              accept={SOURCE_ACCEPT}
+              multiple
+              onFiles={onImportSources}
+            >
+              Import Prompts From Chats/Text
+            </FileButton>
+            <FileButton
+              style={LIB_BTN_STYLE}
+              title="Import every .txt, .md and chat export in a folder; sub-folders become tags"
+              multiple
+              directory
+              onFiles={onImportSources}
+            >
+              Import Folder
+            </FileButton>
+
+            {/* Export Library (layouts) */}
+            <button
+              onClick={onExportLibrary}
+              style={LIB_BTN_STYLE}
+              title={`Download all saved layouts as ${EXPORT_FORMATS[exportFormat].label}`}
+            >
+              Export Library
+            </button>
+            <button
+              onClick={onCopyLibrary}
+              style={LIB_BTN_STYLE}
+              title={`Copy all saved layouts to the clipboard as ${EXPORT_FORMATS[exportFormat].label}`}
+            >
+              Copy Library
+            </button>
+
+            {/* Format used by both exports; imports detect it from the file */}
+            <select
+              value={exportFormat}
+              onChange={(e) => onExportFormatChange(e.target.value as ExportFormat)}
+              aria-label="Export format"
+              title="Export format"
+              style={{ ...LIB_BTN_STYLE, cursor: 'pointer' }}
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+                <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+              ))}
+            </select>
+
+            {/* Full backup: page, layouts and settings */}
+            <button
+              onClick={onDownloadBackup}
+              style={LIB_BTN_STYLE}
+              title="Download the page, every saved layout and your settings as one file"
+            >
+              Download Backup
+            </button>
+            <button onClick={onOpenBackups} style={LIB_BTN_STYLE} title="Automatic backups and restore">
+              Backups…
+            </button>
+          </div>
+
+          {/* Right: Close (purple) */}
+          <button
+            onClick={onClose}
+            style={{
+              background: ACCENT,
+              color: ON_ACCENT,
+              padding: '6px 10px',
+              borderRadius: 8,
+              fontSize: BUTTON_FONT_SIZE
+            }}
+          >
+            Close
+          </button>
+        </div>
+
+        {layouts.length > 0 && (
+          <div style={{ display: 'flex', gap: 8, marginBottom: 8, boxSizing: 'border-box', maxWidth: '100%' }}>
+            <input
+              value={filter}
+              onChange={(e) => onFilterChange(e.target.value)}
+              placeholder="Filter layouts by title or prompt…"
+              aria-label="Filter layouts"
+              style={{
+                flex: '1 1 auto',
+                minWidth: 0,
+                background: SURFACE,
+                color: TEXT,
+                border: `1px solid ${BORDER}`,
+                borderRadius: 8,
+                padding: '8px 10px',
+                boxSizing: 'border-box'
+              }}
+            />
+            <select
+              value={sort}
+              onChange={(e) => onSortChange(e.target.value as LayoutSort)}
+              aria-label="Sort layouts"
+              title="Sort layouts"
+              style={{ ...LIB_BTN_STYLE, cursor: 'pointer', flex: '0 0 auto' }}
+            >
+              {(Object.keys(LAYOUT_SORTS) as LayoutSort[]).map(k => (
+                <option key={k} value={k}>{LAYOUT_SORTS[k]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {layouts.length === 0 && <div style={{ opacity: .7 }}>(Library is empty)</div>}
+        {layouts.length > 0 && visibleLayouts.length === 0 && <div style={{ opacity: .7 }}>(No layouts match)</div>}
+
+        <div style={{ display: 'grid', gap: 8 }}>
+          {visibleLayouts.map(l => (
+            <div
+              key={l.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                padding: '10px 12px',               // inset so buttons don't touch the rounded edge
+                borderBottom: `1px solid ${BORDER}`,
+                borderRadius: 8,                    // optional: softens row corners visually
+                boxSizing: 'border-box',
+                width: '100%',
+                gap: 8,
+                overflow: 'hidden'                  // prevents accidental horizontal overflow within row
+              }}
+            >
+              {/* Left block: title + timestamp (flexible, shrinks as needed) */}
+              <div style={{ flex: '1 1 auto', minWidth: 0 }}>
+                <div
+                  style={{
+                    fontWeight: 600,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap'
+                  }}
+                  title={l.title}
+                >
+                  {l.title}
+                </div>
+                <div style={{ opacity: .6, fontSize: 12 }}>
+                  Saved: {new Date(l.savedAt).toLocaleString()} · {l.cards.length} prompt{l.cards.length === 1 ? '' : 's'}
+                  {l.title === openTitle && (openDirty ? ' · open, unsaved changes' : ' · open')}
+                </div>
+              </div>
+
+              {/* Right block: buttons (wrap under the title on narrow screens) */}
+              <div style={{ display: 'flex', gap: 8, flex: '0 1 auto', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                <button
+                  onClick={() => onOpen(l.id)}
+                  style={{ background: ACCENT, color: ON_ACCENT, padding: '6px 10px', borderRadius: 8 }}
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => onRename(l.id)}
+                  style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => onDuplicate(l.id)}
+                  style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}
+                >
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => onDelete(l.id)}
+                  style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
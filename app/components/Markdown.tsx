@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { renderMarkdown } from '../lib/markdown';
+import { highlightCode } from '../lib/syntax';
+
+// Prompt text rendered as Markdown with highlighted code (styles under
+// .markdown in globals.css). The renderer escapes everything it doesn't
+// produce itself, so the HTML is safe to insert.
+export function Markdown({ text, style }: { text: string; style?: React.CSSProperties }) {
+  const html = useMemo(() => renderMarkdown(text, { highlight: highlightCode }), [text]);
+  return (
+    <div
+      className="markdown"
+      style={style}
+      // Links open in a new tab instead of copying the card they are on
+      onClick={(e) => {
+        const link = (e.target as HTMLElement).closest('a');
+        if (!link) return;
+        e.preventDefault();
+        e.stopPropagation();
+        window.open(link.href, '_blank', 'noopener,noreferrer');
+      }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,78 @@
+import { useRef, useState } from 'react';
+import { includeDirective, type IncludeOption } from '../lib/includes';
+import { Markdown } from './Markdown';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, TEXT } from './theme';
+
+// Prompt text box with a Raw / Preview switch, so Markdown can be checked
+// before saving. `style` is shared by the text box and the preview. With
+// `includeOptions` it also offers to include another card at the cursor;
+// `resolveText` expands includes for the preview.
+export function MarkdownField({ value, onChange, placeholder, rows, style, includeOptions, resolveText }: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  rows: number;
+  style: React.CSSProperties;
+  includeOptions?: IncludeOption[];
+  resolveText?: (text: string) => string;
+}) {
+  const [preview, setPreview] = useState(false);
+  const areaRef = useRef<HTMLTextAreaElement>(null);
+  const shown = resolveText ? resolveText(value) : value;
+
+  function insertInclude(id: string) {
+    const el = areaRef.current;
+    const at = el && !preview ? el.selectionStart : value.length;
+    onChange(value.slice(0, at) + includeDirective(id) + value.slice(at));
+  }
+
+  const tab = (on: boolean): React.CSSProperties => ({
+    background: on ? ACCENT : PANEL,
+    color: on ? ON_ACCENT : TEXT,
+    border: `1px solid ${BORDER}`,
+    borderRadius: 6,
+    padding: '2px 8px',
+    fontSize: 12
+  });
+
+  return (
+    <div style={{ display: 'grid', gap: 6, minWidth: 0 }}>
+      <div role="group" aria-label="Text view" style={{ display: 'flex', gap: 4 }}>
+        <button type="button" aria-pressed={!preview} onClick={() => setPreview(false)} style={tab(!preview)}>
+          Raw
+        </button>
+        <button type="button" aria-pressed={preview} onClick={() => setPreview(true)} style={tab(preview)}>
+          Preview
+        </button>
+        {!!includeOptions?.length && (
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value) insertInclude(e.target.value);
+            }}
+            aria-label="Include another prompt"
+            title="Insert {{> id}}, which copies as that prompt's current text"
+            style={{ ...tab(false), marginLeft: 'auto', maxWidth: '50%' }}
+          >
+            <option value="">Include a prompt…</option>
+            {includeOptions.map(o => <option key={o.id} value={o.id}>{o.title}</option>)}
+          </select>
+        )}
+      </div>
+      {preview ? (
+        shown.trim()
+          ? <Markdown text={shown} style={{ ...style, minHeight: `${rows * 1.4}em`, overflow: 'auto' }} />
+          : <div style={{ ...style, minHeight: `${rows * 1.4}em`, opacity: .6 }}>Nothing to preview</div>
+      ) : (
+        <textarea
+          ref={areaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          style={{ ...style, resize: 'vertical' }}
+        />
+      )}
+    </div>
+  );
+}
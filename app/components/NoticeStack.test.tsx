@@ -0,0 +1,54 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useNotices } from '../hooks/useNotices';
+import { NoticeStack } from './NoticeStack';
+
+function Harness() {
+  const { notices, dismissNotice, notify, liveRef, alertRef } = useNotices();
+  return (
+    <>
+      <button onClick={() => notify('Saved', { severity: 'success' })}>Save</button>
+      <button onClick={() => notify('Could not save', { severity: 'error' })}>Fail</button>
+      <button onClick={() => notify('Copied')}>Copy</button>
+      <NoticeStack notices={notices} onDismiss={dismissNotice} liveRef={liveRef} alertRef={alertRef} />
+    </>
+  );
+}
+
+function announce(button: string) {
+  fireEvent.click(screen.getByRole('button', { name: button }));
+  act(() => {
+    vi.advanceTimersByTime(50);
+  });
+}
+
+describe('NoticeStack live regions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads notices out politely and errors assertively', () => {
+    render(<Harness />);
+    announce('Save');
+    expect(screen.getByRole('status')).toHaveTextContent('Saved');
+    expect(screen.getByRole('alert')).toHaveTextContent('');
+
+    announce('Fail');
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not save');
+    expect(screen.getByRole('status')).toHaveTextContent('Saved');
+  });
+
+  it('clears the region first so a repeated message is read again', () => {
+    render(<Harness />);
+    announce('Copy');
+    fireEvent.click(screen.getByRole('button', { name: 'Copy' }));
+    expect(screen.getByRole('status')).toHaveTextContent('');
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('Copied');
+  });
+});
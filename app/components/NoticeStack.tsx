@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Notice, Severity } from '../lib/notices';
+import { ACCENT, BORDER, SR_ONLY, SURFACE, TEXT } from './theme';
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  info: BORDER,
+  success: 'rgba(34,197,94,.6)',
+  warning: 'rgba(234,179,8,.7)',
+  error: 'rgba(239,68,68,.8)'
+};
+
+// One notice of the stack; it stays while hovered or focused, so there's
+// time to reach its action
+function NoticeView({ notice, onDismiss }: { notice: Notice; onDismiss: (id: number) => void }) {
+  const [held, setHeld] = useState(false);
+  // Latest callback for the timer, which only restarts when held changes
+  const dismissRef = useRef(onDismiss);
+  useEffect(() => {
+    dismissRef.current = onDismiss;
+  });
+  useEffect(() => {
+    if (held || notice.ms <= 0) return;
+    const timer = setTimeout(() => dismissRef.current(notice.id), notice.ms);
+    return () => clearTimeout(timer);
+  }, [held, notice.id, notice.ms]);
+
+  return (
+    <div
+      onMouseEnter={() => setHeld(true)}
+      onMouseLeave={() => setHeld(false)}
+      onFocus={() => setHeld(true)}
+      onBlur={() => setHeld(false)}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        background: SURFACE,
+        color: TEXT,
+        border: `1px solid ${BORDER}`,
+        borderLeft: `4px solid ${SEVERITY_COLORS[notice.severity]}`,
+        borderRadius: 8,
+        padding: '10px 12px',
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        pointerEvents: 'auto'
+      }}
+    >
+      <div
+        style={{
+          minWidth: 0,
+          flex: '1 1 auto',
+          // Errors can be long (lists of problems) and are shown in full
+          ...(notice.severity === 'error'
+            ? { whiteSpace: 'pre-wrap', overflowWrap: 'anywhere', maxHeight: '40vh', overflowY: 'auto' }
+            : { overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' })
+        }}
+        title={notice.message}
+      >
+        {notice.message}
+      </div>
+      {notice.action && (
+        <button
+          onClick={() => {
+            onDismiss(notice.id);
+            notice.action?.run();
+          }}
+          style={{ background: 'transparent', color: ACCENT, border: 'none', padding: 0, fontWeight: 700, flex: '0 0 auto' }}
+        >
+          {notice.action.label}
+        </button>
+      )}
+      {(notice.action || notice.ms <= 0) && (
+        <button
+          onClick={() => onDismiss(notice.id)}
+          aria-label="Dismiss"
+          title="Dismiss"
+          style={{ background: 'transparent', color: TEXT, border: 'none', padding: 0, opacity: 0.7, flex: '0 0 auto' }}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+}
+
+// The notices, newest at the bottom, and the live regions that read them out
+// (see useNotices)
+export function NoticeStack({ notices, onDismiss, liveRef, alertRef }: {
+  notices: Notice[];
+  onDismiss: (id: number) => void;
+  liveRef: React.RefObject<HTMLDivElement | null>;
+  alertRef: React.RefObject<HTMLDivElement | null>;
+}) {
+  return (
+    <>
+      <div
+        style={{
+          position: 'fixed',
+          right: 12,
+          bottom: 12,
+          zIndex: 10004,
+          display: 'grid',
+          gap: 8,
+          width: 'min(420px, calc(100vw - 24px))',
+          pointerEvents: 'none' // only the notices themselves take clicks
+        }}
+      >
+        {notices.map(n => <NoticeView key={n.id} notice={n} onDismiss={onDismiss} />)}
+      </div>
+
+      <div ref={liveRef} role="status" aria-live="polite" aria-atomic="true" style={SR_ONLY} />
+      <div ref={alertRef} role="alert" aria-live="assertive" aria-atomic="true" style={SR_ONLY} />
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { axe } from 'vitest-axe';
+import { buildIndex } from '../lib/search';
+import type { Card, LayoutEntry } from '../lib/types';
+import { QuickOpen } from './QuickOpen';
+
+const cards: Card[] = [
+  { id: 'a', title: 'Summary', text: 'Summarize the text', createdAt: 1 },
+  { id: 'b', title: 'Support reply', text: 'Answer politely', createdAt: 2 }
+];
+const layouts: LayoutEntry[] = [
+  { id: 'L1', title: 'Daily', savedAt: 0, cards: [{ id: 'c', title: 'Standup', text: 'Yesterday, today', createdAt: 3 }] }
+];
+const docs = buildIndex(cards, layouts);
+
+function setup() {
+  const onActivate = vi.fn();
+  const onClose = vi.fn();
+  const user = userEvent.setup();
+  const view = render(<QuickOpen docs={docs} onActivate={onActivate} onClose={onClose} />);
+  return { user, onActivate, onClose, view, input: screen.getByRole('combobox', { name: 'Search prompts and layouts' }) };
+}
+
+describe('QuickOpen', () => {
+  it('has no axe violations', async () => {
+    const { view, user, input } = setup();
+    await user.type(input, 's');
+    expect(await axe(view.container)).toHaveNoViolations();
+  });
+
+  it('is a combobox controlling a listbox of options', async () => {
+    const { user, input } = setup();
+    expect(input).toHaveFocus();
+    await user.type(input, 'su');
+    const listbox = screen.getByRole('listbox', { name: 'Results' });
+    expect(input).toHaveAttribute('aria-controls', listbox.id);
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    const options = screen.getAllByRole('option');
+    expect(options.length).toBeGreaterThan(1);
+    expect(options[0]).toHaveAttribute('aria-selected', 'true');
+    expect(input).toHaveAttribute('aria-activedescendant', options[0].id);
+  });
+
+  it('moves the active option with the arrow keys', async () => {
+    const { user, input } = setup();
+    await user.type(input, 'su');
+    const options = screen.getAllByRole('option');
+    await user.keyboard('{ArrowDown}');
+    expect(input).toHaveAttribute('aria-activedescendant', options[1].id);
+    expect(options[1]).toHaveAttribute('aria-selected', 'true');
+    expect(options[0]).toHaveAttribute('aria-selected', 'false');
+    await user.keyboard('{ArrowUp}{ArrowUp}');
+    expect(input).toHaveAttribute('aria-activedescendant', options[0].id);
+  });
+
+  it('activates the active option with Enter, Shift+Enter opening its layout', async () => {
+    const { user, input, onActivate } = setup();
+    await user.type(input, 'standup');
+    await user.keyboard('{Enter}');
+    await user.keyboard('{Shift>}{Enter}{/Shift}');
+    expect(onActivate.mock.calls.map(([hit, open]) => [hit.doc.card.title, open])).toEqual([['Standup', false], ['Standup', true]]);
+  });
+
+  it('activates an option on click', async () => {
+    const { user, input, onActivate } = setup();
+    await user.type(input, 'reply');
+    await user.click(screen.getByRole('option', { name: /Support reply/ }));
+    expect(onActivate).toHaveBeenCalledWith(expect.objectContaining({ doc: expect.objectContaining({ key: expect.any(String) }) }), false);
+  });
+
+  it('collapses when nothing matches and closes with Escape', async () => {
+    const { user, input, onClose } = setup();
+    await user.type(input, 'zzzz');
+    expect(screen.getByText('(No matches)')).toBeInTheDocument();
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+    expect(input).not.toHaveAttribute('aria-activedescendant');
+    await user.keyboard('{Escape}');
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { search, type SearchDoc, type SearchHit } from '../lib/search';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { Highlight } from './Highlight';
+import { ACCENT, BORDER, PANEL, SURFACE, TEXT } from './theme';
+
+const optionId = (i: number) => `palette-option-${i}`;
+
+// Quick-open palette (Ctrl/Cmd+K): fuzzy search over the page and every
+// saved layout. Enter copies the highlighted prompt, Shift+Enter opens the
+// layout it is in. Mounted only while open, so each opening starts empty.
+export function QuickOpen({ docs, onActivate, onClose }: {
+  docs: SearchDoc[];
+  onActivate: (hit: SearchHit, openContaining: boolean) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0); // highlighted row
+  const hits = useMemo(() => search(docs, query), [docs, query]);
+  const dialogRef = useFocusTrap(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the highlighted row in view while arrowing through results
+  useEffect(() => {
+    const row = listRef.current?.children[active] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  function onKey(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(i => Math.min(i + 1, Math.max(hits.length - 1, 0)));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const hit = hits[active];
+      if (hit) onActivate(hit, e.shiftKey);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  }
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'start center', paddingTop: '12vh', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search prompts and layouts"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(640px, 92vw)',
+          maxHeight: '70vh',
+          display: 'grid',
+          gridTemplateRows: 'auto 1fr auto',
+          overflow: 'hidden',
+          boxSizing: 'border-box'
+        }}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={onKey}
+          placeholder="Search prompts in page and library…"
+          role="combobox"
+          aria-label="Search prompts and layouts"
+          aria-autocomplete="list"
+          aria-expanded={hits.length > 0}
+          aria-controls="palette-results"
+          aria-activedescendant={hits[active] ? optionId(active) : undefined}
+          style={{
+            width: '100%',
+            background: SURFACE,
+            color: TEXT,
+            border: 'none',
+            borderBottom: `1px solid ${BORDER}`,
+            padding: '12px 14px',
+            fontSize: 16,
+            boxSizing: 'border-box',
+            outline: 'none'
+          }}
+        />
+
+        <div style={{ overflowY: 'auto', overflowX: 'hidden' }}>
+          {hits.length === 0 && (
+            <div style={{ opacity: .7, padding: '12px 14px' }}>(No matches)</div>
+          )}
+          {/* Focus stays in the search box; the highlighted row is its active descendant */}
+          <div ref={listRef} id="palette-results" role="listbox" aria-label="Results">
+            {hits.map((hit, i) => (
+              <div
+                key={hit.doc.key}
+                id={optionId(i)}
+                role="option"
+                aria-selected={i === active}
+                onMouseEnter={() => setActive(i)}
+                onClick={(e) => onActivate(hit, e.shiftKey)}
+                style={{
+                  padding: '8px 14px',
+                  cursor: 'pointer',
+                  background: i === active ? SURFACE : 'transparent',
+                  borderLeft: `3px solid ${i === active ? ACCENT : 'transparent'}`,
+                  boxSizing: 'border-box',
+                  minWidth: 0
+                }}
+              >
+                <div style={{ display: 'flex', gap: 8, alignItems: 'baseline', minWidth: 0 }}>
+                  <div style={{ fontWeight: 600, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', flex: '1 1 auto', minWidth: 0 }}>
+                    <Highlight text={hit.doc.card.title || 'Untitled'} hits={hit.titleHits} />
+                  </div>
+                  <div style={{ opacity: .6, fontSize: 12, flex: '0 0 auto', maxWidth: '40%', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {hit.doc.layoutTitle ? `📚 ${hit.doc.layoutTitle}` : 'Current page'}
+                  </div>
+                </div>
+                {hit.snippet && (
+                  <div style={{ opacity: .75, fontSize: 12, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    <Highlight text={hit.snippet} hits={hit.snippetHits} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ opacity: .6, fontSize: 12, padding: '6px 14px', borderTop: `1px solid ${BORDER}` }}>
+          ↑↓ navigate · Enter copy · Shift+Enter open layout · Esc close
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import type { RestorePreview } from '../lib/backup';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, TEXT } from './theme';
+
+// What a restore would change, before anything is replaced
+export function RestoreDialog({ source, preview, problems, onConfirm, onCancel }: {
+  source: string; // e.g. a file name or "the backup from …"
+  preview: RestorePreview;
+  problems: string[]; // entries left out because they are invalid
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  const section = (label: string, change: RestorePreview['cards'] | RestorePreview['layouts']) => {
+    const parts = [
+      ...change.added.map(x => ({ sign: '+', title: x.title, color: 'rgba(34,197,94,.25)' })),
+      ...change.removed.map(x => ({ sign: '−', title: x.title, color: 'rgba(239,68,68,.25)' })),
+      ...change.changed.map(x => ({ sign: '~', title: x.title, color: 'rgba(234,179,8,.25)' }))
+    ];
+    return (
+      <div style={{ display: 'grid', gap: 4 }}>
+        <div style={{ fontWeight: 600, fontSize: 13 }}>
+          {label}: {change.added.length} added, {change.removed.length} removed, {change.changed.length} changed
+        </div>
+        {parts.length > 0 && (
+          <div style={{ maxHeight: 160, overflow: 'auto', display: 'grid', gap: 2, fontSize: 13 }}>
+            {parts.map((p, i) => (
+              <div key={i} style={{ background: p.color, borderRadius: 4, padding: '1px 6px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {p.sign} {p.title || 'Untitled'}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  return (
+    <div
+      onClick={onCancel}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10002,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Restore preview"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(640px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ fontWeight: 700, fontSize: 16, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          Restore {source}?
+        </div>
+        {preview.unchanged ? (
+          <div style={{ fontSize: 13, opacity: .8 }}>This backup matches what you have now; nothing would change.</div>
+        ) : (
+          <>
+            {section('Prompts on the page', preview.cards)}
+            {section('Saved layouts', preview.layouts)}
+            {preview.settings.length > 0 && (
+              <div style={{ fontSize: 13 }}>Also replaces: {preview.settings.join(', ')}.</div>
+            )}
+            <div style={{ fontSize: 12, opacity: .7 }}>
+              A backup of the current state is kept in this browser before restoring.
+            </div>
+          </>
+        )}
+        {problems.length > 0 && (
+          <div style={{ fontSize: 13, border: '1px solid rgba(234,179,8,.6)', borderRadius: 8, padding: 8, maxHeight: 120, overflow: 'auto' }}>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>⚠️ Entries left out because they are invalid:</div>
+            {problems.map((p, i) => <div key={i} style={{ fontFamily: 'monospace', fontSize: 12 }}>{p}</div>)}
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button onClick={onCancel} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={preview.unchanged}
+            style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8, opacity: preview.unchanged ? .5 : 1 }}
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { Fragment } from 'react';
+import {
+  FIXED_SHORTCUTS, SHORTCUTS, bindingOf, describeCombo,
+  type KeyBindings, type ShortcutAction
+} from '../lib/shortcuts';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Keyboard shortcuts help; clicking a key waits for the new one, which
+// the page reads through onRebindKey
+export function ShortcutsModal({ bindings, rebinding, onRebindingChange, onRebindKey, onReset, onClose }: {
+  bindings: KeyBindings;
+  rebinding: ShortcutAction | null; // waiting for a key
+  onRebindingChange: (action: ShortcutAction | null) => void;
+  onRebindKey: (e: React.KeyboardEvent) => void;
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={onRebindKey}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(620px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ fontWeight: 700, fontSize: 16 }}>Keyboard shortcuts</div>
+        <div style={{ fontSize: 13, opacity: .8 }}>
+          Shortcuts work when you are not typing in a field. Click a key to change it.
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '6px 12px', alignItems: 'center', fontSize: 14 }}>
+          {(Object.keys(SHORTCUTS) as ShortcutAction[]).map(a => {
+            const combo = bindingOf(bindings, a);
+            const waiting = rebinding === a;
+            return (
+              <Fragment key={a}>
+                <span>{SHORTCUTS[a].label}</span>
+                <button
+                  onClick={() => onRebindingChange(waiting ? null : a)}
+                  title={waiting ? 'Press the new key (Escape cancels)' : 'Change key'}
+                  style={{
+                    background: waiting ? ACCENT : SURFACE,
+                    color: waiting ? ON_ACCENT : TEXT,
+                    border: `1px solid ${BORDER}`,
+                    borderRadius: 6,
+                    padding: '2px 8px',
+                    fontFamily: 'monospace',
+                    minWidth: 90
+                  }}
+                >
+                  {waiting ? 'Press a key…' : describeCombo(combo)}
+                </button>
+              </Fragment>
+            );
+          })}
+          {FIXED_SHORTCUTS.map(f => (
+            <Fragment key={f.keys}>
+              <span style={{ opacity: .8 }}>{f.label}</span>
+              <span style={{ fontFamily: 'monospace', padding: '2px 8px', opacity: .8, textAlign: 'center' }}>{describeCombo(f.keys)}</span>
+            </Fragment>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button
+            onClick={onReset}
+            disabled={Object.keys(bindings).length === 0}
+            style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}
+          >
+            Reset to defaults
+          </button>
+          <button onClick={onClose} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
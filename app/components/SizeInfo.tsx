@@ -0,0 +1,37 @@
+import { useMemo } from 'react';
+import { activeLimit, checkLimit, countText, formatTokens, type LimitLevel, type TokenSettings } from '../lib/tokens';
+import { DANGER, WARNING } from './theme';
+
+const LEVEL_COLORS: Record<LimitLevel, string> = { ok: 'inherit', near: WARNING, over: DANGER };
+
+// Character, word and token counts for a text, with a warning once it gets
+// near or over the context window of the chosen model. The tooltip shows
+// the fit for every configured model.
+export function SizeInfo({ text, settings, style }: {
+  text: string;
+  settings: TokenSettings;
+  style?: React.CSSProperties;
+}) {
+  const stats = useMemo(() => countText(text, settings.tokenizer), [text, settings.tokenizer]);
+  const limit = activeLimit(stats.tokens, settings);
+  const fits = settings.models
+    .map(m => checkLimit(stats.tokens, m, settings.warnPercent))
+    .map(c => `${c.model.name} (${formatTokens(c.model.contextTokens)}): ${c.percent < 1 ? '<1' : Math.round(c.percent)}%`);
+  const warn = limit && limit.level !== 'ok' ? limit : null;
+
+  return (
+    <span
+      title={[`${stats.tokens.toLocaleString()} tokens (estimated)`, ...fits].join('\n')}
+      style={{ fontSize: 12, whiteSpace: 'nowrap', display: 'inline-flex', gap: 6, alignItems: 'center', ...style }}
+    >
+      <span style={{ opacity: .6 }}>
+        {stats.chars.toLocaleString()} chars · {stats.words.toLocaleString()} words · ~{stats.tokens.toLocaleString()} tokens
+      </span>
+      {warn && (
+        <span style={{ color: LEVEL_COLORS[warn.level], fontWeight: 600 }}>
+          {warn.level === 'over' ? '⛔ Over' : '⚠️'} {Math.round(warn.percent)}% of {warn.model.name}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { layoutUsage, timeAgo, type UsageState } from '../lib/usage';
+import type { Card } from '../lib/types';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+// Copy statistics: copies per layout over a period, and the most used
+// prompts on the page
+export function StatsModal({ cards, usage, now, onReset, onClose }: {
+  cards: Card[];
+  usage: UsageState;
+  now: number; // reference time for the period and "x ago" labels
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const [days, setDays] = useState(30);
+  const dialogRef = useFocusTrap(true);
+
+  const perLayout = layoutUsage(usage, days, now);
+  const peak = Math.max(1, ...perLayout.flatMap(l => l.perDay));
+  const top = cards
+    .filter(c => usage.cards[c.id])
+    .sort((a, b) => usage.cards[b.id].count - usage.cards[a.id].count)
+    .slice(0, 10);
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Copy statistics"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(720px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 10
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Copy statistics</div>
+          <select
+            value={days}
+            aria-label="Period"
+            onChange={(e) => setDays(Number(e.target.value))}
+            style={{ marginLeft: 'auto', background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '4px 6px' }}
+          >
+            {[7, 30, 90].map(d => <option key={d} value={d}>Last {d} days</option>)}
+          </select>
+        </div>
+        <div style={{ fontSize: 13, opacity: .8 }}>
+          Counted in this browser only; nothing is sent anywhere.
+        </div>
+
+        <div style={{ fontWeight: 600 }}>Copies per layout</div>
+        {perLayout.length === 0 ? (
+          <div style={{ opacity: .7, fontSize: 13 }}>No copies in this period.</div>
+        ) : perLayout.map(l => (
+          <div key={l.layout} style={{ display: 'grid', gap: 4, background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 8, padding: 8 }}>
+            <div style={{ display: 'flex', gap: 8, fontSize: 14 }}>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {l.layout || <i>Unsaved page</i>}
+              </span>
+              <span style={{ opacity: .8 }}>{l.total} cop{l.total === 1 ? 'y' : 'ies'}</span>
+            </div>
+            {/* One bar per day, oldest on the left */}
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 1, height: 32 }} aria-hidden>
+              {l.perDay.map((n, i) => (
+                <div
+                  key={i}
+                  title={`${n} on ${new Date(now - (l.perDay.length - 1 - i) * 86400000).toLocaleDateString()}`}
+                  style={{ flex: 1, height: `${Math.max(n ? 8 : 2, (n / peak) * 100)}%`, background: n ? ACCENT : BORDER, borderRadius: 1 }}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div style={{ fontWeight: 600 }}>Most used on this page</div>
+        {top.length === 0 ? (
+          <div style={{ opacity: .7, fontSize: 13 }}>None of these prompts has been copied yet.</div>
+        ) : (
+          <div style={{ display: 'grid', gap: 4, fontSize: 14 }}>
+            {top.map(c => (
+              <div key={c.id} style={{ display: 'flex', gap: 8 }}>
+                <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{c.title || 'Untitled'}</span>
+                <span style={{ opacity: .8, whiteSpace: 'nowrap' }}>
+                  {usage.cards[c.id].count}× · {timeAgo(usage.cards[c.id].lastAt, now)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+          <button onClick={onReset} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Reset statistics
+          </button>
+          <button onClick={onClose} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
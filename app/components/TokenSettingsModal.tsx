@@ -0,0 +1,164 @@
+import { DEFAULT_TOKEN_SETTINGS, formatTokens, listTokenizers, type ModelLimit, type TokenSettings } from '../lib/tokens';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACCENT, BORDER, BUTTON_FONT_SIZE, ON_ACCENT, PANEL, SURFACE, TEXT } from './theme';
+
+const FIELD: React.CSSProperties = {
+  background: SURFACE,
+  color: TEXT,
+  border: `1px solid ${BORDER}`,
+  borderRadius: 6,
+  padding: '4px 6px',
+  boxSizing: 'border-box',
+  minWidth: 0
+};
+
+// Token counting settings: which tokenizer estimates sizes, the models
+// (with their context windows) prompts are checked against, and when to warn
+export function TokenSettingsModal({ settings, onChange, onClose }: {
+  settings: TokenSettings;
+  onChange: (settings: TokenSettings) => void;
+  onClose: () => void;
+}) {
+  const dialogRef = useFocusTrap(true);
+
+  function updateModel(id: string, patch: Partial<ModelLimit>) {
+    onChange({ ...settings, models: settings.models.map(m => (m.id === id ? { ...m, ...patch } : m)) });
+  }
+
+  function removeModel(id: string) {
+    const models = settings.models.filter(m => m.id !== id);
+    onChange({ ...settings, models, model: settings.model === id ? (models[0]?.id ?? '') : settings.model });
+  }
+
+  function addModel() {
+    const model: ModelLimit = { id: 'm' + Date.now(), name: 'New model', contextTokens: 32000 };
+    onChange({ ...settings, models: [...settings.models, model], model: settings.models.length ? settings.model : model.id });
+  }
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
+        display: 'grid', placeItems: 'center', zIndex: 10000,
+        boxSizing: 'border-box',
+        maxWidth: '100%',
+        overflow: 'hidden'
+      }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tokens-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: PANEL,
+          border: `1px solid ${BORDER}`,
+          borderRadius: 12,
+          width: 'min(560px, 94vw)',
+          maxHeight: '85vh',
+          overflow: 'auto',
+          overflowX: 'hidden',
+          padding: 16,
+          boxSizing: 'border-box',
+          display: 'grid',
+          gap: 12,
+          fontSize: 14
+        }}
+      >
+        <div id="tokens-title" style={{ fontWeight: 700, fontSize: 16 }}>Prompt size and model limits</div>
+        <div style={{ fontSize: 13, opacity: .8 }}>
+          Token counts are estimated in this browser; nothing is sent anywhere. Exact counts differ a little from model to model.
+        </div>
+
+        <label style={{ display: 'grid', gap: 4 }}>
+          <span style={{ fontSize: 13, opacity: .8 }}>Count tokens by</span>
+          <select value={settings.tokenizer} onChange={(e) => onChange({ ...settings, tokenizer: e.target.value })} style={FIELD}>
+            {listTokenizers().map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+        </label>
+
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+          <label style={{ display: 'grid', gap: 4, flex: '1 1 200px' }}>
+            <span style={{ fontSize: 13, opacity: .8 }}>Check prompts against</span>
+            <select
+              value={settings.model}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              disabled={settings.models.length === 0}
+              style={FIELD}
+            >
+              {settings.models.map(m => <option key={m.id} value={m.id}>{m.name} ({formatTokens(m.contextTokens)})</option>)}
+            </select>
+          </label>
+          <label style={{ display: 'grid', gap: 4 }}>
+            <span style={{ fontSize: 13, opacity: .8 }}>Warn from (% of the window)</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={settings.warnPercent}
+              onChange={(e) => {
+                const n = Math.round(Number(e.target.value));
+                if (n >= 1 && n <= 100) onChange({ ...settings, warnPercent: n });
+              }}
+              style={{ ...FIELD, width: 80 }}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: 'grid', gap: 6 }}>
+          <div style={{ fontSize: 13, opacity: .8 }}>Models and context windows (tokens)</div>
+          {settings.models.map(m => (
+            <div key={m.id} style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+              <input
+                value={m.name}
+                onChange={(e) => updateModel(m.id, { name: e.target.value })}
+                aria-label="Model name"
+                style={{ ...FIELD, flex: '1 1 auto' }}
+              />
+              <input
+                type="number"
+                min={1}
+                value={m.contextTokens}
+                onChange={(e) => {
+                  const n = Math.round(Number(e.target.value));
+                  if (n > 0) updateModel(m.id, { contextTokens: n });
+                }}
+                aria-label={`Context window of ${m.name}`}
+                style={{ ...FIELD, width: 110 }}
+              />
+              <button
+                onClick={() => removeModel(m.id)}
+                aria-label={`Remove ${m.name}`}
+                title="Remove"
+                style={{ background: PANEL, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 6, padding: '2px 8px' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {settings.models.length === 0 && <div style={{ opacity: .6 }}>No models; sizes are shown without warnings.</div>}
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'space-between', flexWrap: 'wrap' }}>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button onClick={addModel} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}`, fontSize: BUTTON_FONT_SIZE }}>
+              ➕ Add model
+            </button>
+            <button
+              onClick={() => onChange(DEFAULT_TOKEN_SETTINGS)}
+              style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}`, fontSize: BUTTON_FONT_SIZE }}
+            >
+              Reset to defaults
+            </button>
+          </div>
+          <button onClick={onClose} style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { axe } from 'vitest-axe';
+import { DEFAULT_BACKUP_SETTINGS, type BackupRecord } from '../lib/backup';
+import { EMPTY_DRAFT } from '../lib/cards';
+import { planCards } from '../lib/importer';
+import { DEFAULT_THEME, PRESETS } from '../lib/theme';
+import { DEFAULT_TOKEN_SETTINGS } from '../lib/tokens';
+import type { Card, LayoutEntry } from '../lib/types';
+import { EMPTY_USAGE } from '../lib/usage';
+import { AppearanceModal } from './AppearanceModal';
+import { AskDialog } from './AskDialog';
+import { BackupsModal } from './BackupsModal';
+import { CardList } from './CardList';
+import { ConflictDialog } from './ConflictDialog';
+import { FillDialog } from './FillDialog';
+import { HistoryModal } from './HistoryModal';
+import { ImportWizard } from './ImportWizard';
+import { LibraryModal } from './LibraryModal';
+import { RestoreDialog } from './RestoreDialog';
+import { ShortcutsModal } from './ShortcutsModal';
+import { StatsModal } from './StatsModal';
+import { TokenSettingsModal } from './TokenSettingsModal';
+
+// Whole-component axe checks; behaviour is covered next to each component
+
+const cards: Card[] = [
+  { id: 'a', title: 'Preamble', text: 'Be brief.', createdAt: 1, tags: ['work'] },
+  { id: 'b', title: 'Greeting', text: 'Hello {{name}}, {{tone|warm|formal}}', createdAt: 2 }
+];
+const layouts: LayoutEntry[] = [{ id: 'L1', title: 'Daily', savedAt: 0, cards }];
+const backup: BackupRecord = { id: 'k1', createdAt: 0, auto: true, fingerprint: 'f', counts: { cards: 2, layouts: 1 }, doc: '{}' };
+const usage = { cards: { a: { count: 3, lastAt: 0 } }, days: { '1970-01-01': { Daily: 3 } } };
+const noop = () => {};
+
+const dialogs: Record<string, () => React.ReactElement> = {
+  'AskDialog (confirm)': () => <AskDialog request={{ kind: 'confirm', title: 'Delete card?', confirmLabel: 'Delete', danger: true, resolve: noop }} onAnswer={noop} />,
+  'AskDialog (text)': () => <AskDialog request={{ kind: 'text', title: 'Rename', label: 'Name', value: 'Daily', confirmLabel: 'Rename', resolve: noop }} onAnswer={noop} />,
+  'LibraryModal': () => (
+    <LibraryModal
+      layouts={layouts}
+      visibleLayouts={layouts}
+      filter=""
+      onFilterChange={noop}
+      sort="saved"
+      onSortChange={noop}
+      openTitle="Daily"
+      openDirty
+      exportFormat="json"
+      onExportFormatChange={noop}
+      onClose={noop}
+      onOpen={noop}
+      onRename={noop}
+      onDuplicate={noop}
+      onDelete={noop}
+      onImportCards={noop}
+      onImportLibrary={noop}
+      onImportSources={noop}
+      onExportCards={noop}
+      onExportLibrary={noop}
+      onCopyLibrary={noop}
+      onDownloadBackup={noop}
+      onOpenBackups={noop}
+    />
+  ),
+  'AppearanceModal': () => (
+    <AppearanceModal
+      theme={{ ...DEFAULT_THEME, mode: 'custom' }}
+      palette={PRESETS.dark}
+      onThemeChange={noop}
+      previewLines={3}
+      onPreviewLinesChange={noop}
+      keepExpanded={false}
+      onKeepExpandedChange={noop}
+      onClose={noop}
+    />
+  ),
+  'TokenSettingsModal': () => <TokenSettingsModal settings={DEFAULT_TOKEN_SETTINGS} onChange={noop} onClose={noop} />,
+  'HistoryModal': () => (
+    <HistoryModal
+      card={cards[0]}
+      entries={[{ at: 0, author: 'sam', title: 'Preamble', text: 'Be short.' }, { at: 1, author: '', title: 'Preamble', text: 'Be brief.' }]}
+      diffFrom={0}
+      diffTo={1}
+      onDiffFromChange={noop}
+      onDiffToChange={noop}
+      author="sam"
+      onAuthorChange={noop}
+      onRestore={noop}
+      onClose={noop}
+    />
+  ),
+  'ConflictDialog': () => <ConflictDialog conflict={{ local: cards[0], remote: { ...cards[0], text: 'Be terse.' }, source: 'sync' }} count={2} onResolve={noop} />,
+  'BackupsModal': () => (
+    <BackupsModal
+      settings={DEFAULT_BACKUP_SETTINGS}
+      onSettingsChange={noop}
+      backups={[backup]}
+      onBackupNow={noop}
+      onRestoreFile={noop}
+      onRestore={noop}
+      onDownload={noop}
+      onDelete={noop}
+      onClose={noop}
+    />
+  ),
+  'RestoreDialog': () => (
+    <RestoreDialog
+      source="backup.json"
+      preview={{ cards: { added: [cards[0]], removed: [], changed: [cards[1]] }, layouts: { added: [], removed: layouts, changed: [] }, settings: ['theme'], unchanged: false }}
+      problems={['Card 3 has no text']}
+      onConfirm={noop}
+      onCancel={noop}
+    />
+  ),
+  'ImportWizard': () => (
+    <ImportWizard
+      plan={planCards(cards, [cards[0], { ...cards[1], text: 'Hi' }, { id: 'c', title: 'New', text: 'x', createdAt: 3 }], {})}
+      name="cards.json"
+      problems={[]}
+      target="layout"
+      onTargetChange={noop}
+      layoutName="Imported"
+      onLayoutNameChange={noop}
+      onAction={noop}
+      onConfirm={noop}
+      onCancel={noop}
+    />
+  ),
+  'StatsModal': () => <StatsModal cards={cards} usage={usage} now={0} onReset={noop} onClose={noop} />,
+  'ShortcutsModal': () => <ShortcutsModal bindings={{}} rebinding="copy" onRebindingChange={noop} onRebindKey={noop} onReset={noop} onClose={noop} />,
+  'FillDialog': () => (
+    <FillDialog
+      card={cards[1]}
+      vars={[{ name: 'name', defaultValue: '', choices: [] }, { name: 'tone', defaultValue: 'warm', choices: ['warm', 'formal'] }]}
+      values={{ name: 'Ana', tone: 'warm' }}
+      onValuesChange={noop}
+      mode="plain"
+      onSubmit={noop}
+      onCancel={noop}
+    />
+  )
+};
+
+describe('dialogs', () => {
+  // jsdom has no layout; without this the focus trap finds nothing to focus
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getClientRects').mockReturnValue({ length: 1 } as DOMRectList);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  for (const [name, dialog] of Object.entries(dialogs)) {
+    it(`${name} is a labelled modal that takes focus, with no axe violations`, async () => {
+      const { container } = render(dialog());
+      const panel = screen.queryByRole('dialog') ?? screen.getByRole('alertdialog');
+      expect(panel).toHaveAttribute('aria-modal', 'true');
+      expect(panel).toHaveAccessibleName();
+      expect(panel).toContainElement(document.activeElement as HTMLElement);
+      expect(await axe(container)).toHaveNoViolations();
+    });
+  }
+});
+
+describe('card feed', () => {
+  it('has no axe violations, editing a card included', async () => {
+    const { container } = render(
+      <CardList
+        cards={cards}
+        totalCount={cards.length}
+        filter=""
+        loaded
+        usage={EMPTY_USAGE}
+        now={0}
+        history={{}}
+        tagColors={{ work: '#2563eb' }}
+        keyBindings={{}}
+        cardRefs={{ current: new Map() }}
+        onCopy={noop}
+        onEdit={noop}
+        onDelete={noop}
+        onHistory={noop}
+        onTagClick={noop}
+        selected={new Set(['a'])}
+        onToggleSelected={noop}
+        tokenSettings={DEFAULT_TOKEN_SETTINGS}
+        resolved={new Map()}
+        dependents={new Map()}
+        includeCards={new Map(cards.map(c => [c.id, c]))}
+        includeOptions={cards.map(c => ({ id: c.id, title: c.title }))}
+        previewLines={3}
+        expanded={new Set()}
+        onToggleExpanded={noop}
+        editingId="b"
+        editDraft={{ ...EMPTY_DRAFT, title: 'Greeting', text: 'Hello' }}
+        editStale={false}
+        onEditChange={noop}
+        onSaveEdit={noop}
+        onCancelEdit={noop}
+        manualOrder
+        dragId={null}
+        dropTarget={null}
+        onDragStart={noop}
+        onDragMove={noop}
+        onDragEnd={noop}
+        onHandleKey={noop}
+      />
+    );
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,86 @@
+// Colours and shared inline styles. The colours are CSS variables set in
+// globals.css and replaced by the chosen theme (lib/theme.ts), so
+// components stay in step with the page.
+
+export const BG = 'var(--bg)';
+export const PANEL = 'var(--panel)';
+export const SURFACE = 'var(--surface)';
+export const BORDER = 'var(--border)';
+export const TEXT = 'var(--text)';
+export const ACCENT = 'var(--accent)';
+export const ON_ACCENT = 'var(--on-accent)'; // text on ACCENT
+export const WARNING = 'var(--warning)'; // warning text on SURFACE or PANEL
+export const DANGER = 'var(--danger)'; // error text on SURFACE or PANEL
+
+// Shared font size for modal header buttons
+export const BUTTON_FONT_SIZE = 14;
+
+// Uniform style for the Library buttons (file pickers included)
+export const LIB_BTN_STYLE: React.CSSProperties = {
+  background: PANEL,
+  color: TEXT,
+  padding: '6px 10px',
+  borderRadius: 8,
+  border: `1px solid ${BORDER}`,
+  fontSize: BUTTON_FONT_SIZE,
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  lineHeight: 1.2,
+  boxSizing: 'border-box',
+  maxWidth: '100%',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap'
+};
+
+// Visually hidden but read by screen readers
+export const SR_ONLY: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+};
+
+// ----------- Styles for card previews -----------
+const LINE_HEIGHT = 1.4; // visual line-height multiplier
+
+// Collapsed preview: fixed height of `lines` lines (equal for all), rest
+// hidden. Markdown blocks can't be line-clamped, so the height does it;
+// `faded` fades out the last line when text is cut off.
+export function previewCollapsedStyle(lines: number, faded: boolean): React.CSSProperties {
+  return {
+    display: 'block',
+    overflow: 'hidden',
+    lineHeight: LINE_HEIGHT as unknown as string,
+    height: `calc(${LINE_HEIGHT}em * ${lines})`,
+    boxSizing: 'border-box',
+    maxWidth: '100%',
+    overflowWrap: 'anywhere',
+    wordBreak: 'break-word',
+    ...(faded && {
+      maskImage: `linear-gradient(to bottom, #000 calc(100% - ${LINE_HEIGHT}em), transparent)`,
+      WebkitMaskImage: `linear-gradient(to bottom, #000 calc(100% - ${LINE_HEIGHT}em), transparent)`
+    })
+  };
+}
+
+// Expanded view: full text
+export const previewExpandedStyle: React.CSSProperties = {
+  whiteSpace: 'pre-wrap',
+  display: 'block',
+  overflow: 'visible',
+  lineHeight: LINE_HEIGHT as unknown as string,
+  boxSizing: 'border-box',
+  maxWidth: '100%',
+  overflowWrap: 'anywhere',
+  wordBreak: 'break-word'
+};
+
+// The same for Markdown, which brings its own line breaks
+export const markdownExpandedStyle: React.CSSProperties = { ...previewExpandedStyle, whiteSpace: 'normal' };
@@ -0,0 +1,75 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { useState } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useFocusTrap } from './useFocusTrap';
+
+function Panel({ onClose, autoFocusLast = false }: { onClose: () => void; autoFocusLast?: boolean }) {
+  const ref = useFocusTrap(true);
+  return (
+    <div ref={ref} role="dialog" aria-modal="true" aria-label="Panel" tabIndex={-1}>
+      <button>First</button>
+      <button disabled>Disabled</button>
+      <input aria-label="Middle" />
+      <button onClick={onClose} autoFocus={autoFocusLast}>Last</button>
+    </div>
+  );
+}
+
+function Harness({ autoFocusLast }: { autoFocusLast?: boolean }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button onClick={() => setOpen(true)}>Open</button>
+      <button>Outside</button>
+      {open && <Panel onClose={() => setOpen(false)} autoFocusLast={autoFocusLast} />}
+    </>
+  );
+}
+
+describe('useFocusTrap', () => {
+  // jsdom has no layout, so every element would count as not rendered
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'getClientRects').mockReturnValue({ length: 1 } as DOMRectList);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('moves focus to the first enabled control on open', async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    expect(screen.getByRole('button', { name: 'First' })).toHaveFocus();
+  });
+
+  it('keeps focus that is already inside the panel', async () => {
+    const user = userEvent.setup();
+    render(<Harness autoFocusLast />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    expect(screen.getByRole('button', { name: 'Last' })).toHaveFocus();
+  });
+
+  it('wraps Tab and Shift+Tab inside the panel, skipping disabled controls', async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    await user.tab();
+    expect(screen.getByRole('textbox', { name: 'Middle' })).toHaveFocus();
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'Last' })).toHaveFocus();
+    await user.tab();
+    expect(screen.getByRole('button', { name: 'First' })).toHaveFocus();
+    await user.tab({ shift: true });
+    expect(screen.getByRole('button', { name: 'Last' })).toHaveFocus();
+  });
+
+  it('returns focus to the opener when it closes', async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+    await user.click(screen.getByRole('button', { name: 'Open' }));
+    await user.click(screen.getByRole('button', { name: 'Last' }));
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Open' })).toHaveFocus();
+  });
+});
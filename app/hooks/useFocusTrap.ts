@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+// Focus handling for a modal dialog: focus moves into it when it opens,
+// Tab and Shift+Tab stay inside it, and focus returns to where it was once
+// it closes. Put the returned ref on the dialog panel.
+export function useFocusTrap<T extends HTMLElement = HTMLDivElement>(open: boolean) {
+  const ref = useRef<T>(null);
+  useEffect(() => {
+    const panel = ref.current;
+    if (!open || !panel) return;
+    const before = document.activeElement as HTMLElement | null;
+    const items = () => Array.from(panel.querySelectorAll<HTMLElement>(FOCUSABLE))
+      .filter(el => !el.hasAttribute('disabled') && !el.hidden && el.getClientRects().length > 0);
+    if (!panel.contains(document.activeElement)) (items()[0] ?? panel).focus();
+    function onKey(e: KeyboardEvent) {
+      if (e.key !== 'Tab') return;
+      const list = items();
+      if (list.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = list[0];
+      const last = list[list.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === panel)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+    panel.addEventListener('keydown', onKey);
+    return () => {
+      panel.removeEventListener('keydown', onKey);
+      if (before?.isConnected) before.focus();
+    };
+  }, [open]);
+  return ref;
+}
@@ -0,0 +1,65 @@
+import { useRef, useState } from 'react';
+import { pushNotice, type Notice, type NoticeOptions } from '../lib/notices';
+
+// A question waiting in the confirm / text dialog (see askConfirm, askText)
+export type ConfirmRequest = {
+  kind: 'confirm';
+  title: string;
+  message?: string;
+  confirmLabel: string;
+  danger?: boolean; // destructive; the button is red
+  resolve: (ok: boolean) => void;
+};
+export type TextRequest = {
+  kind: 'text';
+  title: string;
+  label: string;
+  value: string; // initial value
+  confirmLabel: string;
+  resolve: (value: string | null) => void;
+};
+export type AskRequest = ConfirmRequest | TextRequest;
+
+// Notifications and the confirm / text dialog. Render the results with
+// NoticeStack and AskDialog (see components/).
+export function useNotices() {
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [ask, setAsk] = useState<AskRequest | null>(null);
+  const liveRef = useRef<HTMLDivElement>(null); // screen reader announcements
+  const alertRef = useRef<HTMLDivElement>(null); // same, for errors
+
+  // Announced through the live regions as well as shown
+  function notify(message: string, options: NoticeOptions = {}) {
+    setNotices(prev => pushNotice(prev, message, options));
+    // Cleared first so the same message twice is read out again
+    const live = options.severity === 'error' ? alertRef.current : liveRef.current;
+    if (live) {
+      live.textContent = '';
+      setTimeout(() => (live.textContent = message), 50);
+    }
+  }
+
+  function dismissNotice(id: number) {
+    setNotices(prev => prev.filter(n => n.id !== id));
+  }
+
+  // Styled stand-ins for confirm() and prompt(); both resolve once the
+  // dialog is answered (null / false when it is cancelled)
+  function askConfirm(request: Omit<ConfirmRequest, 'kind' | 'resolve'>): Promise<boolean> {
+    return new Promise(resolve => setAsk({ kind: 'confirm', ...request, resolve }));
+  }
+
+  function askText(request: Omit<TextRequest, 'kind' | 'resolve'>): Promise<string | null> {
+    return new Promise(resolve => setAsk({ kind: 'text', ...request, resolve }));
+  }
+
+  // `value` is what was typed into a text dialog
+  function answerAsk(ok: boolean, value = '') {
+    if (!ask) return;
+    setAsk(null);
+    if (ask.kind === 'confirm') ask.resolve(ok);
+    else ask.resolve(ok ? value : null);
+  }
+
+  return { notices, dismissNotice, notify, ask, askConfirm, askText, answerAsk, liveRef, alertRef };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Whether an element's content is taller than `lines` of its own text.
+// Measured from the rendered layout, so it follows the element's width,
+// font loading and zoom; `content` re-measures when the text changes.
+export function useOverflow<T extends HTMLElement = HTMLDivElement>(lines: number, content: string) {
+  const ref = useRef<T>(null);
+  const [overflows, setOverflows] = useState(false);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    function measure() {
+      if (!el) return;
+      const lineHeight = parseFloat(getComputedStyle(el).lineHeight) || parseFloat(getComputedStyle(el).fontSize) * 1.4;
+      // A pixel of slack for rounding at fractional zoom levels
+      setOverflows(el.scrollHeight > lineHeight * lines + 1);
+    }
+    // Also calls measure once right away
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    document.fonts?.addEventListener('loadingdone', measure);
+    return () => {
+      observer.disconnect();
+      document.fonts?.removeEventListener('loadingdone', measure);
+    };
+  }, [lines, content]);
+  return { ref, overflows };
+}
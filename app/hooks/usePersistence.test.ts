@@ -0,0 +1,53 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_META, type MetaState, type Store } from '../lib/storage';
+import { makeBase, type SyncState } from '../lib/sync';
+import type { Card } from '../lib/types';
+import { usePersistence } from './usePersistence';
+
+const cards: Card[] = [{ id: 'a', title: 'A', text: '', createdAt: 1 }];
+
+function setup() {
+  const store = {
+    saveCards: vi.fn(() => Promise.resolve()),
+    saveLayouts: vi.fn(() => Promise.resolve()),
+    saveMeta: vi.fn(() => Promise.resolve())
+  };
+  const post = vi.fn();
+  const storeRef = { current: store as unknown as Store };
+  const syncRef = { current: { channel: { post, close: vi.fn() }, cards: makeBase([]), layouts: makeBase([]), meta: {} } as SyncState };
+  const setErrors = vi.fn();
+  const view = renderHook(
+    ({ loaded, meta }: { loaded: boolean; meta: MetaState }) =>
+      usePersistence(storeRef, syncRef, loaded, { cards, layouts: [], meta }, setErrors),
+    { initialProps: { loaded: false, meta: EMPTY_META } }
+  );
+  return { store, post, view };
+}
+
+describe('usePersistence', () => {
+  it('waits for the load, then writes everything once', () => {
+    const { store, view } = setup();
+    expect(store.saveCards).not.toHaveBeenCalled();
+    expect(store.saveMeta).not.toHaveBeenCalled();
+
+    view.rerender({ loaded: true, meta: EMPTY_META });
+    expect(store.saveCards).toHaveBeenCalledWith(cards);
+    expect(store.saveLayouts).toHaveBeenCalledWith([]);
+    expect(store.saveMeta).toHaveBeenCalledTimes(Object.keys(EMPTY_META).length);
+  });
+
+  it('rewrites only the settings that changed, and tells other tabs', async () => {
+    const { store, post, view } = setup();
+    view.rerender({ loaded: true, meta: EMPTY_META });
+    await waitFor(() => expect(post).toHaveBeenCalled());
+    store.saveMeta.mockClear();
+    post.mockClear();
+
+    view.rerender({ loaded: true, meta: { ...EMPTY_META, author: 'sam' } });
+    expect(store.saveMeta).toHaveBeenCalledTimes(1);
+    expect(store.saveMeta).toHaveBeenCalledWith('author', 'sam');
+    await waitFor(() => expect(post).toHaveBeenCalledWith({ kind: 'meta', key: 'author', value: 'sam' }));
+    expect(store.saveCards).toHaveBeenCalledTimes(1);
+  });
+});
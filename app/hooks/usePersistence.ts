@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { track, type MetaKey, type MetaState, type Store } from '../lib/storage';
+import { announce, type SyncState } from '../lib/sync';
+import type { Card, LayoutEntry } from '../lib/types';
+
+type SaveErrors = (update: (prev: Record<string, string>) => Record<string, string>) => void;
+
+// Writes the page's state through the store once it has loaded: cards and
+// layouts whenever they change (the store only rewrites changed records),
+// and each setting whenever its value changes. Other tabs hear about every
+// successful write; failures land in the save errors (see track).
+export function usePersistence(
+  storeRef: React.RefObject<Store | null>,
+  syncRef: React.RefObject<SyncState>,
+  loaded: boolean,
+  { cards, layouts, meta }: { cards: Card[]; layouts: LayoutEntry[]; meta: MetaState },
+  setErrors: SaveErrors
+) {
+  useEffect(() => {
+    if (!loaded) return;
+    const sync = syncRef.current;
+    track('cards', storeRef.current?.saveCards(cards)
+      .then(() => announce(sync, { kind: 'cards', cards })), setErrors);
+  }, [cards, loaded, storeRef, syncRef, setErrors]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const sync = syncRef.current;
+    track('layouts', storeRef.current?.saveLayouts(layouts)
+      .then(() => announce(sync, { kind: 'layouts', layouts })), setErrors);
+  }, [layouts, loaded, storeRef, syncRef, setErrors]);
+
+  // Settings as last written; `meta` is a new object every render, so
+  // values are compared one by one
+  const written = useRef<Partial<MetaState>>({});
+  useEffect(() => {
+    if (!loaded) return;
+    const sync = syncRef.current;
+    for (const key of Object.keys(meta) as MetaKey[]) {
+      const value = meta[key];
+      if (written.current[key] === value) continue;
+      written.current = { ...written.current, [key]: value };
+      track(key, storeRef.current?.saveMeta(key, value)
+        .then(() => announce(sync, { kind: 'meta', key, value })), setErrors);
+    }
+  });
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+
+const QUERY = '(prefers-color-scheme: dark)';
+
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+}
+
+// The browser's colour scheme, kept current when the OS switches between
+// light and dark. Dark while rendering on the server.
+export function usePrefersDark(): boolean {
+  return useSyncExternalStore(subscribe, () => window.matchMedia(QUERY).matches, () => true);
+}
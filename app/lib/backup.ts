@@ -0,0 +1,198 @@
+import { normalizeCopySettings, type CopySettings } from './clipboard';
+import { makeDoc, serializeDoc, type DocSettings, type ExportDoc } from './exchange';
+import type { HistoryMap } from './history';
+import { normalizePreferences, type Preferences } from './preferences';
+import { serialize } from './sync';
+import type { TagColors } from './tags';
+import type { ThemeSettings } from './theme';
+import { normalizeTokenSettings, type TokenSettings } from './tokens';
+import type { Card, LayoutEntry } from './types';
+import { normalizeUsage, type UsageState } from './usage';
+
+// Full backups: the page, every saved layout and the per-browser settings
+// in one versioned JSON file (see lib/exchange.ts). They can be downloaded
+// on demand, or taken automatically on a schedule and kept in the browser's
+// own store, where only the newest `keep` automatic backups survive.
+
+export type BackupInterval = 'off' | 'hourly' | 'daily' | 'weekly';
+
+export const BACKUP_INTERVALS: Record<BackupInterval, { label: string; ms: number }> = {
+  off: { label: 'Off', ms: Infinity },
+  hourly: { label: 'Every hour', ms: 60 * 60 * 1000 },
+  daily: { label: 'Every day', ms: 24 * 60 * 60 * 1000 },
+  weekly: { label: 'Every week', ms: 7 * 24 * 60 * 60 * 1000 }
+};
+
+export type BackupSettings = {
+  interval: BackupInterval;
+  keep: number; // automatic backups to retain
+};
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = { interval: 'daily', keep: 10 };
+
+/** Everything a backup captures. */
+export type BackupData = {
+  cards: Card[];
+  layouts: LayoutEntry[];
+  layoutTitle: string;
+  tagColors: TagColors;
+  templateValues: Record<string, Record<string, string>>;
+  history: HistoryMap;
+  author: string;
+  theme: ThemeSettings;
+  // Settings
+  backupSettings: BackupSettings;
+  copySettings: CopySettings;
+  preferences: Preferences;
+  usage: UsageState;
+  tokenSettings: TokenSettings;
+};
+
+/** A backup kept in the browser. */
+export type BackupRecord = {
+  id: string;
+  createdAt: number;
+  auto: boolean; // taken by the schedule (subject to retention)
+  fingerprint: string; // content hash, to skip backups of unchanged data
+  counts: { cards: number; layouts: number };
+  doc: string; // the backup file's JSON
+};
+
+export function normalizeBackupSettings(value: unknown): BackupSettings {
+  const v = (value ?? {}) as Partial<BackupSettings>;
+  return {
+    interval: v.interval && v.interval in BACKUP_INTERVALS ? v.interval : DEFAULT_BACKUP_SETTINGS.interval,
+    keep: Number.isInteger(v.keep) && (v.keep as number) > 0 ? (v.keep as number) : DEFAULT_BACKUP_SETTINGS.keep
+  };
+}
+
+// Small non-cryptographic hash (FNV-1a); only compares backups with each other
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0') + ':' + text.length;
+}
+
+export function backupFingerprint(data: BackupData): string {
+  return hash(serialize(data));
+}
+
+export function backupDoc(data: BackupData): ExportDoc {
+  const settings: DocSettings = {
+    layoutTitle: data.layoutTitle,
+    author: data.author,
+    templateValues: data.templateValues,
+    history: data.history,
+    backupSettings: data.backupSettings,
+    copySettings: data.copySettings,
+    preferences: data.preferences,
+    usage: data.usage,
+    tokenSettings: data.tokenSettings
+  };
+  return makeDoc({ cards: data.cards, layouts: data.layouts, tagColors: data.tagColors, theme: data.theme, settings });
+}
+
+export function makeBackup(data: BackupData, auto: boolean): BackupRecord {
+  const now = Date.now();
+  return {
+    id: 'B' + now,
+    createdAt: now,
+    auto,
+    fingerprint: backupFingerprint(data),
+    counts: { cards: data.cards.length, layouts: data.layouts.length },
+    doc: serializeDoc(backupDoc(data), 'json')
+  };
+}
+
+/** "copyai-backup-2026-01-31-1200.json" */
+export function backupFileName(at: number): string {
+  const d = new Date(at);
+  const two = (n: number) => String(n).padStart(2, '0');
+  return `copyai-backup-${d.getFullYear()}-${two(d.getMonth() + 1)}-${two(d.getDate())}-${two(d.getHours())}${two(d.getMinutes())}.json`;
+}
+
+/** Read a validated document back into backup data; missing parts stay as they are now. */
+export function backupFromDoc(doc: ExportDoc, current: BackupData): BackupData {
+  const s = doc.settings ?? {};
+  return {
+    cards: doc.cards ?? current.cards,
+    layouts: doc.layouts ?? current.layouts,
+    layoutTitle: s.layoutTitle ?? current.layoutTitle,
+    tagColors: (doc.settings || doc.cards) ? (doc.tagColors ?? {}) : current.tagColors,
+    templateValues: s.templateValues ?? current.templateValues,
+    history: s.history ?? current.history,
+    author: s.author ?? current.author,
+    theme: doc.theme ?? current.theme,
+    backupSettings: s.backupSettings ? normalizeBackupSettings(s.backupSettings) : current.backupSettings,
+    copySettings: s.copySettings ? normalizeCopySettings(s.copySettings) : current.copySettings,
+    preferences: s.preferences ? normalizePreferences(s.preferences) : current.preferences,
+    usage: s.usage ? normalizeUsage(s.usage) : current.usage,
+    tokenSettings: s.tokenSettings ? normalizeTokenSettings(s.tokenSettings) : current.tokenSettings
+  };
+}
+
+/**
+ * Time for an automatic backup? `latestAuto` is the newest automatic
+ * backup, if any.
+ */
+export function isBackupDue(settings: BackupSettings, latestAuto: BackupRecord | undefined, data: BackupData): boolean {
+  if (settings.interval === 'off') return false;
+  if (!latestAuto) return data.cards.length > 0 || data.layouts.length > 0;
+  if (Date.now() - latestAuto.createdAt < BACKUP_INTERVALS[settings.interval].ms) return false;
+  return latestAuto.fingerprint !== backupFingerprint(data);
+}
+
+/** Automatic backups beyond the newest `keep` (manual ones are never pruned). */
+export function expiredBackups(list: BackupRecord[], keep: number): BackupRecord[] {
+  return list
+    .filter(b => b.auto)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(keep);
+}
+
+// ----------- Restore preview -----------
+
+export type ListChange<T> = { added: T[]; removed: T[]; changed: T[] };
+
+export type RestorePreview = {
+  cards: ListChange<Card>;
+  layouts: ListChange<LayoutEntry>;
+  settings: string[]; // human-readable names of other things that change
+  unchanged: boolean;
+};
+
+function listChange<T extends { id: string }>(current: T[], next: T[]): ListChange<T> {
+  const cur = new Map(current.map(x => [x.id, serialize(x)]));
+  const nxt = new Set(next.map(x => x.id));
+  return {
+    added: next.filter(x => !cur.has(x.id)),
+    removed: current.filter(x => !nxt.has(x.id)),
+    changed: next.filter(x => cur.has(x.id) && cur.get(x.id) !== serialize(x))
+  };
+}
+
+/** What restoring `next` over `current` would change. */
+export function previewRestore(current: BackupData, next: BackupData): RestorePreview {
+  const cards = listChange(current.cards, next.cards);
+  const layouts = listChange(current.layouts, next.layouts);
+  const orderChanged = current.cards.map(c => c.id).join('\n') !== next.cards.map(c => c.id).join('\n');
+  const settings: string[] = [];
+  if (orderChanged && !cards.added.length && !cards.removed.length) settings.push('card order');
+  if (current.layoutTitle !== next.layoutTitle) settings.push('current layout name');
+  if (serialize(current.tagColors) !== serialize(next.tagColors)) settings.push('tag colours');
+  if (serialize(current.templateValues) !== serialize(next.templateValues)) settings.push('remembered template values');
+  if (serialize(current.history) !== serialize(next.history)) settings.push('revision history');
+  if (current.author !== next.author) settings.push('author name');
+  if (serialize(current.theme) !== serialize(next.theme)) settings.push('theme');
+  if (serialize(current.backupSettings) !== serialize(next.backupSettings)) settings.push('backup schedule');
+  if (serialize(current.copySettings) !== serialize(next.copySettings)) settings.push('copy settings');
+  if (serialize(current.preferences) !== serialize(next.preferences)) settings.push('preferences and shortcuts');
+  if (serialize(current.usage) !== serialize(next.usage)) settings.push('copy statistics');
+  if (serialize(current.tokenSettings) !== serialize(next.tokenSettings)) settings.push('token counting and models');
+  const unchanged = settings.length === 0
+    && [cards, layouts].every(c => !c.added.length && !c.removed.length && !c.changed.length);
+  return { cards, layouts, settings, unchanged };
+}
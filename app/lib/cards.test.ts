@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_DRAFT, draftOf, duplicateCard } from './cards';
+import type { Card } from './types';
+
+const card: Card = { id: 'c1', title: 'Summary', text: 'Summarize {{topic}}', createdAt: 1, tags: ['work', 'writing/short'] };
+
+describe('draftOf', () => {
+  it('joins tags into the comma-separated input', () => {
+    expect(draftOf(card)).toEqual({ title: 'Summary', text: 'Summarize {{topic}}', tags: 'work, writing/short' });
+  });
+
+  it('gives an empty tag input for untagged cards', () => {
+    expect(draftOf({ ...card, tags: undefined }).tags).toBe('');
+  });
+
+  it('starts from an empty draft', () => {
+    expect(EMPTY_DRAFT).toEqual({ title: '', text: '', tags: '' });
+  });
+});
+
+describe('duplicateCard', () => {
+  it('keeps the content under a fresh id and creation time', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(5000);
+    try {
+      const copy = duplicateCard(card);
+      expect(copy).toEqual({ ...card, id: 'c5000', createdAt: 5000 });
+      expect(card.id).toBe('c1');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,21 @@
+import type { Card } from './types';
+
+// Card helpers shared by the add form, the inline editor and the list.
+
+/** A card as typed into the add form or the inline editor. */
+export type CardDraft = {
+  title: string;
+  text: string;
+  tags: string; // comma-separated (see parseTagInput in lib/tags.ts)
+};
+
+export const EMPTY_DRAFT: CardDraft = { title: '', text: '', tags: '' };
+
+export function draftOf(c: Card): CardDraft {
+  return { title: c.title, text: c.text, tags: (c.tags ?? []).join(', ') };
+}
+
+/** Same content under a fresh id (for "keep both"). */
+export function duplicateCard(c: Card): Card {
+  return { ...c, id: 'c' + Date.now(), createdAt: Date.now() };
+}
@@ -0,0 +1,120 @@
+import { renderMarkdown } from './markdown';
+
+// Clipboard output. A copy is one or more cards turned into text (and, for
+// the HTML mode, rich text that pastes with formatting into docs and mail):
+//   plain   the text as written
+//   html    the text rendered from Markdown, with the plain text alongside
+//   quoted  every line prefixed with "> "
+//   titled  a "## Title" header above the text
+// Several cards are joined with the separator into one combined prompt.
+//
+// Writing tries the async Clipboard API first and falls back to
+// document.execCommand('copy'), which still works where the API is blocked
+// (insecure origins, some embedded browsers).
+
+export type CopyMode = 'plain' | 'html' | 'quoted' | 'titled';
+
+export const COPY_MODES: Record<CopyMode, { label: string; hint: string }> = {
+  plain: { label: 'Plain text', hint: 'The text as written' },
+  html: { label: 'Formatted (HTML)', hint: 'Markdown rendered as rich text, for docs and email' },
+  quoted: { label: 'Quoted', hint: 'Every line prefixed with "> "' },
+  titled: { label: 'With title', hint: 'A "## Title" header above the text' }
+};
+
+export type CopySettings = {
+  mode: CopyMode; // for copying several cards at once
+  separator: string; // between cards in a combined copy
+};
+
+export const DEFAULT_COPY_SETTINGS: CopySettings = { mode: 'plain', separator: '\n\n---\n\n' };
+
+export function normalizeCopySettings(value: unknown): CopySettings {
+  const v = (value ?? {}) as Partial<CopySettings>;
+  return {
+    mode: v.mode && v.mode in COPY_MODES ? v.mode : DEFAULT_COPY_SETTINGS.mode,
+    separator: typeof v.separator === 'string' ? v.separator : DEFAULT_COPY_SETTINGS.separator
+  };
+}
+
+/** Separator as typed in a one-line input: newlines and tabs as \n and \t. */
+export function separatorToInput(separator: string): string {
+  return separator.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+export function separatorFromInput(input: string): string {
+  return input.replace(/\\(\\|n|t)/g, (_, ch: string) => (ch === 'n' ? '\n' : ch === 't' ? '\t' : '\\'));
+}
+
+export type CopyPart = { title: string; text: string };
+
+export type ClipboardPayload = { text: string; html?: string };
+
+function asText(part: CopyPart, mode: CopyMode): string {
+  if (mode === 'quoted') return part.text.split('\n').map(l => (l ? '> ' + l : '>')).join('\n');
+  if (mode === 'titled') return `## ${part.title.trim() || 'Untitled'}\n\n${part.text}`;
+  return part.text;
+}
+
+/** Turn cards into what goes on the clipboard. */
+export function formatCopy(parts: CopyPart[], mode: CopyMode, separator = DEFAULT_COPY_SETTINGS.separator): ClipboardPayload {
+  const text = parts.map(p => asText(p, mode)).join(separator);
+  if (mode !== 'html') return { text };
+  // The separator is Markdown too ("---" becomes a rule)
+  const html = parts.map(p => renderMarkdown(p.text)).join(separator.trim() ? '\n' + renderMarkdown(separator.trim()) + '\n' : '\n');
+  return { text, html };
+}
+
+/** Thrown when neither the Clipboard API nor the fallback could copy. */
+export class ClipboardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClipboardError';
+  }
+}
+
+// Hidden textarea + execCommand. A copy listener puts the HTML version on
+// the clipboard too, so the fallback keeps formatting.
+function execCommandCopy(payload: ClipboardPayload): boolean {
+  const ta = document.createElement('textarea');
+  ta.value = payload.text;
+  ta.style.position = 'fixed';
+  ta.style.left = '-9999px';
+  ta.setAttribute('readonly', 'true');
+  const onCopy = (e: ClipboardEvent) => {
+    if (!e.clipboardData) return;
+    e.clipboardData.setData('text/plain', payload.text);
+    if (payload.html) e.clipboardData.setData('text/html', payload.html);
+    e.preventDefault();
+  };
+  document.body.appendChild(ta);
+  document.addEventListener('copy', onCopy);
+  try {
+    ta.select();
+    return document.execCommand('copy');
+  } catch {
+    return false;
+  } finally {
+    document.removeEventListener('copy', onCopy);
+    document.body.removeChild(ta);
+  }
+}
+
+/** Put a payload on the clipboard; rejects with ClipboardError when every route fails. */
+export async function writeClipboard(payload: ClipboardPayload): Promise<void> {
+  const api = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+  if (payload.html && api?.write && typeof ClipboardItem !== 'undefined') {
+    try {
+      await api.write([new ClipboardItem({
+        'text/html': new Blob([payload.html], { type: 'text/html' }),
+        'text/plain': new Blob([payload.text], { type: 'text/plain' })
+      })]);
+      return;
+    } catch {}
+  } else if (api?.writeText) {
+    try {
+      await api.writeText(payload.text);
+      return;
+    } catch {}
+  }
+  if (!execCommandCopy(payload)) throw new ClipboardError('The browser refused to copy');
+}
@@ -0,0 +1,74 @@
+// Minimal RFC 4180 CSV: quoted fields, doubled quotes, embedded newlines.
+// Fields a spreadsheet would run as a formula (starting with =, +, -, @,
+// tab or CR) are written with a leading ' and read back without it.
+
+export class CsvError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvError';
+  }
+}
+
+// Values that already start with ' before such a character get one more,
+// so reading strips exactly what writing added
+const FORMULA = /^'*[=+\-@\t\r]/;
+
+function field(raw: string): string {
+  const value = FORMULA.test(raw) ? "'" + raw : raw;
+  return /[",\r\n]|^\s|\s$/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value;
+}
+
+function unguard(value: string): string {
+  return value.startsWith("'") && FORMULA.test(value) ? value.slice(1) : value;
+}
+
+/** Rows of fields -> CSV text (CRLF line endings, as spreadsheets expect). */
+export function toCsv(rows: string[][]): string {
+  return rows.map(r => r.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
+/** CSV text -> rows of fields. Blank lines are skipped. */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRow = () => {
+    row.push(cur);
+    if (row.length > 1 || row[0] !== '') rows.push(row.map(unguard));
+    row = [];
+    cur = '';
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cur += ch;
+      }
+    } else if (ch === '"' && cur === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cur);
+      cur = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      cur += ch;
+    }
+  }
+  if (quoted) throw new CsvError(`Unclosed quoted field (line ${line})`);
+  if (cur !== '' || row.length) endRow();
+  return rows;
+}
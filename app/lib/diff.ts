@@ -0,0 +1,75 @@
+// Word-level diff between two texts (LCS over word/whitespace tokens).
+
+export type DiffOp = { kind: 'same' | 'add' | 'del'; text: string };
+
+// Above this many cells the LCS table gets too big; fall back to a
+// whole-block replace so the UI stays responsive.
+const MAX_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function push(out: DiffOp[], kind: DiffOp['kind'], text: string) {
+  const last = out[out.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else out.push({ kind, text });
+}
+
+/** Diff `a` (old) against `b` (new) at word granularity. */
+export function diffWords(a: string, b: string): DiffOp[] {
+  const x = tokenize(a);
+  const y = tokenize(b);
+
+  // Trim common prefix/suffix so the table only covers the changed middle
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length;
+  let endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) {
+    endX--;
+    endY--;
+  }
+
+  const out: DiffOp[] = [];
+  if (start > 0) push(out, 'same', x.slice(0, start).join(''));
+
+  const mx = x.slice(start, endX);
+  const my = y.slice(start, endY);
+  const n = mx.length;
+  const m = my.length;
+
+  if (n * m > MAX_CELLS) {
+    if (n) push(out, 'del', mx.join(''));
+    if (m) push(out, 'add', my.join(''));
+  } else {
+    // lcs[i][j] = LCS length of mx[i..] and my[j..]
+    const w = m + 1;
+    const lcs = new Uint32Array((n + 1) * w);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * w + j] = mx[i] === my[j]
+          ? lcs[(i + 1) * w + j + 1] + 1
+          : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (mx[i] === my[j]) {
+        push(out, 'same', mx[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) {
+        push(out, 'del', mx[i++]);
+      } else {
+        push(out, 'add', my[j++]);
+      }
+    }
+    while (i < n) push(out, 'del', mx[i++]);
+    while (j < m) push(out, 'add', my[j++]);
+  }
+
+  if (endX < x.length) push(out, 'same', x.slice(endX).join(''));
+  return out;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXPORT_FORMATS, ExchangeError, FORMAT_VERSION, describeFieldError, detectFormat, makeDoc, parseDoc, serializeDoc,
+  validateDoc, type ExportFormat
+} from './exchange';
+import type { Card, LayoutEntry } from './types';
+
+const cards: Card[] = [
+  { id: 'c1', title: 'Summary', text: 'Summarize:\n```js\ncode()\n```\n-- done', createdAt: 100, tags: ['work'] },
+  { id: 'c2', title: '=SUM(A1)', text: 'Plain, with "quotes"', createdAt: 200, tags: [] }
+];
+const layouts: LayoutEntry[] = [
+  { id: 'L1', title: 'Daily', savedAt: 300, cards, tagColors: { work: '#3366ff' } },
+  { id: 'L2', title: 'Empty', savedAt: 400, cards: [], tagColors: {} }
+];
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+const fileName = (format: ExportFormat) => `export.${EXPORT_FORMATS[format].ext}`;
+const content = (list: Card[]) => list.map(c => ({ id: c.id, title: c.title, text: c.text, tags: c.tags }));
+
+describe('round trips', () => {
+  it.each(FORMATS)('keeps page cards in %s', format => {
+    const { doc, errors } = parseDoc(serializeDoc(makeDoc({ cards }), format), fileName(format));
+    expect(errors).toEqual([]);
+    expect(content(doc.cards ?? [])).toEqual(content(cards));
+  });
+
+  it.each(FORMATS)('keeps layouts, including empty ones, in %s', format => {
+    const { doc, errors } = parseDoc(serializeDoc(makeDoc({ layouts }), format), fileName(format));
+    expect(errors).toEqual([]);
+    expect(doc.layouts?.map(l => [l.id, l.title, content(l.cards)])).toEqual(layouts.map(l => [l.id, l.title, content(l.cards)]));
+  });
+
+  it('stamps the card order into exports', () => {
+    expect(makeDoc({ cards }).cards?.map(c => c.order)).toEqual([0, 1]);
+  });
+});
+
+describe('CSV', () => {
+  it('guards cells that a spreadsheet would run as formulas', () => {
+    const csv = serializeDoc(makeDoc({ cards }), 'csv');
+    expect(csv).toContain("'=SUM(A1)");
+    expect(parseDoc(csv, 'x.csv').doc.cards?.[1].title).toBe('=SUM(A1)');
+  });
+});
+
+describe('detectFormat', () => {
+  it('goes by the file extension first', () => {
+    expect(detectFormat('a.yml', '{}')).toBe('yaml');
+    expect(detectFormat('a.markdown', '')).toBe('markdown');
+  });
+
+  it('sniffs the content otherwise', () => {
+    expect(detectFormat('paste', '  [{"title": "x"}]')).toBe('json');
+    expect(detectFormat('paste', '## Title\ntext')).toBe('markdown');
+    expect(detectFormat('paste', 'format: copyai')).toBe('yaml');
+    expect(detectFormat('paste', 'title,text\na,b')).toBe('csv');
+  });
+});
+
+describe('validateDoc', () => {
+  it('reads version 0 files', () => {
+    const { doc } = validateDoc([{ title: 'Old', cards: [{ title: 'A', text: 'x' }] }]);
+    expect(doc.version).toBe(FORMAT_VERSION);
+    expect(doc.layouts?.[0]).toMatchObject({ title: 'Old', cards: [{ title: 'A', text: 'x', tags: [], order: 0 }] });
+  });
+
+  it('leaves invalid items out and says where they were', () => {
+    const { doc, errors } = validateDoc({
+      cards: [{ title: 'ok', text: 'x' }, { title: 3, text: 'y' }, 'nope'],
+      tagColors: { work: 'blue' }
+    });
+    expect(doc.cards?.map(c => c.title)).toEqual(['ok']);
+    expect(errors.map(describeFieldError)).toEqual([
+      'cards[1].title: expected a string, got number',
+      'cards[2]: expected a card object, got string',
+      'tagColors["work"]: expected a colour like "#3366ff", got "blue"'
+    ]);
+  });
+
+  it('keeps a layout whose cards are partly broken', () => {
+    const { doc, errors } = validateDoc({ layouts: [{ title: 'L', cards: [{ title: 'a', text: '' }, { text: 'b' }] }] });
+    expect(doc.layouts?.[0].cards.map(c => c.title)).toEqual(['a']);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('checks backup settings', () => {
+    const { doc, errors } = validateDoc({ cards: [], settings: { author: 'Ada', preferences: 'dark', usage: { cards: {} } } });
+    expect(doc.settings).toEqual({ author: 'Ada', usage: { cards: {} } });
+    expect(errors.map(describeFieldError)).toEqual(['settings.preferences: expected an object, got string']);
+  });
+
+  it('refuses files it cannot read at all', () => {
+    expect(() => validateDoc({ title: 'x' })).toThrow(ExchangeError);
+    expect(() => validateDoc({ version: FORMAT_VERSION + 1, cards: [] })).toThrow(/update the app/);
+    expect(() => parseDoc('{ broken', 'a.json')).toThrow(/^Invalid JSON/);
+  });
+});
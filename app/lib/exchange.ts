@@ -0,0 +1,590 @@
+import { CsvError, parseCsv, toCsv } from './csv';
+import type { HistoryMap, Revision } from './history';
+import { sortCards, stampOrder } from './order';
+import { normalizeTag, parseTagInput, type TagColors } from './tags';
+import { THEME_MODES, paletteOf, type ThemeSettings } from './theme';
+import type { Card, LayoutEntry } from './types';
+import { YamlError, parseYaml, toYaml } from './yaml';
+
+// Interchange format for exports and imports.
+//
+// Version 1 document (JSON; YAML has the same structure):
+//
+//   {
+//     "format": "copyai",
+//     "version": 1,
+//     "exportedAt": "2026-01-31T12:00:00.000Z",
+//     "cards": [Card, ...],            // a layout export (page cards)
+//     "layouts": [LayoutEntry, ...],   // a library export
+//     "tagColors": { "tag/path": "#rrggbb" },
+//     "theme": ThemeSettings,          // library exports and backups (see lib/theme.ts)
+//     "settings": DocSettings          // backups only (see lib/backup.ts)
+//   }
+//
+//   Card:        { id, title, text, createdAt, order?, tags? }
+//   LayoutEntry: { id, title, savedAt, cards: [Card, ...], tagColors? }
+//
+// Only `title` and `text` (cards) and `title` and `cards` (layouts) are
+// required; missing ids and timestamps are filled in on import. Files
+// without `format`/`version` (the earlier `{ cards }` / `{ layouts }` /
+// bare layout array exports) are read as version 0.
+//
+// Markdown: one "## Title" heading per card followed by its text in a
+// fenced block; in a library export each layout is a "# Title" heading.
+// Ids and timestamps ride along in HTML comments, and a "Tags:" line
+// under the heading lists the tags.
+//
+// CSV: one row per card with the columns title, text, tags, id, createdAt;
+// a library export adds layout and layoutId in front, and an empty layout
+// is a row with only those two filled in. Tag colours and the theme are
+// not part of CSV exports.
+//
+// Validation collects every problem as a path plus message
+// (`cards[2].title: expected a string`); invalid items are left out of
+// the import and the rest still goes through.
+
+export const FORMAT = 'copyai';
+export const FORMAT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'csv' | 'yaml';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; ext: string; mime: string }> = {
+  json: { label: 'JSON', ext: 'json', mime: 'application/json' },
+  markdown: { label: 'Markdown', ext: 'md', mime: 'text/markdown' },
+  csv: { label: 'CSV', ext: 'csv', mime: 'text/csv' },
+  yaml: { label: 'YAML', ext: 'yaml', mime: 'application/yaml' }
+};
+
+// For <input type="file" accept>
+export const IMPORT_ACCEPT = '.json,.md,.markdown,.csv,.yaml,.yml,application/json,text/markdown,text/csv';
+
+export type ExportDoc = {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: string;
+  cards?: Card[];
+  layouts?: LayoutEntry[];
+  tagColors?: TagColors;
+  theme?: ThemeSettings;
+  settings?: DocSettings;
+};
+
+// Per-browser state carried by full backups
+export type DocSettings = {
+  layoutTitle?: string; // layout the page cards were opened from
+  author?: string;
+  templateValues?: Record<string, Record<string, string>>;
+  history?: HistoryMap;
+  // Settings objects, each checked by its own module when restored
+  // (see backupFromDoc)
+  backupSettings?: Record<string, unknown>;
+  copySettings?: Record<string, unknown>;
+  preferences?: Record<string, unknown>; // includes key bindings
+  usage?: Record<string, unknown>;
+  tokenSettings?: Record<string, unknown>;
+};
+
+// Keys of DocSettings that hold a settings object
+const SETTINGS_OBJECTS = ['backupSettings', 'copySettings', 'preferences', 'usage', 'tokenSettings'] as const;
+
+export type FieldError = { path: string; message: string };
+
+/** Thrown when a file can't be read at all (syntax, unknown version). */
+export class ExchangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeError';
+  }
+}
+
+export function describeFieldError(e: FieldError): string {
+  return e.path ? `${e.path}: ${e.message}` : e.message;
+}
+
+export function makeDoc(content: {
+  cards?: Card[];
+  layouts?: LayoutEntry[];
+  tagColors?: TagColors;
+  theme?: ThemeSettings;
+  settings?: DocSettings;
+}): ExportDoc {
+  return {
+    format: FORMAT,
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(content.cards && { cards: stampOrder(content.cards) }),
+    ...(content.layouts && { layouts: content.layouts.map(l => ({ ...l, cards: stampOrder(l.cards) })) }),
+    ...(content.tagColors && Object.keys(content.tagColors).length > 0 && { tagColors: content.tagColors }),
+    ...(content.theme && { theme: content.theme }),
+    ...(content.settings && { settings: content.settings })
+  };
+}
+
+// ----------- Validation -----------
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function typeName(v: unknown): string {
+  if (v === null) return 'null';
+  return Array.isArray(v) ? 'a list' : typeof v;
+}
+
+const COLOR = /^#[0-9a-f]{6}$/i;
+
+function validateTagColors(raw: unknown, path: string, errors: FieldError[]): TagColors {
+  const out: TagColors = {};
+  if (raw === undefined || raw === null) return out;
+  if (!isObj(raw)) {
+    errors.push({ path, message: `expected an object of tag colours, got ${typeName(raw)}` });
+    return out;
+  }
+  for (const [k, v] of Object.entries(raw)) {
+    const tag = normalizeTag(k);
+    if (!tag) errors.push({ path: `${path}[${JSON.stringify(k)}]`, message: 'empty tag name' });
+    else if (typeof v !== 'string' || !COLOR.test(v)) {
+      errors.push({ path: `${path}[${JSON.stringify(k)}]`, message: `expected a colour like "#3366ff", got ${JSON.stringify(v)}` });
+    } else out[tag] = v;
+  }
+  return out;
+}
+
+function validateTags(raw: unknown, path: string, errors: FieldError[]): string[] | null {
+  if (raw === undefined || raw === null) return [];
+  if (typeof raw === 'string') return parseTagInput(raw);
+  if (!Array.isArray(raw)) {
+    errors.push({ path, message: `expected a list of tags, got ${typeName(raw)}` });
+    return null;
+  }
+  const bad = raw.findIndex(t => typeof t !== 'string' && typeof t !== 'number');
+  if (bad !== -1) {
+    errors.push({ path: `${path}[${bad}]`, message: `expected a tag name, got ${typeName(raw[bad])}` });
+    return null;
+  }
+  return parseTagInput(raw.map(String).join(','));
+}
+
+function optionalNumber(o: Obj, field: string, path: string, errors: FieldError[]): number | undefined | null {
+  const v = o[field];
+  if (v === undefined || v === null || v === '') return undefined;
+  const n = typeof v === 'number' ? v : typeof v === 'string' ? Number(v) : NaN;
+  if (!Number.isFinite(n)) {
+    errors.push({ path: `${path}.${field}`, message: `expected a number, got ${JSON.stringify(v)}` });
+    return null;
+  }
+  return n;
+}
+
+function validateCard(raw: unknown, path: string, errors: FieldError[], fallbackId: string, fallbackTime: number): Card | null {
+  if (!isObj(raw)) {
+    errors.push({ path, message: `expected a card object, got ${typeName(raw)}` });
+    return null;
+  }
+  const before = errors.length;
+  const { id, title, text } = raw;
+  if (id !== undefined && id !== null && typeof id !== 'string' && typeof id !== 'number') {
+    errors.push({ path: `${path}.id`, message: `expected a string, got ${typeName(id)}` });
+  }
+  if (typeof title !== 'string') errors.push({ path: `${path}.title`, message: `expected a string, got ${typeName(title)}` });
+  if (typeof text !== 'string') errors.push({ path: `${path}.text`, message: `expected a string, got ${typeName(text)}` });
+  const createdAt = optionalNumber(raw, 'createdAt', path, errors);
+  const order = optionalNumber(raw, 'order', path, errors);
+  const tags = validateTags(raw.tags, `${path}.tags`, errors);
+  if (errors.length > before) return null;
+  return {
+    id: String(id ?? '').trim() || fallbackId,
+    title: title as string,
+    text: text as string,
+    createdAt: createdAt ?? fallbackTime,
+    order: order ?? undefined,
+    tags: tags ?? []
+  };
+}
+
+function validateCards(raw: unknown, path: string, errors: FieldError[], idPrefix: string): Card[] {
+  if (!Array.isArray(raw)) {
+    errors.push({ path, message: `expected a list of cards, got ${typeName(raw)}` });
+    return [];
+  }
+  const now = Date.now();
+  const cards: Card[] = [];
+  raw.forEach((c, i) => {
+    // Fallback times count up so files without timestamps keep their order
+    const card = validateCard(c, `${path}[${i}]`, errors, `${idPrefix}${now}_${i}`, now - raw.length + i);
+    if (card) cards.push(card);
+  });
+  return cards;
+}
+
+function validateLayout(raw: unknown, path: string, errors: FieldError[], index: number): LayoutEntry | null {
+  if (!isObj(raw)) {
+    errors.push({ path, message: `expected a layout object, got ${typeName(raw)}` });
+    return null;
+  }
+  const before = errors.length;
+  const { id, title } = raw;
+  if (typeof title !== 'string') errors.push({ path: `${path}.title`, message: `expected a string, got ${typeName(title)}` });
+  const savedAt = optionalNumber(raw, 'savedAt', path, errors);
+  const tagColors = validateTagColors(raw.tagColors, `${path}.tagColors`, errors);
+  // Broken cards are reported and dropped without losing the whole layout
+  const cardErrors: FieldError[] = [];
+  const cards = validateCards(raw.cards, `${path}.cards`, cardErrors, `c${index}_`);
+  errors.push(...cardErrors);
+  if (errors.length - cardErrors.length > before || !Array.isArray(raw.cards)) return null;
+  const now = Date.now();
+  return {
+    id: String(id ?? '').trim() || `L${now}_${index}`,
+    title: (title as string).trim() || 'Untitled',
+    savedAt: savedAt ?? now - index,
+    cards: stampOrder(sortCards(cards)),
+    tagColors
+  };
+}
+
+// Left out (with an error) unless both the mode and the palette are valid
+function validateTheme(raw: unknown, path: string, errors: FieldError[]): ThemeSettings | undefined {
+  if (!isObj(raw)) {
+    errors.push({ path, message: `expected an object, got ${typeName(raw)}` });
+    return undefined;
+  }
+  const mode = raw.mode;
+  if (typeof mode !== 'string' || !(mode in THEME_MODES)) {
+    errors.push({ path: `${path}.mode`, message: `expected one of ${Object.keys(THEME_MODES).join(', ')}, got ${JSON.stringify(mode)}` });
+    return undefined;
+  }
+  const custom = paletteOf(raw.custom);
+  if (!custom) {
+    errors.push({ path: `${path}.custom`, message: 'expected a palette of #rrggbb colours' });
+    return undefined;
+  }
+  return { mode: mode as ThemeSettings['mode'], custom };
+}
+
+function validateSettings(raw: unknown, path: string, errors: FieldError[]): DocSettings {
+  if (!isObj(raw)) {
+    errors.push({ path, message: `expected an object, got ${typeName(raw)}` });
+    return {};
+  }
+  const out: DocSettings = {};
+  for (const field of ['layoutTitle', 'author'] as const) {
+    const v = raw[field];
+    if (v === undefined || v === null) continue;
+    if (typeof v === 'string') out[field] = v;
+    else errors.push({ path: `${path}.${field}`, message: `expected a string, got ${typeName(v)}` });
+  }
+
+  if (raw.templateValues !== undefined) {
+    const values: Record<string, Record<string, string>> = {};
+    if (!isObj(raw.templateValues)) {
+      errors.push({ path: `${path}.templateValues`, message: `expected an object, got ${typeName(raw.templateValues)}` });
+    } else {
+      for (const [cardId, vars] of Object.entries(raw.templateValues)) {
+        const p = `${path}.templateValues[${JSON.stringify(cardId)}]`;
+        if (!isObj(vars) || Object.values(vars).some(v => typeof v !== 'string')) {
+          errors.push({ path: p, message: 'expected an object of variable values (strings)' });
+        } else {
+          values[cardId] = vars as Record<string, string>;
+        }
+      }
+    }
+    out.templateValues = values;
+  }
+
+  if (raw.history !== undefined) {
+    const history: HistoryMap = {};
+    if (!isObj(raw.history)) {
+      errors.push({ path: `${path}.history`, message: `expected an object, got ${typeName(raw.history)}` });
+    } else {
+      for (const [cardId, list] of Object.entries(raw.history)) {
+        const p = `${path}.history[${JSON.stringify(cardId)}]`;
+        if (!Array.isArray(list)) {
+          errors.push({ path: p, message: `expected a list of revisions, got ${typeName(list)}` });
+          continue;
+        }
+        const ok = list.filter((r, i): r is Revision => {
+          const valid = isObj(r) && Number.isFinite(r.at) && typeof r.author === 'string'
+            && typeof r.title === 'string' && typeof r.text === 'string';
+          if (!valid) errors.push({ path: `${p}[${i}]`, message: 'expected { at, author, title, text }' });
+          return valid;
+        });
+        if (ok.length) history[cardId] = ok;
+      }
+    }
+    out.history = history;
+  }
+
+  for (const field of SETTINGS_OBJECTS) {
+    const v = raw[field];
+    if (v === undefined || v === null) continue;
+    if (isObj(v)) out[field] = v;
+    else errors.push({ path: `${path}.${field}`, message: `expected an object, got ${typeName(v)}` });
+  }
+  return out;
+}
+
+/**
+ * Check an already-parsed document (any version) and convert it to the
+ * current shape. Never throws for bad fields; see `errors`.
+ */
+export function validateDoc(data: unknown): { doc: ExportDoc; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const doc: ExportDoc = { format: FORMAT, version: FORMAT_VERSION, exportedAt: new Date().toISOString() };
+
+  // Version 0: a bare array of layouts
+  const root: unknown = Array.isArray(data) ? { layouts: data } : data;
+  if (!isObj(root)) throw new ExchangeError(`Expected an object with "cards" or "layouts", got ${typeName(root)}`);
+
+  if (root.format !== undefined && root.format !== FORMAT) {
+    errors.push({ path: 'format', message: `expected "${FORMAT}", got ${JSON.stringify(root.format)}` });
+  }
+  if (root.version !== undefined) {
+    const v = Number(root.version);
+    if (!Number.isInteger(v) || v < 0) errors.push({ path: 'version', message: `expected a whole number, got ${JSON.stringify(root.version)}` });
+    else if (v > FORMAT_VERSION) {
+      throw new ExchangeError(`This file uses format version ${v}; this app reads up to version ${FORMAT_VERSION}. Please update the app.`);
+    }
+  }
+  if (root.cards === undefined && root.layouts === undefined) {
+    throw new ExchangeError('Nothing to import: the file has neither "cards" nor "layouts"');
+  }
+
+  if (root.cards !== undefined) doc.cards = sortCards(validateCards(root.cards, 'cards', errors, 'c'));
+  if (root.layouts !== undefined) {
+    if (!Array.isArray(root.layouts)) {
+      errors.push({ path: 'layouts', message: `expected a list of layouts, got ${typeName(root.layouts)}` });
+    } else {
+      doc.layouts = root.layouts
+        .map((l, i) => validateLayout(l, `layouts[${i}]`, errors, i))
+        .filter((l): l is LayoutEntry => l !== null);
+    }
+  }
+  doc.tagColors = validateTagColors(root.tagColors, 'tagColors', errors);
+  if (root.theme !== undefined) doc.theme = validateTheme(root.theme, 'theme', errors);
+  if (root.settings !== undefined) doc.settings = validateSettings(root.settings, 'settings', errors);
+  return { doc, errors };
+}
+
+// ----------- Markdown -----------
+
+function fence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+// JSON in an HTML comment; "--" can only occur inside JSON strings, where
+// it is escaped so the comment can't end early
+function metaComment(meta: Obj): string {
+  return `<!-- ${JSON.stringify(meta).replace(/--/g, '-\\u002d')} -->`;
+}
+
+function cardToMarkdown(c: Card, level: string): string[] {
+  const f = fence(c.text);
+  const out = [`${level} ${c.title.replace(/\s*\n\s*/g, ' ') || 'Untitled'}`, metaComment({ id: c.id, createdAt: c.createdAt })];
+  if (c.tags?.length) out.push(`Tags: ${c.tags.join(', ')}`);
+  out.push('', f + 'text', c.text, f, '');
+  return out;
+}
+
+function toMarkdown(doc: ExportDoc): string {
+  const out = [metaComment({ format: FORMAT, version: doc.version, exportedAt: doc.exportedAt, tagColors: doc.tagColors, theme: doc.theme }), ''];
+  for (const c of doc.cards ?? []) out.push(...cardToMarkdown(c, '##'));
+  for (const l of doc.layouts ?? []) {
+    out.push(`# ${l.title}`, metaComment({ id: l.id, savedAt: l.savedAt, tagColors: l.tagColors }), '');
+    for (const c of l.cards) out.push(...cardToMarkdown(c, '##'));
+  }
+  return out.join('\n');
+}
+
+const HEADING = /^(#{1,2})\s+(.*?)\s*#*\s*$/;
+const COMMENT = /^<!--\s*(\{.*\})\s*-->\s*$/;
+const FENCE = /^(`{3,}|~{3,})/;
+
+type MdSection = { level: number; title: string; lines: string[]; line: number };
+
+/**
+ * Read Markdown back into a document. "##" headings are cards and "#"
+ * headings layouts; in files without any "##" the "#" headings are cards.
+ * Text is the first fenced block under the heading, or all of the text
+ * under it when there is none.
+ */
+export function parseMarkdown(src: string): Obj {
+  const lines = src.replace(/\r\n?/g, '\n').split('\n');
+  const root: Obj = {};
+  const sections: MdSection[] = [];
+  let inFence: string | null = null;
+
+  lines.forEach((line, n) => {
+    const f = FENCE.exec(line.trimStart());
+    if (inFence) {
+      if (f && line.trim().startsWith(inFence) && line.trim().replace(/[`~]/g, '') === '') inFence = null;
+    } else if (f) {
+      inFence = f[1];
+    } else {
+      const h = HEADING.exec(line);
+      if (h) {
+        sections.push({ level: h[1].length, title: h[2], lines: [], line: n + 1 });
+        return;
+      }
+      if (sections.length === 0) {
+        const m = COMMENT.exec(line.trim());
+        if (m) {
+          try { Object.assign(root, JSON.parse(m[1])); } catch {}
+        }
+        return;
+      }
+    }
+    sections[sections.length - 1]?.lines.push(line);
+  });
+
+  const cardLevel = sections.some(s => s.level === 2) ? 2 : 1;
+  const toCard = (s: MdSection, i: number): Obj => {
+    const body = [...s.lines];
+    const card: Obj = { title: s.title, order: i };
+    // Leading metadata: a JSON comment and/or a "Tags:" line
+    while (body.length && (body[0].trim() === '' || COMMENT.test(body[0].trim()) || /^tags:/i.test(body[0].trim()))) {
+      const line = (body.shift() ?? '').trim();
+      const m = COMMENT.exec(line);
+      if (m) {
+        try { Object.assign(card, JSON.parse(m[1]), { title: s.title, order: i }); } catch {}
+      } else if (line) {
+        card.tags = line.slice(5).trim();
+      }
+    }
+    const open = body.length ? FENCE.exec(body[0].trim()) : null;
+    if (open) {
+      const close = body.findIndex((l, k) => k > 0 && l.trim().startsWith(open[1]) && l.trim().replace(/[`~]/g, '') === '');
+      card.text = body.slice(1, close === -1 ? undefined : close).join('\n');
+    } else {
+      card.text = body.join('\n').trim();
+    }
+    return card;
+  };
+
+  if (cardLevel === 1) {
+    root.cards = sections.map(toCard);
+    return root;
+  }
+
+  const cards: Obj[] = [];
+  const layouts: Obj[] = [];
+  let current: Obj | null = null;
+  sections.forEach(s => {
+    if (s.level === 1) {
+      current = { title: s.title, cards: [] };
+      for (const line of s.lines) {
+        const m = COMMENT.exec(line.trim());
+        if (m) {
+          try { Object.assign(current, JSON.parse(m[1]), { title: s.title, cards: [] }); } catch {}
+          break;
+        }
+      }
+      layouts.push(current);
+    } else {
+      const target = current ? (current.cards as Obj[]) : cards;
+      target.push(toCard(s, target.length));
+    }
+  });
+  if (cards.length || layouts.length === 0) root.cards = cards;
+  if (layouts.length) root.layouts = layouts;
+  return root;
+}
+
+// ----------- CSV -----------
+
+const CARD_COLUMNS = ['title', 'text', 'tags', 'id', 'createdAt'] as const;
+
+function cardRow(c: Card): string[] {
+  return [c.title, c.text, (c.tags ?? []).join(', '), c.id, String(c.createdAt)];
+}
+
+function toCsvText(doc: ExportDoc): string {
+  if (doc.layouts) {
+    return toCsv([
+      ['layout', 'layoutId', ...CARD_COLUMNS],
+      ...doc.layouts.flatMap(l => l.cards.length
+        ? l.cards.map(c => [l.title, l.id, ...cardRow(c)])
+        : [[l.title, l.id, ...CARD_COLUMNS.map(() => '')]])
+    ]);
+  }
+  return toCsv([[...CARD_COLUMNS], ...(doc.cards ?? []).map(cardRow)]);
+}
+
+/** Read CSV rows with a header line; a "layout" column groups rows into layouts. */
+export function parseCsvDoc(src: string): Obj {
+  const [header, ...rows] = parseCsv(src);
+  if (!header) throw new ExchangeError('The CSV file is empty');
+  const cols = header.map(h => h.trim().toLowerCase());
+  const col = (name: string) => cols.indexOf(name.toLowerCase());
+  if (col('title') === -1 || col('text') === -1) {
+    throw new ExchangeError(`CSV needs a header row with "title" and "text" columns (found: ${header.join(', ')})`);
+  }
+  const toCard = (r: string[], i: number): Obj => {
+    const card: Obj = { order: i };
+    for (const name of CARD_COLUMNS) {
+      const k = col(name);
+      if (k !== -1 && r[k] !== undefined) card[name] = r[k];
+    }
+    return card;
+  };
+
+  if (col('layout') === -1 && col('layoutId') === -1) return { cards: rows.map(toCard) };
+
+  const layouts = new Map<string, Obj & { cards: Obj[] }>();
+  for (const r of rows) {
+    const title = r[col('layout')] ?? '';
+    const id = r[col('layoutId')] ?? '';
+    const key = id || title;
+    let l = layouts.get(key);
+    if (!l) {
+      l = { ...(id && { id }), title: title || 'Untitled', cards: [] };
+      layouts.set(key, l);
+    }
+    // A row without card fields only marks an empty layout
+    if (CARD_COLUMNS.some(name => (r[col(name)] ?? '').trim())) l.cards.push(toCard(r, l.cards.length));
+  }
+  return { layouts: [...layouts.values()] };
+}
+
+// ----------- Entry points -----------
+
+export function serializeDoc(doc: ExportDoc, format: ExportFormat): string {
+  if (format === 'markdown') return toMarkdown(doc);
+  if (format === 'csv') return toCsvText(doc);
+  if (format === 'yaml') return toYaml(doc as unknown as Obj);
+  return JSON.stringify(doc, null, 2);
+}
+
+/** Guess the format from the file name, else from the content. */
+export function detectFormat(fileName: string, text: string): ExportFormat {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  if (ext === 'json') return 'json';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'yaml' || ext === 'yml') return 'yaml';
+  const head = text.trimStart();
+  if (head.startsWith('{') || head.startsWith('[')) return 'json';
+  if (/^(#{1,2}\s|<!--)/m.test(head.slice(0, 500))) return 'markdown';
+  if (/^[\w"]+:\s/m.test(head.slice(0, 500))) return 'yaml';
+  return 'csv';
+}
+
+/** Parse and validate a file in any supported format. */
+export function parseDoc(text: string, fileName: string): { doc: ExportDoc; errors: FieldError[]; format: ExportFormat } {
+  const format = detectFormat(fileName, text);
+  let data: unknown;
+  try {
+    if (format === 'json') data = JSON.parse(text);
+    else if (format === 'yaml') data = parseYaml(text);
+    else if (format === 'markdown') data = parseMarkdown(text);
+    else data = parseCsvDoc(text);
+  } catch (err) {
+    if (err instanceof ExchangeError) throw err;
+    const label = EXPORT_FORMATS[format].label;
+    const detail = err instanceof YamlError || err instanceof CsvError || err instanceof SyntaxError ? err.message : String(err);
+    throw new ExchangeError(`Invalid ${label}: ${detail}`);
+  }
+  return { ...validateDoc(data), format };
+}
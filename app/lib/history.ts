@@ -0,0 +1,60 @@
+// Per-card revision history. Kept outside the Card objects (own storage
+// key) so layouts and exports stay small; bounded per card and overall so
+// localStorage doesn't fill up.
+
+export type Revision = {
+  at: number; // epoch ms when this wording was replaced
+  author: string; // who replaced it ('' = unknown)
+  title: string;
+  text: string;
+};
+
+export type HistoryMap = Record<string, Revision[]>; // card id -> oldest..newest
+
+export const MAX_REVISIONS_PER_CARD = 25;
+export const MAX_HISTORY_CHARS = 500_000;
+
+function size(r: Revision): number {
+  return r.title.length + r.text.length + r.author.length;
+}
+
+/** Append `rev` to the card's history, then enforce both limits. */
+export function addRevision(history: HistoryMap, cardId: string, rev: Revision): HistoryMap {
+  const list = [...(history[cardId] ?? []), rev].slice(-MAX_REVISIONS_PER_CARD);
+  return trimHistory({ ...history, [cardId]: list });
+}
+
+/** Drop the globally oldest revisions until the total size fits. */
+export function trimHistory(history: HistoryMap, maxChars = MAX_HISTORY_CHARS): HistoryMap {
+  let total = 0;
+  for (const list of Object.values(history)) for (const r of list) total += size(r);
+  if (total <= maxChars) return history;
+
+  const all = Object.entries(history)
+    .flatMap(([id, list]) => list.map(r => ({ id, r })))
+    .sort((a, b) => a.r.at - b.r.at);
+  const drop = new Set<Revision>();
+  for (const { r } of all) {
+    if (total <= maxChars) break;
+    drop.add(r);
+    total -= size(r);
+  }
+
+  const next: HistoryMap = {};
+  for (const [id, list] of Object.entries(history)) {
+    const kept = list.filter(r => !drop.has(r));
+    if (kept.length) next[id] = kept;
+  }
+  return next;
+}
+
+/** Remove history for cards that no longer exist anywhere. */
+export function pruneHistory(history: HistoryMap, liveIds: Set<string>): HistoryMap {
+  let changed = false;
+  const next: HistoryMap = {};
+  for (const [id, list] of Object.entries(history)) {
+    if (liveIds.has(id)) next[id] = list;
+    else changed = true;
+  }
+  return changed ? next : history;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  actionsFor, addCardPlanAsLayout, applyCardPlan, applyLayoutPlan, planCards, planLayouts, planSummary,
+  type ImportItem
+} from './importer';
+import type { Card, LayoutEntry } from './types';
+
+const card = (id: string, title: string, text = `${title} text`, tags?: string[]): Card => ({ id, title, text, createdAt: 1, tags });
+const layout = (id: string, title: string, cards: Card[]): LayoutEntry => ({ id, title, savedAt: 0, cards });
+
+function cardItems(existing: Card[], incoming: Card[]): ImportItem<Card>[] {
+  const plan = planCards(existing, incoming, {});
+  if (plan.kind !== 'cards') throw new Error('expected a card plan');
+  return plan.items;
+}
+
+function layoutItems(existing: LayoutEntry[], incoming: LayoutEntry[]): ImportItem<LayoutEntry>[] {
+  const plan = planLayouts(existing, incoming);
+  if (plan.kind !== 'layouts') throw new Error('expected a layout plan');
+  return plan.items;
+}
+
+describe('planCards', () => {
+  const existing = [card('a', 'Alpha'), card('b', 'Beta')];
+
+  it('sorts incoming cards into new, duplicate and conflict', () => {
+    const items = cardItems(existing, [
+      card('x', 'Gamma'),
+      card('y', ' Alpha ', 'Alpha text '), // same content, other id
+      card('b', 'Beta', 'changed'), // same id
+      card('z', 'ALPHA', 'other') // same title
+    ]);
+    expect(items.map(i => [i.status, i.match?.id ?? null, i.action])).toEqual([
+      ['new', null, 'both'],
+      ['duplicate', 'a', 'skip'],
+      ['conflict', 'b', 'merge'],
+      ['conflict', 'a', 'merge']
+    ]);
+  });
+
+  it('treats a repeat inside the file as a duplicate', () => {
+    expect(cardItems([], [card('x', 'Same'), card('y', 'Same')]).map(i => i.status)).toEqual(['new', 'duplicate']);
+  });
+
+  it('counts statuses for the summary', () => {
+    expect(planSummary(planCards(existing, [card('x', 'New'), card('a', 'Alpha')], {}))).toEqual({ new: 1, duplicate: 1, conflict: 0 });
+  });
+});
+
+describe('actionsFor', () => {
+  it('only offers adding or skipping new items', () => {
+    expect(actionsFor('new')).toEqual(['both', 'skip']);
+    expect(actionsFor('conflict')).toEqual(['skip', 'overwrite', 'merge', 'both']);
+  });
+});
+
+describe('applyCardPlan', () => {
+  const existing = [card('a', 'Alpha', 'old', ['work']), card('b', 'Beta')];
+
+  it('overwrites content but keeps the existing id', () => {
+    const items = cardItems(existing, [card('z', 'Alpha', 'new')]).map(i => ({ ...i, action: 'overwrite' as const }));
+    expect(applyCardPlan(existing, items)[0]).toEqual({ ...card('z', 'Alpha', 'new'), id: 'a' });
+  });
+
+  it('merges tags into the existing card', () => {
+    const items = cardItems(existing, [card('z', 'Alpha', 'new', ['home', 'work'])]);
+    expect(applyCardPlan(existing, items)[0]).toMatchObject({ text: 'old', tags: ['work', 'home'] });
+  });
+
+  it('adds a kept copy after its match under a fresh id', () => {
+    const items = cardItems(existing, [card('a', 'Alpha', 'new')]).map(i => ({ ...i, action: 'both' as const }));
+    const out = applyCardPlan(existing, items);
+    expect(out.map(c => c.title)).toEqual(['Alpha', 'Alpha', 'Beta']);
+    expect(new Set(out.map(c => c.id)).size).toBe(3);
+  });
+
+  it('appends new cards and leaves skipped ones out', () => {
+    const items = cardItems(existing, [card('n', 'New'), card('b', 'Beta')]);
+    expect(applyCardPlan(existing, items).map(c => c.id)).toEqual(['a', 'b', 'n']);
+  });
+});
+
+describe('applyLayoutPlan', () => {
+  const existing = [layout('L1', 'Daily', [card('a', 'Alpha')])];
+
+  it('merges in only the cards the layout lacks', () => {
+    const items = layoutItems(existing, [layout('L9', 'Daily', [card('a', 'Alpha'), card('n', 'New')])]);
+    expect(items[0].action).toBe('merge');
+    const out = applyLayoutPlan(existing, items);
+    expect(out[0].cards.map(c => [c.title, c.order])).toEqual([['Alpha', 0], ['New', 1]]);
+  });
+
+  it('overwrites a layout keeping its id and title', () => {
+    const items = layoutItems(existing, [layout('L1', 'Renamed', [card('n', 'New')])]).map(i => ({ ...i, action: 'overwrite' as const }));
+    expect(applyLayoutPlan(existing, items)[0]).toMatchObject({ id: 'L1', title: 'Daily', cards: [{ id: 'n' }] });
+  });
+
+  it('numbers the title of a kept copy', () => {
+    const items = layoutItems(existing, [layout('L1', 'Daily', [])]).map(i => ({ ...i, action: 'both' as const }));
+    const out = applyLayoutPlan(existing, items);
+    expect(out.map(l => l.title)).toEqual(['Daily', 'Daily (2)']);
+    expect(out[1].id).not.toBe('L1');
+  });
+});
+
+describe('addCardPlanAsLayout', () => {
+  it('saves every card not skipped as a new layout', () => {
+    const items = cardItems([], [card('a', 'One', 'x', ['work']), card('b', 'Two')]);
+    items[1].action = 'skip';
+    const out = addCardPlanAsLayout([layout('L1', 'Imported prompts', [])], ' ', items, { work: '#3366ff' });
+    expect(out[1]).toMatchObject({
+      title: 'Imported prompts (2)',
+      cards: [{ id: 'a', order: 0 }],
+      tagColors: { work: '#3366ff' }
+    });
+  });
+});
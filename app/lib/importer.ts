@@ -0,0 +1,191 @@
+import { uniqueTitle } from './layouts';
+import { stampOrder } from './order';
+import { colorsFor, normalizeTags, type TagColors } from './tags';
+import type { Card, LayoutEntry } from './types';
+
+// Import wizard logic. Once a file has been read (see lib/exchange.ts), each
+// incoming item is compared with what is already there, and the user picks what to
+// do per item before anything is written:
+//   skip       leave the existing item alone
+//   overwrite  replace the matching item with the imported one
+//   merge      cards: keep the text, add the imported tags;
+//              layouts: add the imported cards the layout doesn't have yet
+//   both       add the imported item next to the existing one
+// Items without a match can only be added or skipped.
+//
+// Cards can also go into a new saved layout instead of the page; then every
+// item that isn't skipped is added to it as imported.
+
+export type ImportAction = 'skip' | 'overwrite' | 'merge' | 'both';
+
+export type ImportStatus =
+  | 'new' // nothing similar exists
+  | 'duplicate' // same content already exists
+  | 'conflict'; // same id or title, different content
+
+export type ImportItem<T> = {
+  key: string; // stable row key for the wizard
+  incoming: T;
+  match: T | null; // existing item it was matched with
+  status: ImportStatus;
+  action: ImportAction; // 'both' on a new item means "add"
+};
+
+export type ImportPlan =
+  | { kind: 'cards'; items: ImportItem<Card>[]; tagColors: TagColors }
+  | { kind: 'layouts'; items: ImportItem<LayoutEntry>[] };
+
+/** Actions that make sense for an item with the given status. */
+export function actionsFor(status: ImportStatus): ImportAction[] {
+  return status === 'new' ? ['both', 'skip'] : ['skip', 'overwrite', 'merge', 'both'];
+}
+
+function defaultAction(status: ImportStatus): ImportAction {
+  if (status === 'new') return 'both';
+  if (status === 'duplicate') return 'skip';
+  return 'merge';
+}
+
+// ----------- Matching -----------
+
+// Content identity ignores ids, timestamps, order and surrounding whitespace
+function cardKey(c: Card): string {
+  return c.title.trim() + '\u0000' + c.text.trim();
+}
+
+function layoutKey(l: LayoutEntry): string {
+  return l.title.trim() + '\u0001' + l.cards.map(cardKey).join('\u0001');
+}
+
+function plan<T extends { id: string; title: string }>(
+  existing: T[],
+  incoming: T[],
+  key: (x: T) => string
+): ImportItem<T>[] {
+  const byKey = new Map(existing.map(x => [key(x), x]));
+  const byId = new Map(existing.map(x => [x.id, x]));
+  const byTitle = new Map(existing.map(x => [x.title.trim().toLowerCase(), x]));
+  const seen = new Set<string>();
+  return incoming.map((x, i) => {
+    const k = key(x);
+    const same = byKey.get(k) ?? null;
+    // A repeat inside the file itself counts as a duplicate of its first copy
+    const repeat = seen.has(k);
+    seen.add(k);
+    const match = same ?? byId.get(x.id) ?? byTitle.get(x.title.trim().toLowerCase()) ?? null;
+    const status: ImportStatus = same || repeat ? 'duplicate' : match ? 'conflict' : 'new';
+    return { key: `${i}:${x.id}`, incoming: x, match, status, action: defaultAction(status) };
+  });
+}
+
+/** Compare imported cards with the cards on the page. */
+export function planCards(existing: Card[], incoming: Card[], tagColors: TagColors): ImportPlan {
+  return { kind: 'cards', items: plan(existing, incoming, cardKey), tagColors };
+}
+
+/** Compare imported layouts with the saved library. */
+export function planLayouts(existing: LayoutEntry[], incoming: LayoutEntry[]): ImportPlan {
+  return { kind: 'layouts', items: plan(existing, incoming, layoutKey) };
+}
+
+// ----------- Applying -----------
+
+function freshId(prefix: string, taken: Set<string>): string {
+  let n = 0;
+  let id = prefix + Date.now();
+  while (taken.has(id)) id = `${prefix}${Date.now()}_${++n}`;
+  taken.add(id);
+  return id;
+}
+
+function mergeCard(current: Card, incoming: Card): Card {
+  return { ...current, tags: normalizeTags([...(current.tags ?? []), ...(incoming.tags ?? [])]) };
+}
+
+/** Apply the chosen actions to the page's cards. */
+export function applyCardPlan(existing: Card[], items: ImportItem<Card>[]): Card[] {
+  const out = [...existing];
+  const taken = new Set(existing.map(c => c.id));
+  for (const { incoming, match, action } of items) {
+    if (action === 'skip') continue;
+    const at = match ? out.findIndex(c => c.id === match.id) : -1;
+    if (at !== -1 && action === 'overwrite') {
+      out[at] = { ...incoming, id: out[at].id };
+    } else if (at !== -1 && action === 'merge') {
+      out[at] = mergeCard(out[at], incoming);
+    } else {
+      const card = taken.has(incoming.id) ? { ...incoming, id: freshId('c', taken) } : incoming;
+      taken.add(card.id);
+      // A kept-both copy goes right after the card it matched
+      if (at !== -1) out.splice(at + 1, 0, card);
+      else out.push(card);
+    }
+  }
+  return out;
+}
+
+function mergeLayout(current: LayoutEntry, incoming: LayoutEntry): LayoutEntry {
+  const have = new Set(current.cards.map(cardKey));
+  const taken = new Set(current.cards.map(c => c.id));
+  const added = incoming.cards
+    .filter(c => !have.has(cardKey(c)))
+    .map(c => (taken.has(c.id) ? { ...c, id: freshId('c', taken) } : c));
+  return {
+    ...current,
+    cards: stampOrder([...current.cards, ...added]),
+    tagColors: { ...incoming.tagColors, ...current.tagColors }
+  };
+}
+
+/** Apply the chosen actions to the saved library. */
+export function applyLayoutPlan(existing: LayoutEntry[], items: ImportItem<LayoutEntry>[]): LayoutEntry[] {
+  const out = [...existing];
+  const ids = new Set(existing.map(l => l.id));
+  const titles = new Set(existing.map(l => l.title));
+  for (const { incoming, match, action } of items) {
+    if (action === 'skip') continue;
+    const at = match ? out.findIndex(l => l.id === match.id) : -1;
+    if (at !== -1 && action === 'overwrite') {
+      out[at] = { ...incoming, id: out[at].id, title: out[at].title };
+    } else if (at !== -1 && action === 'merge') {
+      out[at] = mergeLayout(out[at], incoming);
+    } else {
+      const id = ids.has(incoming.id) ? freshId('L', ids) : incoming.id;
+      ids.add(id);
+      out.push({ ...incoming, id, title: uniqueTitle(incoming.title, titles) });
+    }
+  }
+  return out;
+}
+
+/** Save the chosen cards as a new layout in the library. */
+export function addCardPlanAsLayout(
+  existing: LayoutEntry[],
+  title: string,
+  items: ImportItem<Card>[],
+  tagColors: TagColors
+): LayoutEntry[] {
+  const taken = new Set<string>();
+  const cards = items
+    .filter(i => i.action !== 'skip')
+    .map(({ incoming }) => {
+      const card = taken.has(incoming.id) ? { ...incoming, id: freshId('c', taken) } : incoming;
+      taken.add(card.id);
+      return card;
+    });
+  const layout: LayoutEntry = {
+    id: freshId('L', new Set(existing.map(l => l.id))),
+    title: uniqueTitle(title.trim() || 'Imported prompts', new Set(existing.map(l => l.title))),
+    savedAt: Date.now(),
+    cards: stampOrder(cards),
+    tagColors: colorsFor(cards, tagColors)
+  };
+  return [...existing, layout];
+}
+
+/** Counts per status, for the wizard summary line. */
+export function planSummary(plan: ImportPlan): Record<ImportStatus, number> {
+  const counts: Record<ImportStatus, number> = { new: 0, duplicate: 0, conflict: 0 };
+  for (const item of plan.items) counts[item.status]++;
+  return counts;
+}
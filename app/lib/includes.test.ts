@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_INCLUDES, dependentsOf, describeCycle, includeDirective, includeSource, includesOf, resolveIncludes
+} from './includes';
+import type { Card, LayoutEntry } from './types';
+
+const card = (id: string, text: string, title = id): Card => ({ id, title, text, createdAt: 1 });
+const source = (...cards: Card[]) => new Map(cards.map(c => [c.id, c]));
+
+describe('includesOf', () => {
+  it('lists directly included ids once, in order', () => {
+    expect(includesOf(`${includeDirective('b')} {{>a}} {{> b }} {{topic}}`)).toEqual(['b', 'a']);
+  });
+});
+
+describe('includeSource', () => {
+  it('prefers page cards over layout copies with the same id', () => {
+    const layouts: LayoutEntry[] = [{ id: 'L', title: 'L', savedAt: 0, cards: [card('a', 'old'), card('b', 'saved only')] }];
+    const byId = includeSource([card('a', 'new')], layouts);
+    expect(byId.get('a')?.text).toBe('new');
+    expect(byId.get('b')?.text).toBe('saved only');
+  });
+});
+
+describe('resolveIncludes', () => {
+  it('expands includes recursively', () => {
+    const src = source(card('pre', 'Be brief. {{> rules}}'), card('rules', 'No jargon.'));
+    const r = resolveIncludes(card('main', '{{> pre}}\nSummarize {{topic}}'), src);
+    expect(r.text).toBe('Be brief. No jargon.\nSummarize {{topic}}');
+    expect(r.included).toEqual(['pre', 'rules']);
+    expect(r).toMatchObject({ missing: [], cycle: null, tooLarge: false });
+  });
+
+  it('leaves includes of missing cards in the text', () => {
+    const r = resolveIncludes(card('main', 'x {{> gone}}'), source());
+    expect(r.text).toBe('x {{> gone}}');
+    expect(r.missing).toEqual(['gone']);
+  });
+
+  it('reports the path of a cycle', () => {
+    const src = source(card('a', '{{> b}}'), card('b', '{{> a}}'));
+    expect(resolveIncludes(src.get('a')!, src).cycle).toEqual(['a', 'b', 'a']);
+  });
+
+  it('stops after MAX_INCLUDES includes', () => {
+    // Each level includes the next twice: 2^10 includes in all
+    const levels = Array.from({ length: 11 }, (_, i) => card(`l${i}`, i === 10 ? 'leaf' : `{{> l${i + 1}}}{{> l${i + 1}}}`));
+    const r = resolveIncludes(levels[0], source(...levels));
+    expect(r.tooLarge).toBe(true);
+    expect(r.text.split('leaf').length - 1).toBeLessThanOrEqual(MAX_INCLUDES);
+  });
+
+  it('is not too large at exactly MAX_INCLUDES includes', () => {
+    const text = Array.from({ length: MAX_INCLUDES }, () => '{{> leaf}}').join('');
+    const r = resolveIncludes(card('main', text), source(card('leaf', '.')));
+    expect(r.tooLarge).toBe(false);
+    expect(r.text).toBe('.'.repeat(MAX_INCLUDES));
+  });
+});
+
+describe('dependentsOf', () => {
+  it('finds cards including a card directly or indirectly', () => {
+    const cards = [card('base', 'x'), card('mid', '{{> base}}'), card('top', '{{> mid}}'), card('other', 'y')];
+    expect(dependentsOf('base', cards).map(c => c.id)).toEqual(['mid', 'top']);
+  });
+});
+
+describe('describeCycle', () => {
+  it('joins titles with arrows', () => {
+    const src = source(card('a', '', 'Preamble'), card('b', '', ''));
+    expect(describeCycle(['a', 'b', 'a'], src)).toBe('Preamble → Untitled → Preamble');
+  });
+});
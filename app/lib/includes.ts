@@ -0,0 +1,97 @@
+import type { Card, LayoutEntry } from './types';
+
+// Cards that include other cards. "{{> id}}" in a card's text stands for
+// the text of the card with that id, so a shared preamble is written once.
+// Includes are resolved when a card is copied or previewed, recursively;
+// a card that (indirectly) includes itself is a cycle and can't be
+// resolved. The directive is left alone by the template parser, so the
+// included text's {{placeholders}} are filled in with the card's own.
+// Expansion stops after MAX_INCLUDES includes, since a card including
+// another twice, which includes a third twice, and so on, grows
+// exponentially.
+
+const INCLUDE = /\{\{>\s*([^\s{}]+)\s*\}\}/g;
+
+export const MAX_INCLUDES = 500;
+
+/** The directive that includes `id`. */
+export function includeDirective(id: string): string {
+  return `{{> ${id}}}`;
+}
+
+/** A card offered in the "Include a prompt" picker. */
+export type IncludeOption = { id: string; title: string };
+
+/** Ids included directly by `text`, in order, without repeats. */
+export function includesOf(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(INCLUDE), m => m[1]))];
+}
+
+/**
+ * Cards an include can refer to: the page's, then those only found in
+ * saved layouts.
+ */
+export function includeSource(cards: Card[], layouts: LayoutEntry[]): Map<string, Card> {
+  const byId = new Map<string, Card>();
+  for (const l of layouts) for (const c of l.cards) byId.set(c.id, c);
+  for (const c of cards) byId.set(c.id, c);
+  return byId;
+}
+
+export type Resolved = {
+  text: string;
+  included: string[]; // ids pulled in, at any depth
+  missing: string[]; // ids no card has; their directives are left in the text
+  cycle: string[] | null; // ids from the card back to itself, when there is one
+  tooLarge: boolean; // MAX_INCLUDES reached; later directives are left in the text
+};
+
+/** Expand the includes in `card`'s text. */
+export function resolveIncludes(card: Pick<Card, 'id' | 'text'>, source: Map<string, Card>): Resolved {
+  const included = new Set<string>();
+  const missing = new Set<string>();
+  let cycle: string[] | null = null;
+  let expanded = 0;
+  let tooLarge = false;
+
+  function expand(text: string, path: string[]): string {
+    return text.replace(INCLUDE, (directive, id: string) => {
+      if (expanded >= MAX_INCLUDES) {
+        tooLarge = true;
+        return directive;
+      }
+      if (path.includes(id)) {
+        cycle = cycle ?? [...path.slice(path.indexOf(id)), id];
+        return directive;
+      }
+      const target = source.get(id);
+      if (!target) {
+        missing.add(id);
+        return directive;
+      }
+      included.add(id);
+      expanded++;
+      return expand(target.text, [...path, id]);
+    });
+  }
+
+  const text = expand(card.text, [card.id]);
+  return { text, included: [...included], missing: [...missing], cycle, tooLarge };
+}
+
+/** Cards whose text includes `id`, directly or through other cards. */
+export function dependentsOf(id: string, cards: Card[]): Card[] {
+  const found = new Set<string>();
+  let frontier = [id];
+  while (frontier.length) {
+    const next = cards.filter(c => !found.has(c.id) && c.id !== id && includesOf(c.text).some(x => frontier.includes(x)));
+    next.forEach(c => found.add(c.id));
+    frontier = next.map(c => c.id);
+  }
+  return cards.filter(c => found.has(c.id));
+}
+
+/** "Preamble → Rules → Preamble", for messages about a cycle. */
+export function describeCycle(cycle: string[], source: Map<string, Card>): string {
+  return cycle.map(id => source.get(id)?.title || 'Untitled').join(' → ');
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  duplicateLayout, hasUnsavedChanges, nextUniqueTitle, overwriteLayout, renameLayout, sortLayouts, uniqueTitle
+} from './layouts';
+import type { Card, LayoutEntry } from './types';
+
+const card = (id: string, order?: number): Card => ({ id, title: id, text: `text ${id}`, createdAt: 1, order });
+const layout = (id: string, title: string, savedAt = 0, cards: Card[] = []): LayoutEntry => ({ id, title, savedAt, cards });
+
+describe('uniqueTitle', () => {
+  it('keeps a free title and records it as taken', () => {
+    const taken = new Set<string>();
+    expect(uniqueTitle('Daily', taken)).toBe('Daily');
+    expect(taken.has('Daily')).toBe(true);
+  });
+
+  it('numbers taken titles from 2', () => {
+    expect(uniqueTitle('Daily', new Set(['Daily', 'Daily (2)']))).toBe('Daily (3)');
+  });
+
+  it('counts on from an existing number', () => {
+    expect(uniqueTitle('Daily (4)', new Set(['Daily (4)']))).toBe('Daily (5)');
+  });
+
+  it('gives every title in a batch its own number', () => {
+    const taken = new Set(['A']);
+    expect(['A', 'A', 'A'].map(t => uniqueTitle(t, taken))).toEqual(['A (2)', 'A (3)', 'A (4)']);
+  });
+});
+
+describe('nextUniqueTitle', () => {
+  it('uses "Untitled" for a blank base', () => {
+    expect(nextUniqueTitle([layout('1', 'Untitled')], '  ')).toBe('Untitled (2)');
+  });
+});
+
+describe('hasUnsavedChanges', () => {
+  it('compares the page with the layout in its saved order', () => {
+    const saved = layout('1', 'L', 0, [card('b', 1), card('a', 0)]);
+    expect(hasUnsavedChanges([card('a', 0), card('b', 1)], saved)).toBe(false);
+    expect(hasUnsavedChanges([card('b', 1), card('a', 0)], saved)).toBe(true);
+  });
+});
+
+describe('overwriteLayout', () => {
+  it('replaces only the matching layout, stamping card order', () => {
+    const list = [layout('1', 'One'), layout('2', 'Two')];
+    const out = overwriteLayout(list, '2', [card('x'), card('y')], { work: '#fff' });
+    expect(out[0]).toBe(list[0]);
+    expect(out[1].cards.map(c => c.order)).toEqual([0, 1]);
+    expect(out[1].tagColors).toEqual({ work: '#fff' });
+    expect(out[1].title).toBe('Two');
+  });
+});
+
+describe('renameLayout', () => {
+  it('makes the title unique among the other layouts', () => {
+    const list = [layout('1', 'One'), layout('2', 'Two')];
+    expect(renameLayout(list, '2', 'One').title).toBe('One (2)');
+    expect(renameLayout(list, '1', 'One').title).toBe('One');
+  });
+});
+
+describe('duplicateLayout', () => {
+  it('inserts a numbered copy right after the original', () => {
+    const list = [layout('1', 'One'), layout('2', 'Two')];
+    const { layouts, copy } = duplicateLayout(list, '1');
+    expect(layouts.map(l => l.title)).toEqual(['One', 'One copy', 'Two']);
+    expect(copy?.id).not.toBe('1');
+    expect(duplicateLayout(layouts, '1').copy?.title).toBe('One copy (2)');
+  });
+
+  it('returns no copy for an unknown id', () => {
+    expect(duplicateLayout([], 'x')).toEqual({ layouts: [], copy: null });
+  });
+});
+
+describe('sortLayouts', () => {
+  const list = [layout('1', 'b 10', 2, [card('x')]), layout('2', 'B 9', 3), layout('3', 'a', 1, [card('y'), card('z')])];
+  const titles = (l: LayoutEntry[]) => l.map(x => x.title);
+
+  it('keeps the saved order', () => {
+    expect(sortLayouts(list, 'saved')).toBe(list);
+  });
+
+  it('sorts by title, ignoring case and comparing numbers', () => {
+    expect(titles(sortLayouts(list, 'title'))).toEqual(['a', 'B 9', 'b 10']);
+  });
+
+  it('sorts by recency and size', () => {
+    expect(titles(sortLayouts(list, 'recent'))).toEqual(['B 9', 'b 10', 'a']);
+    expect(titles(sortLayouts(list, 'size'))).toEqual(['a', 'b 10', 'B 9']);
+  });
+});
@@ -0,0 +1,82 @@
+import { sortCards, stampOrder } from './order';
+import { serialize } from './sync';
+import type { Card, LayoutEntry } from './types';
+
+// Saved layouts in the Library. Titles are unique, so the page remembers
+// which layout is open by its title (see Snapshot in lib/undo.ts).
+
+/**
+ * `title`, or "title (2)", "title (3)"… when it is taken; a title that
+ * already ends in " (n)" counts on from n. The result is added to `taken`.
+ */
+export function uniqueTitle(title: string, taken: Set<string>): string {
+  let out = title;
+  if (taken.has(out)) {
+    const numbered = /^(.*) \((\d+)\)$/.exec(title);
+    const stem = numbered ? numbered[1] : title;
+    let n = numbered ? Number(numbered[2]) + 1 : 2;
+    while (taken.has(out = `${stem} (${n})`)) n++;
+  }
+  taken.add(out);
+  return out;
+}
+
+/** `base` (or "Untitled"), numbered until no saved layout has that title. */
+export function nextUniqueTitle(layouts: LayoutEntry[], base: string): string {
+  return uniqueTitle(base.trim() || 'Untitled', new Set(layouts.map(l => l.title)));
+}
+
+/** True when the page cards differ from what `layout` holds. */
+export function hasUnsavedChanges(cards: Card[], layout: LayoutEntry): boolean {
+  return serialize(cards) !== serialize(sortCards(layout.cards));
+}
+
+/** Replace a layout's cards with the page's, keeping its id and title. */
+export function overwriteLayout(
+  layouts: LayoutEntry[],
+  id: string,
+  cards: Card[],
+  tagColors: Record<string, string>
+): LayoutEntry[] {
+  return layouts.map(l => (l.id === id ? { ...l, savedAt: Date.now(), cards: stampOrder(cards), tagColors } : l));
+}
+
+/** Rename a layout; the title is made unique among the others. */
+export function renameLayout(layouts: LayoutEntry[], id: string, title: string): { layouts: LayoutEntry[]; title: string } {
+  const unique = nextUniqueTitle(layouts.filter(l => l.id !== id), title);
+  return { layouts: layouts.map(l => (l.id === id ? { ...l, title: unique } : l)), title: unique };
+}
+
+/** Copy a layout under a fresh id and "… copy" title, right after the original. */
+export function duplicateLayout(layouts: LayoutEntry[], id: string): { layouts: LayoutEntry[]; copy: LayoutEntry | null } {
+  const i = layouts.findIndex(l => l.id === id);
+  if (i === -1) return { layouts, copy: null };
+  const copy: LayoutEntry = {
+    ...layouts[i],
+    id: 'L' + Date.now(),
+    title: nextUniqueTitle(layouts, `${layouts[i].title} copy`),
+    savedAt: Date.now()
+  };
+  return { layouts: [...layouts.slice(0, i + 1), copy, ...layouts.slice(i + 1)], copy };
+}
+
+// ----------- Sorting (Library) -----------
+
+export type LayoutSort = 'saved' | 'recent' | 'title' | 'size';
+
+export const LAYOUT_SORTS: Record<LayoutSort, string> = {
+  saved: 'Order added',
+  recent: 'Recently saved',
+  title: 'Title',
+  size: 'Most prompts'
+};
+
+export function sortLayouts(layouts: LayoutEntry[], sort: LayoutSort): LayoutEntry[] {
+  if (sort === 'saved') return layouts;
+  const compare: Record<Exclude<LayoutSort, 'saved'>, (a: LayoutEntry, b: LayoutEntry) => number> = {
+    recent: (a, b) => b.savedAt - a.savedAt,
+    title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+    size: (a, b) => b.cards.length - a.cards.length
+  };
+  return [...layouts].sort(compare[sort]);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, renderInline, renderMarkdown } from './markdown';
+
+describe('renderInline', () => {
+  it('renders bold, italic, strikethrough and nested emphasis', () => {
+    expect(renderInline('**bold** *it* _it_ ~~gone~~')).toBe('<strong>bold</strong> <em>it</em> <em>it</em> <del>gone</del>');
+    expect(renderInline('**bold _and_ more**')).toBe('<strong>bold <em>and</em> more</strong>');
+    expect(renderInline('*see **this** one*')).toBe('<em>see <strong>this</strong> one</em>');
+    expect(renderInline('~~**both**~~')).toBe('<del><strong>both</strong></del>');
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(renderInline('snake_case_name')).toBe('snake_case_name');
+  });
+
+  it('leaves code spans as typed', () => {
+    expect(renderInline('run `a **b** <c>` now')).toBe('run <code>a **b** &lt;c&gt;</code> now');
+  });
+
+  it('keeps emphasis markers in URLs out of the emphasis passes', () => {
+    expect(renderInline('[docs](https://docs.python.org/3/library/__main__.html)'))
+      .toBe('<a href="https://docs.python.org/3/library/__main__.html">docs</a>');
+    expect(renderInline('[a](https://x.com/*a*) [b](https://x.com/~~b~~)'))
+      .toBe('<a href="https://x.com/*a*">a</a> <a href="https://x.com/~~b~~">b</a>');
+  });
+
+  it('nests emphasis and links properly', () => {
+    expect(renderInline('[a](https://x.com/__a) and __b__'))
+      .toBe('<a href="https://x.com/__a">a</a> and <strong>b</strong>');
+    expect(renderInline('**[a](/a)** [*b*](/b)')).toBe('<strong><a href="/a">a</a></strong> <a href="/b"><em>b</em></a>');
+  });
+
+  it('escapes the href exactly once', () => {
+    expect(renderInline('[q](https://x.com/?a=1&b="2")')).toBe('<a href="https://x.com/?a=1&amp;b=&quot;2&quot;">q</a>');
+  });
+
+  it('does not link javascript: or data: URLs', () => {
+    expect(renderInline('[x](javascript:alert(1))')).not.toContain('<a');
+    expect(renderInline('[x](data:text/html,<b>hi</b>)')).toBe('[x](data:text/html,&lt;b&gt;hi&lt;/b&gt;)');
+    expect(renderInline('[x]( JavaScript:void(0))')).not.toContain('href');
+  });
+
+  it('escapes raw HTML', () => {
+    expect(renderInline('<img src=x onerror=alert(1)>')).toBe(escapeHtml('<img src=x onerror=alert(1)>'));
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders blocks', () => {
+    expect(renderMarkdown('# Title\n\nline one\nline two\n\n- a\n- b\n\n3. c\n\n> quoted\n\n---'))
+      .toBe([
+        '<h1>Title</h1>',
+        '<p>line one<br>line two</p>',
+        '<ul><li>a</li><li>b</li></ul>',
+        '<ol start="3"><li>c</li></ol>',
+        '<blockquote><p>quoted</p></blockquote>',
+        '<hr>'
+      ].join('\n'));
+  });
+
+  it('renders tables with alignment and escaped pipes', () => {
+    expect(renderMarkdown('| a | b |\n| :- | -: |\n| x \\| y | z |'))
+      .toBe('<table><thead><tr><th style="text-align:left">a</th><th style="text-align:right">b</th></tr></thead>'
+        + '<tbody><tr><td style="text-align:left">x | y</td><td style="text-align:right">z</td></tr></tbody></table>');
+  });
+
+  it('passes fenced code to the highlighter, escaped otherwise', () => {
+    expect(renderMarkdown('```ts\nconst a = 1 < 2;\n```')).toBe('<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>');
+    expect(renderMarkdown('```py\nx\n```', { highlight: (code, lang) => `[${lang}:${code}]` }))
+      .toBe('<pre><code class="language-py">[py:x]</code></pre>');
+  });
+});
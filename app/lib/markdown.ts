@@ -0,0 +1,192 @@
+// Small Markdown-to-HTML renderer for prompt text: headings, paragraphs,
+// block quotes, lists, tables, fenced and indented code, horizontal rules,
+// and inline code, bold, italic, strikethrough and links. Everything else
+// is escaped and shown as typed; raw HTML in the source is never passed
+// through.
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, ch => ESCAPES[ch]);
+}
+
+// Only links that can't run script
+function safeUrl(url: string): string | null {
+  return /^(https?:|mailto:|#|\/)/i.test(url.trim()) ? url.trim() : null;
+}
+
+// Bold, italic and strikethrough in already escaped text
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/(\*\*|__)(\S(?:.*?\S)?)\1/g, '<strong>$2</strong>')
+    .replace(/(^|[^\w*])\*(\S(?:.*?\S)?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(\S(?:.*?\S)?)~~/g, '<del>$1</del>');
+}
+
+/** Inline Markdown of one paragraph or heading, as HTML. */
+export function renderInline(src: string): string {
+  // Code spans and links are set aside first, so emphasis never reaches
+  // into code or a URL; "\u0000n\u0000" marks where each one goes back
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+  const text = src
+    .replace(/\u0000/g, '')
+    .replace(/(`+)([^`]+?)\1(?!`)|\[([^\]]+)\]\(([^)\s]+)\)/g, (m, ticks: string, code: string, label: string, url: string) => {
+      if (ticks) return hold(`<code>${escapeHtml(code.trim() || code)}</code>`);
+      const href = safeUrl(url);
+      return href ? hold(`<a href="${escapeHtml(href)}">${renderEmphasis(escapeHtml(label))}</a>`) : m;
+    });
+  return renderEmphasis(escapeHtml(text)).replace(/\u0000(\d+)\u0000/g, (_, n: string) => held[Number(n)]);
+}
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^(\s*)[-*+]\s+(.*)$/;
+const NUMBERED = /^(\s*)(\d+)[.)]\s+(.*)$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_RULE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export type MarkdownOptions = {
+  // Fenced code as HTML (see lib/syntax.ts); it must escape the code itself
+  highlight?: (code: string, lang: string) => string;
+};
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BULLET.test(line) || NUMBERED.test(line) || QUOTE.test(line);
+}
+
+// A header row with pipes, then a "| --- | :-: |" row
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_RULE.test(lines[i + 1]);
+}
+
+// "\|" is a literal pipe inside a cell
+function tableCells(line: string): string[] {
+  const cells = line.trim().replace(/^\|/, '').replace(/\|$/, '').replace(/\\\|/g, '\u0000').split('|');
+  return cells.map(c => c.replace(/\u0000/g, '|').trim());
+}
+
+function renderTable(header: string, rule: string, rows: string[]): string {
+  const align = tableCells(rule).map(c => {
+    const left = c.startsWith(':');
+    const right = c.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+  });
+  const cell = (tag: string, text: string, col: number) =>
+    `<${tag}${align[col] ? ` style="text-align:${align[col]}"` : ''}>${renderInline(text)}</${tag}>`;
+  const head = tableCells(header);
+  const body = rows.map(r => {
+    const cells = tableCells(r);
+    // Rows are padded or cut to the header's width
+    return `<tr>${head.map((_, col) => cell('td', cells[col] ?? '', col)).join('')}</tr>`;
+  });
+  return `<table><thead><tr>${head.map((h, col) => cell('th', h, col)).join('')}</tr></thead>`
+    + (body.length ? `<tbody>${body.join('')}</tbody>` : '') + '</table>';
+}
+
+/** Render Markdown as an HTML fragment. */
+export function renderMarkdown(src: string, options: MarkdownOptions = {}): string {
+  const lines = src.replace(/\r\n?/g, '\n').split('\n');
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fence[1]) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      const lang = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+      const code = options.highlight ? options.highlight(body.join('\n'), fence[2]) : escapeHtml(body.join('\n'));
+      out.push(`<pre><code${lang}>${code}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      out.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push((QUOTE.exec(lines[i]) as RegExpExecArray)[1]);
+        i++;
+      }
+      out.push(`<blockquote>${renderMarkdown(body.join('\n'), options)}</blockquote>`);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows: string[] = [];
+      let j = i + 2;
+      while (j < lines.length && lines[j].trim() !== '' && lines[j].includes('|')) rows.push(lines[j++]);
+      out.push(renderTable(line, lines[i + 1], rows));
+      i = j;
+      continue;
+    }
+
+    if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = !BULLET.test(line);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const m = ordered ? NUMBERED.exec(lines[i]) : BULLET.exec(lines[i]);
+        if (m) {
+          items.push(ordered ? m[3] : m[2]);
+        } else if (lines[i].trim() !== '' && /^\s+/.test(lines[i]) && items.length) {
+          items[items.length - 1] += '\n' + lines[i].trim(); // continuation line
+        } else {
+          break;
+        }
+        i++;
+      }
+      const start = ordered ? Number((NUMBERED.exec(line) as RegExpExecArray)[2]) : 1;
+      const tag = ordered ? 'ol' : 'ul';
+      const attrs = ordered && start !== 1 ? ` start="${start}"` : '';
+      out.push(`<${tag}${attrs}>${items.map(t => `<li>${renderInline(t).replace(/\n/g, '<br>')}</li>`).join('')}</${tag}>`);
+      continue;
+    }
+
+    if (/^( {4}|\t)/.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || lines[i].trim() === '')) {
+        body.push(lines[i].replace(/^( {4}|\t)/, ''));
+        i++;
+      }
+      while (body.length && body[body.length - 1].trim() === '') body.pop();
+      out.push(`<pre><code>${escapeHtml(body.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or another block; single line
+    // breaks are kept, as prompts are usually written line by line
+    const para: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '' && (para.length === 0 || !(isBlockStart(lines[i]) || isTableStart(lines, i)))) {
+      para.push(lines[i].trim());
+      i++;
+    }
+    out.push(`<p>${para.map(renderInline).join('<br>')}</p>`);
+  }
+  return out.join('\n');
+}
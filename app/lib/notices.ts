@@ -0,0 +1,42 @@
+// In-app notifications: short messages stacked in the corner of the page,
+// optionally with one action (Undo, Redo…). Errors stay until dismissed;
+// everything else goes away on its own.
+
+export type Severity = 'info' | 'success' | 'warning' | 'error';
+
+export type NoticeAction = { label: string; run: () => void };
+
+export type Notice = {
+  id: number;
+  message: string;
+  severity: Severity;
+  ms: number; // time on screen; 0 = until dismissed
+  action?: NoticeAction;
+};
+
+export type NoticeOptions = Partial<Pick<Notice, 'severity' | 'ms' | 'action'>>;
+
+export const NOTICE_DURATION: Record<Severity, number> = {
+  info: 1200,
+  success: 1200,
+  warning: 4000,
+  error: 0
+};
+
+// Older notices make room beyond this many
+const MAX_NOTICES = 4;
+
+let lastId = 0;
+
+/** Add a notice to the stack. The same message again replaces the older one. */
+export function pushNotice(list: Notice[], message: string, options: NoticeOptions = {}): Notice[] {
+  const severity = options.severity ?? 'info';
+  const notice: Notice = {
+    id: ++lastId,
+    message,
+    severity,
+    ms: options.ms ?? NOTICE_DURATION[severity],
+    action: options.action
+  };
+  return [...list.filter(n => n.message !== message), notice].slice(-MAX_NOTICES);
+}
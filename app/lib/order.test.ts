@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { moveRelative, sortCards, stampOrder } from './order';
+import type { Card } from './types';
+
+const make = (id: string, createdAt: number, order?: number): Card => ({ id, title: id, text: '', createdAt, order });
+const ids = (list: { id: string }[]) => list.map(x => x.id);
+
+describe('stampOrder', () => {
+  it('sets order to each index', () => {
+    expect(stampOrder([make('a', 3), make('b', 1)]).map(c => c.order)).toEqual([0, 1]);
+  });
+
+  it('keeps cards that already carry the right order', () => {
+    const a = make('a', 1, 0);
+    expect(stampOrder([a])[0]).toBe(a);
+  });
+});
+
+describe('sortCards', () => {
+  it('uses the explicit order when every card has one', () => {
+    expect(ids(sortCards([make('a', 1, 2), make('b', 2, 0), make('c', 3, 1)]))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('falls back to oldest first when any order is missing', () => {
+    expect(ids(sortCards([make('a', 3, 0), make('b', 1), make('c', 2, 1)]))).toEqual(['b', 'c', 'a']);
+  });
+
+  it('does not change its input', () => {
+    const list = [make('a', 2), make('b', 1)];
+    sortCards(list);
+    expect(ids(list)).toEqual(['a', 'b']);
+  });
+});
+
+describe('moveRelative', () => {
+  const list = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+
+  it('moves an item before the target', () => {
+    expect(ids(moveRelative(list, 'd', 'b'))).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('moves an item after the target', () => {
+    expect(ids(moveRelative(list, 'a', 'c', true))).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('returns the list unchanged for unknown ids or a move onto itself', () => {
+    expect(moveRelative(list, 'x', 'b')).toBe(list);
+    expect(moveRelative(list, 'a', 'x')).toBe(list);
+    expect(moveRelative(list, 'b', 'b')).toBe(list);
+  });
+});
@@ -0,0 +1,31 @@
+import type { Card } from './types';
+
+// Card order: in memory the array order is authoritative. Whenever cards
+// leave memory (localStorage, layouts, exported files) each one is stamped
+// with its index in `order`, so readers can restore the user's arrangement.
+// Files written before explicit ordering existed fall back to createdAt.
+
+/** Copy of `cards` with `order` set to each card's index. */
+export function stampOrder(cards: Card[]): Card[] {
+  return cards.map((c, i) => (c.order === i ? c : { ...c, order: i }));
+}
+
+/** Sort by explicit `order` when every card has one, else oldest first. */
+export function sortCards(cards: Card[]): Card[] {
+  const explicit = cards.length > 0 && cards.every(c => Number.isFinite(c.order));
+  return [...cards].sort(explicit
+    ? (a, b) => (a.order as number) - (b.order as number)
+    : (a, b) => a.createdAt - b.createdAt);
+}
+
+/** Move the item `id` so it sits immediately before (or after) `targetId`. */
+export function moveRelative<T extends { id: string }>(list: T[], id: string, targetId: string, after = false): T[] {
+  if (id === targetId) return list;
+  const item = list.find(x => x.id === id);
+  if (!item) return list;
+  const rest = list.filter(x => x.id !== id);
+  const at = rest.findIndex(x => x.id === targetId);
+  if (at === -1) return list;
+  rest.splice(after ? at + 1 : at, 0, item);
+  return rest;
+}
@@ -0,0 +1,43 @@
+import { LAYOUT_SORTS, type LayoutSort } from './layouts';
+import { normalizeKeyBindings, type KeyBindings } from './shortcuts';
+import { CARD_SORTS, type CardSort } from './usage';
+
+// Per-browser display preferences, stored with the other settings (see
+// lib/storage.ts).
+
+export type Preferences = {
+  cardSort: CardSort;
+  librarySort: LayoutSort;
+  keyBindings: KeyBindings; // changes from the default shortcuts
+  previewLines: number; // lines of text a collapsed card shows
+  keepExpanded: boolean; // remember which cards are expanded across reloads
+  expandedIds: string[]; // those cards, while keepExpanded is on
+};
+
+export const PREVIEW_LINES_MIN = 1;
+export const PREVIEW_LINES_MAX = 20;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  cardSort: 'manual',
+  librarySort: 'saved',
+  keyBindings: {},
+  previewLines: 3,
+  keepExpanded: false,
+  expandedIds: []
+};
+
+export function normalizePreferences(value: unknown): Preferences {
+  const v = (value ?? {}) as Partial<Preferences>;
+  return {
+    cardSort: v.cardSort && v.cardSort in CARD_SORTS ? v.cardSort : DEFAULT_PREFERENCES.cardSort,
+    librarySort: v.librarySort && v.librarySort in LAYOUT_SORTS ? v.librarySort : DEFAULT_PREFERENCES.librarySort,
+    keyBindings: normalizeKeyBindings(v.keyBindings),
+    previewLines: Number.isInteger(v.previewLines)
+      ? Math.min(PREVIEW_LINES_MAX, Math.max(PREVIEW_LINES_MIN, v.previewLines as number))
+      : DEFAULT_PREFERENCES.previewLines,
+    keepExpanded: v.keepExpanded === true,
+    expandedIds: v.keepExpanded === true && Array.isArray(v.expandedIds)
+      ? v.expandedIds.filter((id): id is string => typeof id === 'string')
+      : []
+  };
+}
@@ -0,0 +1,208 @@
+import { makeBackup } from './backup';
+import { sortCards, stampOrder } from './order';
+import { StorageError, type Store } from './storage';
+import type { Card, LayoutEntry } from './types';
+
+// Store backed by the shared team library served from app/api/. Cards and
+// layouts live on the server; meta (tag colours, template values, history,
+// author, backup settings) and backups stay in the browser's own store,
+// since they are personal.
+//
+// Each record is written with the revision it was last seen at. When a
+// teammate changed it first the server answers 409; the write is rejected
+// and `onStale` asks the page to pull, so the three-way merge in
+// lib/sync.ts turns the clash into a conflict the user can resolve.
+//
+// An empty server is seeded with this browser's library. Otherwise the
+// server's library is shown; records only this browser has are backed up
+// locally and reported in `localOnly`, so the page can offer to share them.
+
+const API = '/api';
+
+type Kind = 'cards' | 'layouts';
+
+type LibraryResponse = {
+  version: number;
+  cards: Card[];
+  layouts: LayoutEntry[];
+  revs: Record<string, number>;
+  unchanged?: boolean;
+};
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+async function call<T>(method: string, url: string, body?: unknown, ifMatch?: number): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['content-type'] = 'application/json';
+  if (ifMatch !== undefined) headers['if-match'] = String(ifMatch);
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: 'no-store'
+  });
+  const data = await res.json().catch(() => ({})) as T & { error?: string };
+  if (!res.ok) throw new HttpError(res.status, data.error ?? `${method} ${url} failed (${res.status})`);
+  return data;
+}
+
+/**
+ * Connect to the shared library, or null when there is no server (e.g. a
+ * static export).
+ */
+export async function openServerStore(local: Store, onStale: () => void): Promise<Store | null> {
+  let initial: LibraryResponse;
+  try {
+    initial = await call<LibraryResponse>('GET', `${API}/library`);
+  } catch {
+    return null;
+  }
+
+  let version = 0;
+  let revs: Record<string, number> = {};
+  let writtenCards = new Map<string, string>();
+  let writtenLayouts = new Map<string, string>();
+  let writtenOrder: string[] = [];
+
+  function adopt(data: LibraryResponse) {
+    const cards = sortCards(data.cards);
+    version = data.version;
+    revs = { ...data.revs };
+    writtenCards = new Map(cards.map(c => [c.id, JSON.stringify({ ...c, order: undefined })]));
+    writtenLayouts = new Map(data.layouts.map(l => [l.id, JSON.stringify(l)]));
+    writtenOrder = cards.map(c => c.id);
+    return { cards, layouts: data.layouts };
+  }
+
+  // Only step past our own writes; if a teammate's change slipped in
+  // between, leave `version` behind so the next pull picks it up
+  function wrote(next: number) {
+    if (next === version + 1) version = next;
+  }
+
+  async function saveRecords<T extends { id: string }>(
+    kind: Kind,
+    written: Map<string, string>,
+    items: T[],
+    key: (x: T) => string
+  ): Promise<Map<string, string>> {
+    const next = new Map(items.map(x => [x.id, key(x)]));
+    const put = items.filter(x => written.get(x.id) !== next.get(x.id));
+    const del = [...written.keys()].filter(id => !next.has(id));
+    const saved = new Map(written);
+    try {
+      for (const x of put) {
+        const res = await call<{ rev: number; version: number }>(
+          'PUT', `${API}/${kind}/${encodeURIComponent(x.id)}`, x, revs[`${kind}:${x.id}`] ?? 0);
+        revs[`${kind}:${x.id}`] = res.rev;
+        wrote(res.version);
+        saved.set(x.id, next.get(x.id) as string);
+      }
+      for (const id of del) {
+        const res = await call<{ version: number }>(
+          'DELETE', `${API}/${kind}/${encodeURIComponent(id)}`, undefined, revs[`${kind}:${id}`]);
+        delete revs[`${kind}:${id}`];
+        wrote(res.version);
+        saved.delete(id);
+      }
+    } catch (err) {
+      // Keep what did go through, so the next save only retries the rest
+      if (kind === 'cards') writtenCards = saved;
+      else writtenLayouts = saved;
+      if (err instanceof HttpError && err.status === 409) {
+        onStale();
+        throw new StorageError(`Could not save ${kind}: changed by someone else, reloading`);
+      }
+      throw new StorageError(`Could not save ${kind}: ${(err as Error).message}`);
+    }
+    return next;
+  }
+
+  const store: Store = {
+    backend: 'server',
+
+    async load() {
+      const { meta, cards: localCards, layouts: localLayouts } = await local.load();
+      let data = initial;
+      if (data.cards.length === 0 && data.layouts.length === 0 && (localCards.length || localLayouts.length)) {
+        await call('POST', `${API}/library`, { cards: stampOrder(localCards), layouts: localLayouts });
+        data = await call<LibraryResponse>('GET', `${API}/library`);
+        return { ...adopt(data), meta };
+      }
+      const cardIds = new Set(data.cards.map(c => c.id));
+      const layoutIds = new Set(data.layouts.map(l => l.id));
+      const localOnly = {
+        cards: localCards.filter(c => !cardIds.has(c.id)),
+        layouts: localLayouts.filter(l => !layoutIds.has(l.id))
+      };
+      if (localOnly.cards.length || localOnly.layouts.length) {
+        // Keep this browser's library restorable before it drops out of view
+        await local.saveBackup(makeBackup({
+          cards: localCards,
+          layouts: localLayouts,
+          layoutTitle: meta.layoutTitle,
+          tagColors: meta.tagColors,
+          templateValues: meta.templateValues,
+          history: meta.history,
+          author: meta.author,
+          theme: meta.theme,
+          backupSettings: meta.backupSettings,
+          copySettings: meta.copySettings,
+          preferences: meta.preferences,
+          usage: meta.usage,
+          tokenSettings: meta.tokenSettings
+        }, false)).catch(() => {});
+      }
+      return { ...adopt(data), meta, localOnly };
+    },
+
+    async saveCards(cards) {
+      // `order` is only a stamp; compare content and list position separately
+      writtenCards = await saveRecords('cards', writtenCards, cards, c => JSON.stringify({ ...c, order: undefined }));
+      const ids = cards.map(c => c.id);
+      if (ids.join('\n') === writtenOrder.join('\n')) return;
+      try {
+        wrote((await call<{ version: number }>('PUT', `${API}/cards`, { order: ids })).version);
+        writtenOrder = ids;
+      } catch (err) {
+        throw new StorageError(`Could not save card order: ${(err as Error).message}`);
+      }
+    },
+
+    async saveLayouts(layouts) {
+      writtenLayouts = await saveRecords('layouts', writtenLayouts, layouts, l => JSON.stringify(l));
+    },
+
+    saveMeta(key, value) {
+      return local.saveMeta(key, value);
+    },
+
+    // Backups are personal safety copies and stay in the browser
+    listBackups: () => local.listBackups(),
+    saveBackup: backup => local.saveBackup(backup),
+    deleteBackups: ids => local.deleteBackups(ids),
+
+    async share(cards, layouts) {
+      try {
+        await call('POST', `${API}/library`, { cards: stampOrder(cards), layouts });
+      } catch (err) {
+        throw new StorageError(`Could not add to the shared library: ${(err as Error).message}`);
+      }
+      onStale();
+    },
+
+    async pull() {
+      const data = await call<LibraryResponse>('GET', `${API}/library?since=${version}`);
+      return data.unchanged ? null : adopt(data);
+    }
+  };
+  return store;
+}
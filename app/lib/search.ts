@@ -0,0 +1,181 @@
+import type { Card, LayoutEntry } from './types';
+
+// Search across the cards on the page and inside every saved layout.
+// Matching is fuzzy (subsequence) with bonuses for contiguous runs and
+// word starts; exact substrings always outrank scattered hits.
+
+export type SearchDoc = {
+  key: string; // unique across page + library
+  card: Card;
+  layoutId: string | null; // null = card on the current page
+  layoutTitle: string | null;
+};
+
+export type SearchHit = {
+  doc: SearchDoc;
+  score: number;
+  titleHits: number[]; // indices into card.title
+  snippet: string; // excerpt of card.text around the first text hit
+  snippetHits: number[]; // indices into snippet
+};
+
+export function buildIndex(cards: Card[], layouts: LayoutEntry[]): SearchDoc[] {
+  const docs: SearchDoc[] = cards.map(card => ({
+    key: 'page:' + card.id,
+    card,
+    layoutId: null,
+    layoutTitle: null
+  }));
+  for (const l of layouts) {
+    for (const card of l.cards) {
+      docs.push({ key: l.id + ':' + card.id, card, layoutId: l.id, layoutTitle: l.title });
+    }
+  }
+  return docs;
+}
+
+function isWordStart(hay: string, i: number): boolean {
+  return i === 0 || /[\s\-_/.,:;()[\]{}]/.test(hay[i - 1]);
+}
+
+/**
+ * Fuzzy-match `needle` against `hay` (both compared case-insensitively).
+ * Returns null when `needle` is not a subsequence of `hay`.
+ */
+export function fuzzyMatch(needle: string, hay: string): { score: number; positions: number[] } | null {
+  if (!needle) return { score: 0, positions: [] };
+  const n = needle.toLowerCase();
+  const h = hay.toLowerCase();
+
+  // Contiguous substring: best case, prefer earlier and word-aligned hits
+  const at = h.indexOf(n);
+  if (at !== -1) {
+    const positions = Array.from({ length: n.length }, (_, k) => at + k);
+    const score = 100 + n.length * 4 + (isWordStart(h, at) ? 20 : 0) - Math.min(at, 50) * 0.2;
+    return { score, positions };
+  }
+
+  // Scattered subsequence
+  const positions: number[] = [];
+  let score = 0;
+  let prev = -2;
+  let from = 0;
+  for (const ch of n) {
+    const i = h.indexOf(ch, from);
+    if (i === -1) return null;
+    positions.push(i);
+    score += 1;
+    if (i === prev + 1) score += 3;
+    if (isWordStart(h, i)) score += 2;
+    prev = i;
+    from = i + 1;
+  }
+  // Penalise spread-out matches
+  score -= (positions[positions.length - 1] - positions[0] - n.length) * 0.05;
+  return score > 0 ? { score, positions } : null;
+}
+
+const SNIPPET_RADIUS = 40;
+
+function makeSnippet(text: string, positions: number[]): { snippet: string; hits: number[] } {
+  const flat = text.replace(/\s+/g, ' ');
+  // Whitespace collapsing shifts offsets; remap through a position table
+  const map: number[] = [];
+  let j = 0;
+  for (let i = 0; i < text.length; i++) {
+    const isWs = /\s/.test(text[i]);
+    if (isWs && i > 0 && /\s/.test(text[i - 1])) {
+      map.push(j - 1);
+      continue;
+    }
+    map.push(j++);
+  }
+  const mapped = positions.map(p => map[p]);
+  const first = mapped.length ? mapped[0] : 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, first + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const hits = mapped
+    .filter(p => p >= start && p < end)
+    .map(p => p - start + prefix.length);
+  return { snippet: prefix + flat.slice(start, end) + suffix, hits };
+}
+
+/**
+ * Rank `docs` against `query`. Every whitespace-separated term must match
+ * the title or the text; title hits weigh more than text hits.
+ */
+export function search(docs: SearchDoc[], query: string, limit = 50): SearchHit[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return docs.slice(0, limit).map(doc => {
+      const { snippet, hits } = makeSnippet(doc.card.text, []);
+      return { doc, score: 0, titleHits: [], snippet, snippetHits: hits };
+    });
+  }
+
+  const results: SearchHit[] = [];
+  for (const doc of docs) {
+    let score = 0;
+    const titleHits = new Set<number>();
+    const textHits = new Set<number>();
+    let ok = true;
+
+    for (const term of terms) {
+      const t = fuzzyMatch(term, doc.card.title);
+      const x = fuzzyMatch(term, doc.card.text);
+      if (!t && !x) {
+        ok = false;
+        break;
+      }
+      const ts = t ? t.score * 1.5 : 0;
+      const xs = x ? x.score : 0;
+      if (ts >= xs && t) t.positions.forEach(p => titleHits.add(p));
+      else if (x) x.positions.forEach(p => textHits.add(p));
+      score += Math.max(ts, xs);
+    }
+    if (!ok) continue;
+
+    // Cards on the current page rank slightly above library copies
+    if (doc.layoutId === null) score += 5;
+
+    const { snippet, hits } = makeSnippet(doc.card.text, [...textHits].sort((a, b) => a - b));
+    results.push({
+      doc,
+      score,
+      titleHits: [...titleHits].sort((a, b) => a - b),
+      snippet,
+      snippetHits: hits
+    });
+  }
+
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, limit);
+}
+
+/** True when `card` matches every term of `query` (used for list filtering). */
+export function matchesQuery(card: Card, query: string): boolean {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  return terms.every(term => fuzzyMatch(term, card.title) || fuzzyMatch(term, card.text));
+}
+
+/** True when the layout title or any of its cards matches every term. */
+export function layoutMatchesQuery(layout: LayoutEntry, query: string): boolean {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  return terms.every(term => fuzzyMatch(term, layout.title))
+    || layout.cards.some(c => matchesQuery(c, query));
+}
+
+/** Split `text` into plain/highlighted segments for rendering. */
+export function highlightSegments(text: string, hits: number[]): { text: string; hit: boolean }[] {
+  const set = new Set(hits);
+  const out: { text: string; hit: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hit = set.has(i);
+    const last = out[out.length - 1];
+    if (last && last.hit === hit) last.text += text[i];
+    else out.push({ text: text[i], hit });
+  }
+  return out;
+}
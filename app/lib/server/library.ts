@@ -0,0 +1,238 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { sortCards, stampOrder } from '../order';
+import { normalizeTagColors, normalizeTags } from '../tags';
+import type { Card, LayoutEntry } from '../types';
+
+// Shared team library kept in a single JSON file on the server. Only the
+// route handlers under app/api/ import this module.
+//
+// Every record carries a revision number. Updates and deletes may send the
+// revision they were based on (If-Match); a mismatch means someone else
+// changed the record first and is answered with 409 instead of silently
+// overwriting their edit. `version` increases on every change so clients
+// can cheaply poll for updates.
+
+export type LibraryData = {
+  version: number;
+  cards: Card[];
+  layouts: LayoutEntry[];
+  revs: Record<string, number>; // "cards:<id>" / "layouts:<id>" -> revision
+};
+
+export type Kind = 'cards' | 'layouts';
+
+export class LibraryError extends Error {
+  status: number;
+  current: unknown; // the server's copy, sent back on conflicts
+
+  constructor(status: number, message: string, current: unknown = null) {
+    super(message);
+    this.name = 'LibraryError';
+    this.status = status;
+    this.current = current;
+  }
+}
+
+const DATA_FILE = process.env.COPYAI_DATA_FILE
+  ?? path.join(process.cwd(), '.data', 'library.json');
+
+const EMPTY: LibraryData = { version: 0, cards: [], layouts: [], revs: {} };
+
+async function load(): Promise<LibraryData> {
+  try {
+    const data = JSON.parse(await readFile(DATA_FILE, 'utf8')) as Partial<LibraryData>;
+    return {
+      version: Number(data.version) || 0,
+      cards: Array.isArray(data.cards) ? data.cards : [],
+      layouts: Array.isArray(data.layouts) ? data.layouts : [],
+      revs: data.revs && typeof data.revs === 'object' ? data.revs : {}
+    };
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return structuredClone(EMPTY);
+    throw err;
+  }
+}
+
+// Write to a temp file first so a crash never leaves half a library behind
+async function save(data: LibraryData): Promise<void> {
+  await mkdir(path.dirname(DATA_FILE), { recursive: true });
+  const tmp = DATA_FILE + '.tmp';
+  await writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+  await rename(tmp, DATA_FILE);
+}
+
+// All mutations run one after another through this chain
+let queue: Promise<unknown> = Promise.resolve();
+
+function mutate<T>(fn: (data: LibraryData) => T): Promise<T> {
+  const run = queue.then(async () => {
+    const data = await load();
+    data.version++;
+    const result = fn(data);
+    await save(data);
+    return result;
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+export function readLibrary(): Promise<LibraryData> {
+  return queue.then(load, load);
+}
+
+// ----------- Normalisation of client input -----------
+
+export function normalizeCard(raw: unknown, fallbackId?: string): Card {
+  const c = (raw ?? {}) as Record<string, unknown>;
+  const id = String(c.id ?? fallbackId ?? '').trim();
+  if (!id) throw new LibraryError(400, 'card.id is required');
+  return {
+    id,
+    title: String(c.title ?? 'Untitled'),
+    text: String(c.text ?? ''),
+    createdAt: Number.isFinite(Number(c.createdAt)) ? Number(c.createdAt) : Date.now(),
+    order: Number.isFinite(Number(c.order)) && c.order !== null ? Number(c.order) : undefined,
+    tags: normalizeTags(c.tags)
+  };
+}
+
+export function normalizeLayout(raw: unknown, fallbackId?: string): LayoutEntry {
+  const l = (raw ?? {}) as Record<string, unknown>;
+  const id = String(l.id ?? fallbackId ?? '').trim();
+  if (!id) throw new LibraryError(400, 'layout.id is required');
+  const cards = Array.isArray(l.cards) ? l.cards.map(c => normalizeCard(c)) : [];
+  return {
+    id,
+    title: String(l.title ?? 'Untitled').trim() || 'Untitled',
+    savedAt: Number.isFinite(Number(l.savedAt)) ? Number(l.savedAt) : Date.now(),
+    cards: stampOrder(sortCards(cards)),
+    tagColors: normalizeTagColors(l.tagColors)
+  };
+}
+
+// ----------- CRUD -----------
+
+type Item = Card | LayoutEntry;
+
+function list(data: LibraryData, kind: Kind): Item[] {
+  return kind === 'cards' ? data.cards : data.layouts;
+}
+
+function checkRev(data: LibraryData, kind: Kind, id: string, ifMatch: number | null, current: Item | null) {
+  if (ifMatch === null) return;
+  const rev = data.revs[`${kind}:${id}`] ?? 0;
+  if (rev !== ifMatch) {
+    throw new LibraryError(409, `${kind === 'cards' ? 'Card' : 'Layout'} was changed by someone else`, {
+      item: current,
+      rev
+    });
+  }
+}
+
+export async function getItem(kind: Kind, id: string): Promise<{ item: Item; rev: number }> {
+  const data = await readLibrary();
+  const item = list(data, kind).find(x => x.id === id);
+  if (!item) throw new LibraryError(404, 'Not found');
+  return { item, rev: data.revs[`${kind}:${id}`] ?? 0 };
+}
+
+/** Create a record; fails with 409 if the id is taken. */
+export function createItem(kind: Kind, item: Item): Promise<{ item: Item; rev: number; version: number }> {
+  return mutate(data => {
+    const items = list(data, kind);
+    if (items.some(x => x.id === item.id)) throw new LibraryError(409, 'Id already exists');
+    if (kind === 'cards') data.cards = stampOrder([...data.cards, item as Card]);
+    else data.layouts = [...data.layouts, item as LayoutEntry];
+    data.revs[`${kind}:${item.id}`] = 1;
+    return { item, rev: 1, version: data.version };
+  });
+}
+
+/** Create or replace a record, guarded by `ifMatch` when given. */
+export function putItem(kind: Kind, item: Item, ifMatch: number | null): Promise<{ item: Item; rev: number; version: number }> {
+  return mutate(data => {
+    const items = list(data, kind);
+    const current = items.find(x => x.id === item.id) ?? null;
+    checkRev(data, kind, item.id, ifMatch, current);
+    if (kind === 'cards') {
+      data.cards = stampOrder(current
+        ? data.cards.map(c => c.id === item.id ? item as Card : c)
+        : [...data.cards, item as Card]);
+    } else {
+      data.layouts = current
+        ? data.layouts.map(l => l.id === item.id ? item as LayoutEntry : l)
+        : [...data.layouts, item as LayoutEntry];
+    }
+    const rev = (data.revs[`${kind}:${item.id}`] ?? 0) + 1;
+    data.revs[`${kind}:${item.id}`] = rev;
+    return { item, rev, version: data.version };
+  });
+}
+
+/** Delete a record, guarded by `ifMatch` when given. Missing ids are a no-op. */
+export function deleteItem(kind: Kind, id: string, ifMatch: number | null): Promise<{ version: number }> {
+  return mutate(data => {
+    const current = list(data, kind).find(x => x.id === id) ?? null;
+    if (current) checkRev(data, kind, id, ifMatch, current);
+    if (kind === 'cards') data.cards = data.cards.filter(c => c.id !== id);
+    else data.layouts = data.layouts.filter(l => l.id !== id);
+    delete data.revs[`${kind}:${id}`];
+    return { version: data.version };
+  });
+}
+
+/** Reorder cards by id; unknown ids are ignored, unlisted cards go last. */
+export function reorderCards(ids: string[]): Promise<{ version: number }> {
+  return mutate(data => {
+    const pos = new Map(ids.map((id, i) => [id, i]));
+    const sorted = [...data.cards].sort((a, b) => (pos.get(a.id) ?? Infinity) - (pos.get(b.id) ?? Infinity));
+    data.cards = stampOrder(sorted);
+    return { version: data.version };
+  });
+}
+
+/** Add every record whose id isn't on the server yet (used to seed). */
+export function importItems(cards: Card[], layouts: LayoutEntry[]): Promise<{ added: number; version: number }> {
+  return mutate(data => {
+    const haveCards = new Set(data.cards.map(c => c.id));
+    const haveLayouts = new Set(data.layouts.map(l => l.id));
+    const newCards = cards.filter(c => !haveCards.has(c.id));
+    const newLayouts = layouts.filter(l => !haveLayouts.has(l.id));
+    data.cards = stampOrder([...data.cards, ...sortCards(newCards)]);
+    data.layouts = [...data.layouts, ...newLayouts];
+    for (const c of newCards) data.revs[`cards:${c.id}`] = 1;
+    for (const l of newLayouts) data.revs[`layouts:${l.id}`] = 1;
+    return { added: newCards.length + newLayouts.length, version: data.version };
+  });
+}
+
+// ----------- Route helpers -----------
+
+/** Parse an If-Match header ("3" or "\"3\""); null when absent. */
+export function ifMatchOf(request: Request): number | null {
+  const raw = request.headers.get('if-match');
+  if (!raw) return null;
+  const n = Number(raw.replace(/"/g, ''));
+  return Number.isInteger(n) ? n : null;
+}
+
+/** Map thrown errors to JSON responses. */
+export function errorResponse(err: unknown): Response {
+  if (err instanceof LibraryError) {
+    return Response.json({ error: err.message, current: err.current }, { status: err.status });
+  }
+  return Response.json({ error: err instanceof Error ? err.message : 'Server error' }, { status: 500 });
+}
+
+/** The request body, which every route expects to be a JSON object. */
+export async function readJson(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new LibraryError(400, 'Body must be JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new LibraryError(400, 'Body must be a JSON object');
+  return body as Record<string, unknown>;
+}
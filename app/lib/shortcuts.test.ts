@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_SHORTCUTS, SHORTCUTS, actionFor, comboOf, isReserved, normalizeKeyBindings, rebind } from './shortcuts';
+
+const press = (key: string, mods: { ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean; shiftKey?: boolean } = {}) =>
+  comboOf({ key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...mods });
+
+describe('isReserved', () => {
+  it('covers the undo, redo and search keys as they are pressed', () => {
+    expect(isReserved(press('z', { ctrlKey: true }) as string)).toBe(true);
+    expect(isReserved(press('y', { ctrlKey: true }) as string)).toBe(true);
+    expect(isReserved(press('Y', { metaKey: true, shiftKey: true }) as string)).toBe(true);
+    expect(isReserved(press('k', { metaKey: true }) as string)).toBe(true);
+    expect(isReserved(press('5') as string)).toBe(true);
+    expect(isReserved(press('j') as string)).toBe(false);
+  });
+
+  it('lists every reserved key in the help', () => {
+    expect(FIXED_SHORTCUTS.map(f => f.keys)).toContain('Mod+Y');
+    for (const f of FIXED_SHORTCUTS) expect(f.combos.every(isReserved)).toBe(true);
+  });
+});
+
+describe('normalizeKeyBindings', () => {
+  it('drops unknown actions and reserved keys', () => {
+    expect(normalizeKeyBindings({ copy: 'Mod+y', edit: 'x', nope: 'q', next: 3 })).toEqual({ edit: 'x' });
+  });
+});
+
+describe('rebind', () => {
+  it('takes the combo from the action that had it', () => {
+    const { bindings, displaced } = rebind({}, 'edit', SHORTCUTS.copy.key);
+    expect(displaced).toBe('copy');
+    expect(bindings).toEqual({ edit: SHORTCUTS.copy.key, copy: '' });
+    expect(actionFor(bindings, SHORTCUTS.copy.key)).toBe('edit');
+  });
+});
@@ -0,0 +1,120 @@
+// Keyboard shortcuts. Bindings are key combos written the way they are
+// shown: "e", "Shift+Delete", "Mod+K" (Mod is Ctrl, or Cmd on macOS).
+// Letters are lower case; Shift is only spelled out for named keys, since
+// it already changes printable ones ("?" rather than "Shift+/").
+//
+// The actions below can be rebound and the changes are kept with the other
+// preferences (see lib/preferences.ts). A few keys are fixed and only
+// listed in the help: 1–9, Escape, Ctrl/Cmd+K and undo/redo.
+
+export type ShortcutAction =
+  | 'next'
+  | 'prev'
+  | 'first'
+  | 'last'
+  | 'copy'
+  | 'edit'
+  | 'delete'
+  | 'select'
+  | 'history'
+  | 'add'
+  | 'filter'
+  | 'library'
+  | 'stats'
+  | 'help';
+
+export const SHORTCUTS: Record<ShortcutAction, { label: string; key: string }> = {
+  next: { label: 'Focus the next prompt', key: 'ArrowDown' },
+  prev: { label: 'Focus the previous prompt', key: 'ArrowUp' },
+  first: { label: 'Focus the first prompt', key: 'Home' },
+  last: { label: 'Focus the last prompt', key: 'End' },
+  copy: { label: 'Copy the focused prompt', key: 'Enter' },
+  edit: { label: 'Edit the focused prompt', key: 'e' },
+  delete: { label: 'Delete the focused prompt', key: 'Delete' },
+  select: { label: 'Tick the focused prompt for bulk actions', key: 'x' },
+  history: { label: 'Show the focused prompt’s history', key: 'h' },
+  add: { label: 'Write a new prompt', key: 'n' },
+  filter: { label: 'Filter prompts', key: '/' },
+  library: { label: 'Open the Library', key: 'l' },
+  stats: { label: 'Open copy statistics', key: 's' },
+  help: { label: 'Show this help', key: '?' }
+};
+
+/** Keys that can't be rebound, for the help overlay; `combos` as comboOf spells them. */
+export const FIXED_SHORTCUTS: { keys: string; label: string; combos: string[] }[] = [
+  { keys: '1 – 9', label: 'Copy the first nine prompts shown', combos: ['1', '2', '3', '4', '5', '6', '7', '8', '9'] },
+  { keys: 'Escape', label: 'Close the open dialog, or cancel editing', combos: ['Escape'] },
+  { keys: 'Mod+K', label: 'Search all prompts and layouts', combos: ['Mod+k'] },
+  { keys: 'Mod+Z', label: 'Undo', combos: ['Mod+z'] },
+  { keys: 'Mod+Shift+Z', label: 'Redo', combos: ['Mod+Shift+z'] },
+  { keys: 'Mod+Y', label: 'Redo', combos: ['Mod+y'] }
+];
+
+// Tab moves focus, so it is kept too
+const RESERVED = new Set(['Tab', 'Shift+Tab', ...FIXED_SHORTCUTS.flatMap(f => f.combos)]);
+
+// Only changed bindings are stored; '' unbinds an action
+export type KeyBindings = Partial<Record<ShortcutAction, string>>;
+
+export function normalizeKeyBindings(value: unknown): KeyBindings {
+  const out: KeyBindings = {};
+  if (typeof value !== 'object' || value === null) return out;
+  for (const [action, key] of Object.entries(value)) {
+    // Reserved keys may have been stored before they were reserved
+    if (action in SHORTCUTS && typeof key === 'string' && !RESERVED.has(key)) out[action as ShortcutAction] = key;
+  }
+  return out;
+}
+
+export function bindingOf(bindings: KeyBindings, action: ShortcutAction): string {
+  return bindings[action] ?? SHORTCUTS[action].key;
+}
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+/** The combo for a key press, or null for a bare modifier. */
+export function comboOf(e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  // "+" is the separator, so the key itself is spelled out
+  const key = e.key === ' ' ? 'Space' : e.key === '+' ? 'Plus' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && key.length > 1) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/** The action bound to a combo, if any. */
+export function actionFor(bindings: KeyBindings, combo: string): ShortcutAction | null {
+  const actions = Object.keys(SHORTCUTS) as ShortcutAction[];
+  return actions.find(a => bindingOf(bindings, a) === combo) ?? null;
+}
+
+/** Keys reserved for the fixed shortcuts. */
+export function isReserved(combo: string): boolean {
+  return RESERVED.has(combo);
+}
+
+/**
+ * Bind `combo` to `action`. Another action that had the same combo loses
+ * it (and is returned, so the user can be told).
+ */
+export function rebind(bindings: KeyBindings, action: ShortcutAction, combo: string): { bindings: KeyBindings; displaced: ShortcutAction | null } {
+  const displaced = actionFor(bindings, combo);
+  const next: KeyBindings = { ...bindings };
+  if (displaced && displaced !== action) next[displaced] = '';
+  if (combo === SHORTCUTS[action].key) delete next[action];
+  else next[action] = combo;
+  return { bindings: next, displaced: displaced && displaced !== action ? displaced : null };
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowDown: '↓', ArrowUp: '↑', ArrowLeft: '←', ArrowRight: '→', Mod: 'Ctrl/Cmd'
+};
+
+/** "Mod+Shift+z" -> "Ctrl/Cmd + Shift + Z" */
+export function describeCombo(combo: string): string {
+  if (!combo) return '—';
+  return combo.split('+').map(p => KEY_NAMES[p] ?? (p.length === 1 ? p.toUpperCase() : p)).join(' + ');
+}
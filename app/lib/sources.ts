@@ -0,0 +1,240 @@
+import { parseMarkdown } from './exchange';
+import { normalizeTag } from './tags';
+import type { Card } from './types';
+
+// Importers for prompts written somewhere else. Each file becomes a list of
+// cards; the import wizard (lib/importer.ts) then lets the user pick which
+// ones to keep and whether they go onto the page or into a new layout.
+//
+//   conversations.json   ChatGPT data export: one card per user message,
+//                        along the branch of each chat that was last shown
+//   { messages: [...] }  OpenAI-style transcript (chat completion request);
+//                        a bare list of messages or of transcripts works too
+//   .md / .markdown      headings become card titles (see parseMarkdown)
+//   .txt                 one card per file, titled after the file name;
+//                        sub-folders of a picked folder become tags
+//
+// Other files (images, hidden files) in a picked folder are passed over.
+
+export type SourceFile = {
+  name: string;
+  path?: string; // "picked/sub/file.txt" when a folder was picked
+  text: string;
+  modifiedAt?: number;
+};
+
+export type SourceResult = {
+  cards: Card[];
+  problems: string[]; // files (or parts of them) that gave nothing
+  title: string; // suggested name for a new layout
+};
+
+// For <input type="file" accept>
+export const SOURCE_ACCEPT = '.json,.md,.markdown,.txt,text/plain,text/markdown,application/json';
+
+const CHATGPT_TAG = 'chatgpt';
+const CHAT_TAG = 'chat';
+const TITLE_MAX = 60;
+const TEXT_EXTENSIONS = new Set(['txt', 'text', 'prompt']);
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+type Draft = { title: string; text: string; tags: string[]; createdAt?: number };
+
+/** First non-empty line, without Markdown markers, cut to a readable length. */
+export function titleFromText(text: string): string {
+  const line = text.split('\n').map(l => l.replace(/^\s*(#+|[-*>]|\d+[.)])\s+/, '').trim()).find(Boolean) ?? '';
+  return line.length > TITLE_MAX ? line.slice(0, TITLE_MAX - 1).trimEnd() + '…' : line;
+}
+
+function baseName(name: string): string {
+  const file = name.split('/').pop() ?? name;
+  const dot = file.lastIndexOf('.');
+  return dot > 0 ? file.slice(0, dot) : file;
+}
+
+function extension(name: string): string {
+  const file = name.split('/').pop() ?? name;
+  const dot = file.lastIndexOf('.');
+  return dot > 0 ? file.slice(dot + 1).toLowerCase() : '';
+}
+
+export type SourceKind = 'chat' | 'markdown' | 'text';
+
+/** How a file would be read, or null for files that are passed over. */
+export function sourceKind(name: string): SourceKind | null {
+  const file = name.split('/').pop() ?? name;
+  if (file.startsWith('.')) return null;
+  const ext = extension(file);
+  if (ext === 'json') return 'chat';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  return TEXT_EXTENSIONS.has(ext) ? 'text' : null;
+}
+
+// ----------- Chat exports -----------
+
+// Message content: a string, ChatGPT's { parts: [...] } or OpenAI's
+// [{ type: 'text', text }]. Images and other attachments are dropped.
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  const parts = isObj(content) ? content.parts : content;
+  if (!Array.isArray(parts)) return isObj(content) && typeof content.text === 'string' ? content.text : '';
+  return parts
+    .map(p => (typeof p === 'string' ? p : isObj(p) && typeof p.text === 'string' ? p.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function isChatGptConversation(v: unknown): v is Obj {
+  return isObj(v) && isObj(v.mapping);
+}
+
+// Messages of one ChatGPT conversation in order. Edited prompts leave
+// branches behind; following `current_node` back to the root keeps only
+// the one that was on screen.
+function chatGptMessages(conv: Obj): Obj[] {
+  const mapping = conv.mapping as Record<string, Obj>;
+  const nodes: Obj[] = [];
+  let id = typeof conv.current_node === 'string' ? conv.current_node : null;
+  const seen = new Set<string>();
+  while (id && isObj(mapping[id]) && !seen.has(id)) {
+    seen.add(id);
+    nodes.unshift(mapping[id]);
+    id = typeof mapping[id].parent === 'string' ? (mapping[id].parent as string) : null;
+  }
+  // No usable pointer: take every message by time
+  const list = nodes.length ? nodes : Object.values(mapping).filter(isObj);
+  const messages = list.map(n => n.message).filter(isObj);
+  if (!nodes.length) messages.sort((a, b) => (Number(a.create_time) || 0) - (Number(b.create_time) || 0));
+  return messages;
+}
+
+function roleOf(message: Obj): unknown {
+  return isObj(message.author) ? message.author.role : message.role;
+}
+
+function seconds(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) ? Math.round(v * 1000) : undefined;
+}
+
+function chatGptDrafts(conversations: Obj[]): Draft[] {
+  const out: Draft[] = [];
+  for (const conv of conversations) {
+    const convTime = seconds(conv.create_time);
+    for (const m of chatGptMessages(conv)) {
+      if (roleOf(m) !== 'user') continue;
+      const text = contentText(m.content).trim();
+      if (text) out.push({ title: titleFromText(text), text, tags: [CHATGPT_TAG], createdAt: seconds(m.create_time) ?? convTime });
+    }
+  }
+  return out;
+}
+
+function isMessage(v: unknown): v is Obj {
+  return isObj(v) && typeof v.role === 'string' && 'content' in v;
+}
+
+function transcriptDrafts(messages: Obj[]): Draft[] {
+  return messages
+    .filter(m => m.role === 'user')
+    .map(m => contentText(m.content).trim())
+    .filter(Boolean)
+    .map(text => ({ title: titleFromText(text), text, tags: [CHAT_TAG] }));
+}
+
+/** Cards from a chat export, or null when the JSON isn't one. */
+function chatDrafts(data: unknown): Draft[] | null {
+  const list = Array.isArray(data) ? data : [data];
+  if (list.length && list.every(isChatGptConversation)) return chatGptDrafts(list);
+  if (list.length && list.every(isMessage)) return transcriptDrafts(list);
+  if (list.length && list.every(t => isObj(t) && Array.isArray(t.messages))) {
+    return list.flatMap(t => transcriptDrafts(((t as Obj).messages as unknown[]).filter(isMessage)));
+  }
+  return null;
+}
+
+// ----------- Markdown and text -----------
+
+function markdownDrafts(text: string): Draft[] {
+  const doc = parseMarkdown(text);
+  const sections = [
+    ...(Array.isArray(doc.cards) ? doc.cards : []),
+    ...(Array.isArray(doc.layouts) ? doc.layouts.flatMap(l => (isObj(l) && Array.isArray(l.cards) ? l.cards : [])) : [])
+  ].filter(isObj);
+  return sections
+    .map(s => ({ title: String(s.title ?? '').trim(), text: String(s.text ?? '').trim(), tags: [] }))
+    .filter(d => d.text)
+    .map(d => ({ ...d, title: d.title || titleFromText(d.text) }));
+}
+
+// Folders between the picked one and the file, as a tag path
+function folderTag(path: string | undefined): string[] {
+  const dirs = (path ?? '').split('/').slice(1, -1);
+  const tag = normalizeTag(dirs.join('/'));
+  return tag ? [tag] : [];
+}
+
+// ----------- Entry point -----------
+
+/** Read prompts from chat exports, Markdown and plain text files. */
+export function readSources(files: SourceFile[]): SourceResult {
+  const now = Date.now();
+  const cards: Card[] = [];
+  const problems: string[] = [];
+  let chats = 0;
+
+  const sorted = [...files].sort((a, b) => (a.path ?? a.name).localeCompare(b.path ?? b.name, undefined, { numeric: true }));
+  for (const file of sorted) {
+    const label = file.path ?? file.name;
+    const kind = sourceKind(file.name);
+    if (!kind) {
+      if (!file.name.startsWith('.')) problems.push(`${label}: skipped (not a .txt, .md or .json file)`);
+      continue;
+    }
+    const text = file.text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    let drafts: Draft[];
+    if (kind === 'chat') {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (err) {
+        problems.push(`${label}: invalid JSON (${err instanceof Error ? err.message : String(err)})`);
+        continue;
+      }
+      const found = chatDrafts(data);
+      if (!found) {
+        problems.push(`${label}: not a chat export; use "Import Layout From File" for CopyAI files`);
+        continue;
+      }
+      drafts = found;
+      chats++;
+    } else if (kind === 'markdown') {
+      drafts = markdownDrafts(text);
+    } else {
+      drafts = text.trim() ? [{ title: baseName(file.name), text: text.trim(), tags: folderTag(file.path) }] : [];
+    }
+    if (drafts.length === 0) {
+      problems.push(`${label}: no prompts found`);
+      continue;
+    }
+    for (const d of drafts) {
+      const i = cards.length;
+      cards.push({
+        id: `c${now}_${i}`,
+        title: d.title,
+        text: d.text,
+        createdAt: d.createdAt ?? file.modifiedAt ?? now,
+        tags: d.tags
+      });
+    }
+  }
+
+  const folder = files.find(f => f.path?.includes('/'))?.path?.split('/')[0];
+  const title = folder
+    ?? (files.length === 1 ? baseName(files[0].name) : chats === files.length ? 'Chat prompts' : 'Imported prompts');
+  return { cards, problems, title };
+}
@@ -0,0 +1,136 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BackupRecord } from './backup';
+import { EMPTY_META, LEGACY_KEYS, StorageError, openStore } from './storage';
+import type { Card, LayoutEntry } from './types';
+
+const MIGRATED_KEY = 'copyai_idb';
+
+const card = (id: string, createdAt: number, order?: number): Card => ({ id, title: id, text: `${id} text`, createdAt, order });
+const layout: LayoutEntry = { id: 'L1', title: 'Daily', savedAt: 0, cards: [card('x', 1)] };
+const backup = (id: string): BackupRecord => ({ id, createdAt: 0, auto: false, fingerprint: id, counts: { cards: 0, layouts: 0 }, doc: '{}' });
+
+// A database at an older schema version, as an earlier release left it
+function createDb(version: number, setup: (db: IDBDatabase) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open('copyai', version);
+    req.onupgradeneeded = () => setup(req.result);
+    req.onsuccess = () => {
+      req.result.close();
+      resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('openStore with IndexedDB', () => {
+  it('imports the legacy localStorage keys on first run, then drops them', async () => {
+    localStorage.setItem(LEGACY_KEYS.cards, JSON.stringify([card('b', 2), card('a', 1)]));
+    localStorage.setItem(LEGACY_KEYS.layouts, JSON.stringify([layout]));
+    localStorage.setItem(LEGACY_KEYS.author, 'sam');
+    localStorage.setItem(LEGACY_KEYS.tagColors, JSON.stringify({ work: '#2563eb' }));
+
+    const store = await openStore();
+    expect(store.backend).toBe('indexeddb');
+    const state = await store.load();
+    expect(state.cards.map(c => c.id)).toEqual(['a', 'b']); // no order stamps: oldest first
+    expect(state.layouts).toEqual([layout]);
+    expect(state.meta).toEqual({ ...EMPTY_META, author: 'sam', tagColors: { work: '#2563eb' } });
+
+    expect(localStorage.getItem(MIGRATED_KEY)).toBe('1');
+    expect(Object.values(LEGACY_KEYS).filter(k => localStorage.getItem(k) !== null)).toEqual([]);
+  });
+
+  it('upgrades a version 1 database in place and keeps localStorage alone', async () => {
+    await createDb(1, db => {
+      db.createObjectStore('cards', { keyPath: 'id' }).put(card('a', 1, 0));
+      db.createObjectStore('layouts', { keyPath: 'id' });
+      db.createObjectStore('meta').put('sam', 'author');
+    });
+    localStorage.setItem(LEGACY_KEYS.author, 'someone else');
+
+    const store = await openStore();
+    const state = await store.load();
+    expect(state.cards.map(c => c.id)).toEqual(['a']);
+    expect(state.meta.author).toBe('sam');
+    expect(await store.listBackups()).toEqual([]); // the 1 -> 2 store exists
+    expect(localStorage.getItem(LEGACY_KEYS.author)).toBe('someone else');
+  });
+
+  it('keeps writes across reopening, including order and deletions', async () => {
+    const first = await openStore();
+    await first.load();
+    await first.saveCards([card('a', 1), card('b', 2), card('c', 3)]);
+    await first.saveCards([card('c', 3), card('a', 1)]);
+    await first.saveLayouts([layout]);
+    await first.saveMeta('author', 'sam');
+    await first.saveBackup(backup('k1'));
+    await first.saveBackup(backup('k2'));
+    await first.deleteBackups(['k1']);
+
+    const state = await (await openStore()).load();
+    expect(state.cards.map(c => [c.id, c.order])).toEqual([['c', 0], ['a', 1]]);
+    expect(state.layouts).toEqual([layout]);
+    expect(state.meta.author).toBe('sam');
+    expect((await (await openStore()).listBackups()).map(b => b.id)).toEqual(['k2']);
+  });
+});
+
+describe('openStore without IndexedDB', () => {
+  it('falls back to localStorage before the data has moved', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    localStorage.setItem(LEGACY_KEYS.cards, JSON.stringify([card('a', 1)]));
+
+    const store = await openStore();
+    expect(store.backend).toBe('localstorage');
+    expect((await store.load()).cards.map(c => c.id)).toEqual(['a']);
+
+    await store.saveCards([card('b', 2), card('a', 1)]);
+    await store.saveMeta('author', 'sam');
+    await store.saveMeta('preferences', { ...EMPTY_META.preferences, previewLines: 5 });
+    expect(JSON.parse(localStorage.getItem(LEGACY_KEYS.cards) as string).map((c: Card) => [c.id, c.order])).toEqual([['b', 0], ['a', 1]]);
+    expect(localStorage.getItem(LEGACY_KEYS.author)).toBe('sam'); // strings are stored as is
+    expect((await store.load()).meta.preferences.previewLines).toBe(5);
+
+    await store.saveBackup(backup('k1'));
+    await store.saveBackup(backup('k2'));
+    await store.deleteBackups(['k1']);
+    expect((await store.listBackups()).map(b => b.id)).toEqual(['k2']);
+  });
+
+  it('falls back when IndexedDB fails to open before the data has moved', async () => {
+    vi.stubGlobal('indexedDB', { open: () => { throw new Error('denied'); } });
+    expect((await openStore()).backend).toBe('localstorage');
+  });
+
+  it('refuses to start empty once the data lives in IndexedDB', async () => {
+    localStorage.setItem(MIGRATED_KEY, '1');
+    vi.stubGlobal('indexedDB', { open: () => { throw new Error('denied'); } });
+    const opening = openStore();
+    await expect(opening).rejects.toBeInstanceOf(StorageError);
+    await expect(opening).rejects.toThrow('IndexedDB could not be opened: denied');
+
+    vi.stubGlobal('indexedDB', undefined);
+    await expect(openStore()).rejects.toBeInstanceOf(StorageError);
+  });
+
+  it('reports a full localStorage as a quota error', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    const store = await openStore();
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    const saving = store.saveCards([card('a', 1)]);
+    await expect(saving).rejects.toMatchObject({ name: 'StorageError', quota: true, message: 'Could not save cards: storage quota exceeded' });
+  });
+});
@@ -0,0 +1,416 @@
+import { DEFAULT_BACKUP_SETTINGS, type BackupRecord, type BackupSettings } from './backup';
+import { DEFAULT_COPY_SETTINGS, type CopySettings } from './clipboard';
+import type { HistoryMap } from './history';
+import { sortCards, stampOrder } from './order';
+import { DEFAULT_PREFERENCES, type Preferences } from './preferences';
+import type { TagColors } from './tags';
+import { DEFAULT_THEME, type ThemeSettings } from './theme';
+import { DEFAULT_TOKEN_SETTINGS, type TokenSettings } from './tokens';
+import type { Card, LayoutEntry } from './types';
+import { EMPTY_USAGE, type UsageState } from './usage';
+
+// Persistence layer. The primary backend is IndexedDB with one record per
+// card/layout, so a change only rewrites what actually changed. When
+// IndexedDB is unavailable (private mode in some browsers, old WebViews)
+// the same interface falls back to the original localStorage keys, but
+// only while the data is still there: once it has moved to IndexedDB a
+// failure to open is an error rather than an empty library.
+//
+// Every write returns a promise that rejects with a StorageError; callers
+// surface it instead of silently losing data.
+
+export type MetaState = {
+  tagColors: TagColors;
+  templateValues: Record<string, Record<string, string>>; // card id -> variable -> last value
+  history: HistoryMap;
+  author: string;
+  backupSettings: BackupSettings;
+  copySettings: CopySettings;
+  usage: UsageState; // copy counts (see lib/usage.ts)
+  preferences: Preferences;
+  layoutTitle: string; // layout the page was opened from or saved as ('' = none)
+  theme: ThemeSettings;
+  tokenSettings: TokenSettings; // token counting and model limits (see lib/tokens.ts)
+};
+
+export type MetaKey = keyof MetaState;
+
+export type PersistedState = {
+  cards: Card[];
+  layouts: LayoutEntry[];
+  meta: MetaState;
+  // Shared backends only: records in this browser's own store that the
+  // shared library doesn't have, so they aren't shown (see Store.share)
+  localOnly?: { cards: Card[]; layouts: LayoutEntry[] };
+};
+
+export type Store = {
+  backend: 'indexeddb' | 'localstorage' | 'server';
+  load(): Promise<PersistedState>;
+  saveCards(cards: Card[]): Promise<void>;
+  saveLayouts(layouts: LayoutEntry[]): Promise<void>;
+  saveMeta<K extends MetaKey>(key: K, value: MetaState[K]): Promise<void>;
+  // Automatic and manual backups kept in this browser (see lib/backup.ts)
+  listBackups(): Promise<BackupRecord[]>;
+  saveBackup(backup: BackupRecord): Promise<void>;
+  deleteBackups(ids: string[]): Promise<void>;
+  // Shared backends only: fetch changes made elsewhere (null = none)
+  pull?(): Promise<{ cards: Card[]; layouts: LayoutEntry[] } | null>;
+  // Shared backends only: add records whose ids are new to the library
+  share?(cards: Card[], layouts: LayoutEntry[]): Promise<void>;
+};
+
+export class StorageError extends Error {
+  quota: boolean; // true when the browser ran out of storage space
+
+  constructor(message: string, quota = false) {
+    super(message);
+    this.name = 'StorageError';
+    this.quota = quota;
+  }
+}
+
+const DB_NAME = 'copyai';
+
+// Bump when the object stores or record shapes change, and add a step to
+// MIGRATIONS that upgrades data written by the previous version.
+export const SCHEMA_VERSION = 2;
+
+// Keys used before IndexedDB (schema version 0), and still by the
+// localStorage fallback
+export const LEGACY_KEYS = {
+  cards: 'copyai_cards',
+  layouts: 'copyai_layouts',
+  tagColors: 'copyai_tag_colors',
+  templateValues: 'copyai_template_values',
+  history: 'copyai_history',
+  author: 'copyai_author',
+  backupSettings: 'copyai_backup_settings',
+  copySettings: 'copyai_copy_settings',
+  usage: 'copyai_usage',
+  preferences: 'copyai_preferences',
+  layoutTitle: 'copyai_layout_title',
+  theme: 'copyai_theme',
+  tokenSettings: 'copyai_token_settings'
+} as const;
+
+// Backups in the localStorage fallback (not migrated; IndexedDB has its own)
+const BACKUPS_KEY = 'copyai_backups';
+
+// Set once the data lives in IndexedDB, after which the legacy keys are gone
+const MIGRATED_KEY = 'copyai_idb';
+
+export const EMPTY_META: MetaState = {
+  tagColors: {},
+  templateValues: {},
+  history: {},
+  author: '',
+  backupSettings: DEFAULT_BACKUP_SETTINGS,
+  copySettings: DEFAULT_COPY_SETTINGS,
+  usage: EMPTY_USAGE,
+  preferences: DEFAULT_PREFERENCES,
+  layoutTitle: '',
+  theme: DEFAULT_THEME,
+  tokenSettings: DEFAULT_TOKEN_SETTINGS
+};
+
+function toStorageError(err: unknown, what: string): StorageError {
+  const name = (err as { name?: string } | null)?.name ?? '';
+  const quota = name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+  const detail = quota ? 'storage quota exceeded' : (err as Error | null)?.message || String(err);
+  return new StorageError(`Could not save ${what}: ${detail}`, quota);
+}
+
+function readLegacy<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw) return JSON.parse(raw) as T;
+  } catch {}
+  return fallback;
+}
+
+// localStorage snapshot in the version-0 shape
+function readLegacyState(): PersistedState {
+  let author = '';
+  let layoutTitle = '';
+  try {
+    author = localStorage.getItem(LEGACY_KEYS.author) ?? '';
+    layoutTitle = localStorage.getItem(LEGACY_KEYS.layoutTitle) ?? '';
+  } catch {}
+  return {
+    cards: sortCards(readLegacy<Card[]>(LEGACY_KEYS.cards, [])),
+    layouts: readLegacy<LayoutEntry[]>(LEGACY_KEYS.layouts, []),
+    meta: {
+      tagColors: readLegacy(LEGACY_KEYS.tagColors, {}),
+      templateValues: readLegacy(LEGACY_KEYS.templateValues, {}),
+      history: readLegacy(LEGACY_KEYS.history, {}),
+      author,
+      backupSettings: readLegacy(LEGACY_KEYS.backupSettings, DEFAULT_BACKUP_SETTINGS),
+      copySettings: readLegacy(LEGACY_KEYS.copySettings, DEFAULT_COPY_SETTINGS),
+      usage: readLegacy(LEGACY_KEYS.usage, EMPTY_USAGE),
+      preferences: readLegacy(LEGACY_KEYS.preferences, DEFAULT_PREFERENCES),
+      layoutTitle,
+      theme: readLegacy(LEGACY_KEYS.theme, DEFAULT_THEME),
+      tokenSettings: readLegacy(LEGACY_KEYS.tokenSettings, DEFAULT_TOKEN_SETTINGS)
+    }
+  };
+}
+
+// ----------- IndexedDB backend -----------
+
+// Each step upgrades a database at version (index) to version (index + 1).
+// Runs inside the versionchange transaction, so a failure aborts the whole
+// upgrade and leaves the previous data untouched.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 0 -> 1: create stores and import the old localStorage keys
+  (db, tx) => {
+    db.createObjectStore('cards', { keyPath: 'id' });
+    db.createObjectStore('layouts', { keyPath: 'id' });
+    db.createObjectStore('meta');
+    const legacy = readLegacyState();
+    stampOrder(legacy.cards).forEach(c => tx.objectStore('cards').put(c));
+    legacy.layouts.forEach(l => tx.objectStore('layouts').put(l));
+    for (const [k, v] of Object.entries(legacy.meta)) tx.objectStore('meta').put(v, k);
+  },
+  // 1 -> 2: local backups
+  (db) => {
+    db.createObjectStore('backups', { keyPath: 'id' });
+  }
+];
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+}
+
+function openDb(): Promise<{ db: IDBDatabase; migratedFrom: number }> {
+  return new Promise((resolve, reject) => {
+    let migratedFrom = SCHEMA_VERSION;
+    const req = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    req.onupgradeneeded = (e) => {
+      const tx = req.transaction as IDBTransaction;
+      migratedFrom = e.oldVersion;
+      for (let v = e.oldVersion; v < SCHEMA_VERSION; v++) MIGRATIONS[v](req.result, tx);
+    };
+    req.onsuccess = () => resolve({ db: req.result, migratedFrom });
+    req.onerror = () => reject(req.error);
+    // Only when a tab without the versionchange handler below keeps an older
+    // version open; the database exists, so this is never a first run
+    req.onblocked = () => reject(new StorageError('Database upgrade blocked by another open tab; close it and reload'));
+  });
+}
+
+// Remember what was last written per record so saves only touch changes
+function diff<T extends { id: string }>(written: Map<string, string>, items: T[]) {
+  const next = new Map(items.map(x => [x.id, JSON.stringify(x)]));
+  const put = items.filter(x => written.get(x.id) !== next.get(x.id));
+  const del = [...written.keys()].filter(id => !next.has(id));
+  return { next, put, del };
+}
+
+async function openIndexedDbStore(): Promise<Store> {
+  const { db, migratedFrom } = await openDb();
+
+  // Legacy keys are only dropped once their data is safely in IndexedDB
+  try {
+    localStorage.setItem(MIGRATED_KEY, '1');
+    if (migratedFrom === 0) Object.values(LEGACY_KEYS).forEach(k => localStorage.removeItem(k));
+  } catch {}
+
+  // Another tab upgrading the schema: step aside instead of blocking it.
+  // This tab's later writes fail (and say so) until it is reloaded.
+  let closed = false;
+  db.onversionchange = () => {
+    db.close();
+    closed = true;
+  };
+
+  function transaction(names: string | string[], mode: IDBTransactionMode): IDBTransaction {
+    if (closed) throw new StorageError('the database was upgraded by another tab; reload this one');
+    return db.transaction(names, mode);
+  }
+
+  let writtenCards = new Map<string, string>();
+  let writtenLayouts = new Map<string, string>();
+
+  async function saveRecords<T extends { id: string }>(
+    storeName: 'cards' | 'layouts',
+    written: Map<string, string>,
+    items: T[]
+  ): Promise<Map<string, string>> {
+    const { next, put, del } = diff(written, items);
+    if (put.length === 0 && del.length === 0) return written;
+    try {
+      const tx = transaction(storeName, 'readwrite');
+      const os = tx.objectStore(storeName);
+      put.forEach(x => os.put(x));
+      del.forEach(id => os.delete(id));
+      await done(tx);
+    } catch (err) {
+      throw toStorageError(err, storeName);
+    }
+    return next;
+  }
+
+  return {
+    backend: 'indexeddb',
+
+    async load() {
+      const tx = transaction(['cards', 'layouts', 'meta'], 'readonly');
+      const [cards, layouts, metaKeys, metaValues] = await Promise.all([
+        request(tx.objectStore('cards').getAll() as IDBRequest<Card[]>),
+        request(tx.objectStore('layouts').getAll() as IDBRequest<LayoutEntry[]>),
+        request(tx.objectStore('meta').getAllKeys()),
+        request(tx.objectStore('meta').getAll())
+      ]);
+      const meta: MetaState = { ...EMPTY_META };
+      metaKeys.forEach((k, i) => {
+        if (typeof k === 'string' && k in meta) (meta as Record<string, unknown>)[k] = metaValues[i];
+      });
+      const sorted = sortCards(cards);
+      writtenCards = diff(new Map(), stampOrder(sorted)).next;
+      // getAll() returns key order; layout ids are time-based, so this is
+      // the order they were added to the library
+      writtenLayouts = diff(new Map(), layouts).next;
+      return { cards: sorted, layouts, meta };
+    },
+
+    async saveCards(cards) {
+      writtenCards = await saveRecords('cards', writtenCards, stampOrder(cards));
+    },
+
+    async saveLayouts(layouts) {
+      writtenLayouts = await saveRecords('layouts', writtenLayouts, layouts);
+    },
+
+    async saveMeta(key, value) {
+      try {
+        const tx = transaction('meta', 'readwrite');
+        tx.objectStore('meta').put(value, key);
+        await done(tx);
+      } catch (err) {
+        throw toStorageError(err, key);
+      }
+    },
+
+    async listBackups() {
+      const tx = transaction('backups', 'readonly');
+      return request(tx.objectStore('backups').getAll() as IDBRequest<BackupRecord[]>);
+    },
+
+    async saveBackup(backup) {
+      try {
+        const tx = transaction('backups', 'readwrite');
+        tx.objectStore('backups').put(backup);
+        await done(tx);
+      } catch (err) {
+        throw toStorageError(err, 'backup');
+      }
+    },
+
+    async deleteBackups(ids) {
+      if (ids.length === 0) return;
+      try {
+        const tx = transaction('backups', 'readwrite');
+        ids.forEach(id => tx.objectStore('backups').delete(id));
+        await done(tx);
+      } catch (err) {
+        throw toStorageError(err, 'backups');
+      }
+    }
+  };
+}
+
+// ----------- localStorage fallback -----------
+
+function openLocalStorageStore(): Store {
+  function write(key: string, value: string, what: string) {
+    try {
+      localStorage.setItem(key, value);
+    } catch (err) {
+      throw toStorageError(err, what);
+    }
+  }
+
+  return {
+    backend: 'localstorage',
+    async load() {
+      return readLegacyState();
+    },
+    async saveCards(cards) {
+      write(LEGACY_KEYS.cards, JSON.stringify(stampOrder(cards)), 'cards');
+    },
+    async saveLayouts(layouts) {
+      write(LEGACY_KEYS.layouts, JSON.stringify(layouts), 'layouts');
+    },
+    async saveMeta(key, value) {
+      write(LEGACY_KEYS[key], typeof value === 'string' ? value : JSON.stringify(value), key);
+    },
+    async listBackups() {
+      return readLegacy<BackupRecord[]>(BACKUPS_KEY, []);
+    },
+    async saveBackup(backup) {
+      const list = readLegacy<BackupRecord[]>(BACKUPS_KEY, []).filter(b => b.id !== backup.id);
+      write(BACKUPS_KEY, JSON.stringify([...list, backup]), 'backup');
+    },
+    async deleteBackups(ids) {
+      const drop = new Set(ids);
+      write(BACKUPS_KEY, JSON.stringify(readLegacy<BackupRecord[]>(BACKUPS_KEY, []).filter(b => !drop.has(b.id))), 'backups');
+    }
+  };
+}
+
+function migrated(): boolean {
+  try {
+    return localStorage.getItem(MIGRATED_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open the best available backend (IndexedDB, else localStorage). Rejects
+ * with a StorageError when IndexedDB already holds the data but can't be
+ * opened, rather than falling back to an empty localStorage.
+ */
+export async function openStore(): Promise<Store> {
+  if (typeof indexedDB === 'undefined' && !migrated()) return openLocalStorageStore();
+  try {
+    return await openIndexedDbStore();
+  } catch (err) {
+    if (err instanceof StorageError) throw err;
+    if (migrated()) throw new StorageError(`IndexedDB could not be opened: ${(err as Error | null)?.message || String(err)}`);
+    return openLocalStorageStore();
+  }
+}
+
+/**
+ * Run a store write and mirror its outcome into a map of save errors keyed
+ * by what was written: an entry appears when the write fails and goes away
+ * once a later write of the same key succeeds.
+ */
+export function track(
+  key: string,
+  write: Promise<void> | undefined,
+  setErrors: (update: (prev: Record<string, string>) => Record<string, string>) => void
+) {
+  write?.then(
+    () => setErrors(prev => {
+      if (!(key in prev)) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    }),
+    (err: unknown) => setErrors(prev => ({ ...prev, [key]: err instanceof Error ? err.message : String(err) }))
+  );
+}
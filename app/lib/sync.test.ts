@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { announce, makeBase, sameAsBase, serialize, threeWayMerge, type SyncState } from './sync';
+import type { Card } from './types';
+
+const card = (id: string, text = `${id} text`): Card => ({ id, title: id, text, createdAt: 1 });
+const ids = (list: { id: string }[]) => list.map(x => x.id);
+
+describe('serialize / sameAsBase', () => {
+  it('ignores the order stamp but not list position', () => {
+    expect(serialize({ ...card('a'), order: 3 })).toBe(serialize(card('a')));
+    const base = makeBase([card('a'), card('b')]);
+    expect(sameAsBase(base, [{ ...card('a'), order: 0 }, card('b')])).toBe(true);
+    expect(sameAsBase(base, [card('b'), card('a')])).toBe(false);
+    expect(sameAsBase(base, [card('a'), card('b', 'changed')])).toBe(false);
+  });
+});
+
+describe('threeWayMerge', () => {
+  const base = makeBase([card('a'), card('b'), card('c')]);
+
+  it('takes whichever side changed an item', () => {
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      [card('a', 'mine'), card('b'), card('c')],
+      [card('a'), card('b', 'theirs'), card('c')]
+    );
+    expect(merged.map(c => c.text)).toEqual(['mine', 'theirs', 'c text']);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('adds items new on either side and drops items deleted on one side', () => {
+    const { merged } = threeWayMerge(base, [card('a'), card('b'), card('c'), card('d')], [card('a'), card('c'), card('e')]);
+    // Adding d changed the order here, so it leads; e follows
+    expect(ids(merged)).toEqual(['a', 'c', 'd', 'e']);
+  });
+
+  it('reports concurrent edits as conflicts and keeps the remote copy meanwhile', () => {
+    const { merged, conflicts } = threeWayMerge(
+      base,
+      [card('a', 'mine'), card('b'), card('c')],
+      [card('a', 'theirs'), card('b'), card('c')]
+    );
+    expect(merged[0].text).toBe('theirs');
+    expect(conflicts).toEqual([{ local: card('a', 'mine'), remote: card('a', 'theirs') }]);
+  });
+
+  it('treats the same change on both sides as agreement', () => {
+    const both = [card('a', 'same'), card('b'), card('c')];
+    expect(threeWayMerge(base, both, both).conflicts).toEqual([]);
+  });
+
+  it('reports an edit here to an item deleted there, and keeps an edit there to one deleted here', () => {
+    const editedHere = threeWayMerge(base, [card('a', 'mine'), card('b'), card('c')], [card('b'), card('c')]);
+    expect(ids(editedHere.merged)).toEqual(['b', 'c']);
+    expect(editedHere.conflicts).toEqual([{ local: card('a', 'mine'), remote: null }]);
+
+    const editedThere = threeWayMerge(base, [card('b'), card('c')], [card('a', 'theirs'), card('b'), card('c')]);
+    expect(editedThere.merged.map(c => c.text)).toEqual(['b text', 'c text', 'theirs']);
+    expect(editedThere.conflicts).toEqual([]);
+  });
+
+  it('follows the remote order unless the order changed here', () => {
+    const reorderedThere = threeWayMerge(base, [card('a'), card('b'), card('c')], [card('c'), card('a'), card('b')]);
+    expect(ids(reorderedThere.merged)).toEqual(['c', 'a', 'b']);
+    const reorderedHere = threeWayMerge(base, [card('b'), card('a'), card('c')], [card('c'), card('a'), card('b', 'theirs')]);
+    expect(ids(reorderedHere.merged)).toEqual(['b', 'a', 'c']);
+    expect(reorderedHere.merged[0].text).toBe('theirs');
+  });
+});
+
+describe('announce', () => {
+  function sync(): SyncState {
+    return { channel: { post: vi.fn(), close: vi.fn() }, cards: makeBase([card('a')]), layouts: makeBase([]), meta: {} };
+  }
+
+  it('posts changes once and moves the base along', () => {
+    const s = sync();
+    announce(s, { kind: 'cards', cards: [card('a')] }); // what the other tabs already have
+    expect(s.channel?.post).not.toHaveBeenCalled();
+
+    announce(s, { kind: 'cards', cards: [card('a'), card('b')] });
+    announce(s, { kind: 'meta', key: 'author', value: 'sam' });
+    announce(s, { kind: 'meta', key: 'author', value: 'sam' });
+    expect(s.channel?.post).toHaveBeenCalledTimes(2);
+    expect(sameAsBase(s.cards, [card('a'), card('b')])).toBe(true);
+  });
+});
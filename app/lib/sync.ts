@@ -0,0 +1,159 @@
+import type { MetaKey, MetaState } from './storage';
+import type { Card, LayoutEntry } from './types';
+
+// Cross-tab synchronisation. After a tab persists a change it broadcasts
+// its new state; other tabs merge it into their live state against the
+// last state both sides agreed on (the "base"), so a tab only takes what
+// actually changed elsewhere and genuine concurrent edits are reported
+// as conflicts rather than silently overwritten.
+
+export type SyncMessage =
+  | { kind: 'cards'; cards: Card[] }
+  | { kind: 'layouts'; layouts: LayoutEntry[] }
+  | { kind: 'meta'; key: MetaKey; value: MetaState[MetaKey] };
+
+export type SyncChannel = {
+  post(msg: SyncMessage): void;
+  close(): void;
+};
+
+const CHANNEL_NAME = 'copyai-sync';
+// localStorage key used to relay messages where BroadcastChannel is missing
+const RELAY_KEY = 'copyai_sync_relay';
+
+/** Subscribe to messages from other tabs (never receives its own). */
+export function openChannel(onMessage: (msg: SyncMessage) => void): SyncChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const bc = new BroadcastChannel(CHANNEL_NAME);
+    bc.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+    return {
+      post: msg => bc.postMessage(msg),
+      close: () => bc.close()
+    };
+  }
+
+  // Fallback: the storage event fires in every other tab on setItem
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== RELAY_KEY || !e.newValue) return;
+    try { onMessage(JSON.parse(e.newValue) as SyncMessage); } catch {}
+  };
+  window.addEventListener('storage', onStorage);
+  return {
+    post: msg => {
+      try {
+        localStorage.setItem(RELAY_KEY, JSON.stringify(msg));
+        localStorage.removeItem(RELAY_KEY);
+      } catch {}
+    },
+    close: () => window.removeEventListener('storage', onStorage)
+  };
+}
+
+// ----------- Three-way merge -----------
+
+// `order` is only a persistence stamp (see lib/order.ts); list position is
+// compared separately, so leave it out of item comparisons
+export function serialize(x: unknown): string {
+  return JSON.stringify(x, (k, v) => (k === 'order' ? undefined : v));
+}
+
+/** Last agreed state of a list: id order plus serialized items. */
+export type SyncBase = {
+  order: string[];
+  items: Map<string, string>;
+};
+
+export function makeBase<T extends { id: string }>(list: T[]): SyncBase {
+  return {
+    order: list.map(x => x.id),
+    items: new Map(list.map(x => [x.id, serialize(x)]))
+  };
+}
+
+/** True when `list` is exactly what `base` recorded. */
+export function sameAsBase<T extends { id: string }>(base: SyncBase, list: T[]): boolean {
+  return list.length === base.order.length
+    && list.every((x, i) => base.order[i] === x.id && base.items.get(x.id) === serialize(x));
+}
+
+export type Conflict<T> = { local: T; remote: T | null }; // remote null = deleted there
+
+export type MergeResult<T> = {
+  merged: T[];
+  conflicts: Conflict<T>[]; // remote side is in `merged`; local is held here
+};
+
+/**
+ * Merge `remote` into `local` relative to `base`. Per item: whichever side
+ * changed wins; if both changed differently the remote copy goes into the
+ * result and the local one is reported as a conflict, so nothing is pushed
+ * back over the other side before the user decides. Order follows the
+ * remote list unless the local order changed since `base`.
+ */
+export function threeWayMerge<T extends { id: string }>(base: SyncBase, local: T[], remote: T[]): MergeResult<T> {
+  const localMap = new Map(local.map(x => [x.id, x]));
+  const remoteMap = new Map(remote.map(x => [x.id, x]));
+  const ids = new Set([...local.map(x => x.id), ...remote.map(x => x.id)]);
+  const result = new Map<string, T>();
+  const conflicts: Conflict<T>[] = [];
+
+  for (const id of ids) {
+    const b = base.items.get(id);
+    const l = localMap.get(id);
+    const r = remoteMap.get(id);
+    const ls = l ? serialize(l) : undefined;
+    const rs = r ? serialize(r) : undefined;
+
+    if (ls === rs) {
+      if (l) result.set(id, l);
+    } else if (ls === b) {
+      if (r) result.set(id, r); // only remote changed (or deleted)
+    } else if (rs === b) {
+      if (l) result.set(id, l); // only local changed (or deleted)
+    } else if (l) {
+      if (r) result.set(id, r);
+      conflicts.push({ local: l, remote: r ?? null });
+    } else if (r) {
+      // Deleted here but edited there: keep the edit rather than lose it
+      result.set(id, r);
+    }
+  }
+
+  const localOrderChanged = local.map(x => x.id).join('\n') !== base.order.join('\n');
+  const primary = localOrderChanged ? local : remote;
+  const secondary = localOrderChanged ? remote : local;
+  const merged: T[] = [];
+  const seen = new Set<string>();
+  for (const x of [...primary, ...secondary]) {
+    if (seen.has(x.id) || !result.has(x.id)) continue;
+    seen.add(x.id);
+    merged.push(result.get(x.id) as T);
+  }
+  return { merged, conflicts };
+}
+
+// ----------- This tab's side -----------
+
+/** What this tab last agreed on with the other open tabs. */
+export type SyncState = {
+  channel: SyncChannel | null;
+  cards: SyncBase;
+  layouts: SyncBase;
+  meta: Partial<Record<MetaKey, string>>;
+};
+
+/** After a successful write, tell other tabs, unless the state came from them. */
+export function announce(sync: SyncState, msg: SyncMessage) {
+  if (msg.kind === 'cards') {
+    if (sameAsBase(sync.cards, msg.cards)) return;
+    sync.cards = makeBase(msg.cards);
+  } else if (msg.kind === 'layouts') {
+    if (sameAsBase(sync.layouts, msg.layouts)) return;
+    sync.layouts = makeBase(msg.layouts);
+  } else {
+    const value = serialize(msg.value);
+    if (sync.meta[msg.key] === value) return;
+    sync.meta[msg.key] = value;
+  }
+  sync.channel?.post(msg);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { highlightCode } from './syntax';
+
+describe('highlightCode', () => {
+  it('marks comments, strings, numbers and keywords', () => {
+    expect(highlightCode('const s = "a<b"; // note\nreturn 0x1F;', 'ts')).toBe(
+      '<span class="tok-keyword">const</span> s = <span class="tok-string">&quot;a&lt;b&quot;</span>; '
+      + '<span class="tok-comment">// note</span>\n<span class="tok-keyword">return</span> <span class="tok-number">0x1F</span>;'
+    );
+  });
+
+  it('matches SQL keywords in any case', () => {
+    expect(highlightCode('SELECT 1', 'sql')).toBe('<span class="tok-keyword">SELECT</span> <span class="tok-number">1</span>');
+  });
+
+  it('keeps keywords inside strings and comments unmarked', () => {
+    expect(highlightCode("# if not\nprint('if')", 'python')).toBe(
+      '<span class="tok-comment"># if not</span>\nprint(<span class="tok-string">&#39;if&#39;</span>)'
+    );
+  });
+
+  it('escapes code in unknown languages and ignores Object.prototype names', () => {
+    expect(highlightCode('<b>if</b>', 'text')).toBe('&lt;b&gt;if&lt;/b&gt;');
+    expect(highlightCode('if', 'constructor')).toBe('if');
+  });
+});
@@ -0,0 +1,120 @@
+import { escapeHtml } from './markdown';
+
+// Lightweight syntax highlighting for fenced code in card previews. It
+// only tells comments, strings, numbers and keywords apart, which is
+// enough to make code in a prompt readable; code in an unknown language
+// is escaped and left plain. Tokens become <span class="tok-…">, styled
+// in globals.css.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword';
+
+type Grammar = {
+  comment: string; // regex source for comments
+  string: string; // regex source for string literals
+  keywords: string[];
+  ignoreCase?: boolean; // keywords match in any case (SQL)
+};
+
+const DQ = '"(?:[^"\\\\\\n]|\\\\.)*"?';
+const SQ = "'(?:[^'\\\\\\n]|\\\\.)*'?";
+const BT = '`(?:[^`\\\\]|\\\\.)*`?';
+const LINE = (start: string) => `${start}[^\\n]*`;
+const BLOCK = '/\\*[\\s\\S]*?(?:\\*/|$)';
+
+const C_LIKE: Grammar = {
+  comment: `${LINE('//')}|${BLOCK}`,
+  string: `${DQ}|${SQ}|${BT}`,
+  keywords: [
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do',
+    'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'from', 'func', 'function', 'if',
+    'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'match', 'mut', 'new', 'null', 'package',
+    'private', 'protected', 'pub', 'public', 'return', 'static', 'struct', 'super', 'switch', 'this', 'throw',
+    'true', 'try', 'type', 'typeof', 'undefined', 'use', 'var', 'void', 'while', 'yield'
+  ]
+};
+
+const HASH: Grammar = {
+  comment: LINE('#'),
+  string: `"""[\\s\\S]*?(?:"""|$)|'''[\\s\\S]*?(?:'''|$)|${DQ}|${SQ}`,
+  keywords: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'case', 'class', 'continue', 'def', 'del', 'do', 'done',
+    'elif', 'else', 'end', 'esac', 'except', 'export', 'False', 'false', 'fi', 'finally', 'for', 'from', 'function',
+    'if', 'import', 'in', 'is', 'lambda', 'local', 'module', 'None', 'nil', 'not', 'null', 'or', 'pass', 'raise',
+    'require', 'return', 'then', 'True', 'true', 'try', 'unless', 'while', 'with', 'yield'
+  ]
+};
+
+const SQL: Grammar = {
+  comment: `${LINE('--')}|${BLOCK}`,
+  string: `${SQ}|${DQ}`,
+  keywords: [
+    'add', 'alter', 'and', 'as', 'asc', 'by', 'case', 'create', 'delete', 'desc', 'distinct', 'drop', 'else', 'end',
+    'exists', 'from', 'group', 'having', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'left', 'like',
+    'limit', 'not', 'null', 'on', 'or', 'order', 'outer', 'right', 'select', 'set', 'table', 'then', 'union',
+    'update', 'values', 'when', 'where', 'with'
+  ],
+  ignoreCase: true
+};
+
+const JSON_GRAMMAR: Grammar = {
+  comment: LINE('//'), // JSONC
+  string: DQ,
+  keywords: ['true', 'false', 'null']
+};
+
+// Fence info string (```ts) -> grammar. A Map, so info strings such as
+// "constructor" don't find Object.prototype members.
+const LANGUAGES = new Map<string, Grammar>();
+const register = (grammar: Grammar, names: string[]) => names.forEach(n => LANGUAGES.set(n, grammar));
+register(C_LIKE, [
+  'js', 'javascript', 'jsx', 'mjs', 'ts', 'typescript', 'tsx', 'java', 'c', 'h', 'cpp', 'c++', 'cs', 'csharp',
+  'go', 'rust', 'rs', 'swift', 'kotlin', 'kt', 'scala', 'dart', 'php'
+]);
+register(HASH, ['py', 'python', 'rb', 'ruby', 'sh', 'bash', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'r', 'perl', 'pl']);
+register(SQL, ['sql', 'mysql', 'postgres', 'postgresql', 'sqlite']);
+register(JSON_GRAMMAR, ['json', 'jsonc', 'json5']);
+
+// One combined pattern per grammar; the capture group says what matched
+const compiled = new Map<Grammar, { pattern: RegExp; keywords: Set<string> }>();
+
+function compile(grammar: Grammar) {
+  let hit = compiled.get(grammar);
+  if (!hit) {
+    const number = '\\b(?:0x[0-9a-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b';
+    hit = {
+      pattern: new RegExp(`(${grammar.comment})|(${grammar.string})|(${number})|([A-Za-z_$][\\w$]*)`, 'g'),
+      keywords: new Set(grammar.ignoreCase ? grammar.keywords.map(k => k.toLowerCase()) : grammar.keywords)
+    };
+    compiled.set(grammar, hit);
+  }
+  return hit;
+}
+
+function span(kind: TokenKind, text: string): string {
+  return `<span class="tok-${kind}">${escapeHtml(text)}</span>`;
+}
+
+/** `code` as escaped HTML, with tokens wrapped when `lang` is known. */
+export function highlightCode(code: string, lang: string): string {
+  const grammar = LANGUAGES.get(lang.toLowerCase());
+  if (!grammar) return escapeHtml(code);
+  const { pattern, keywords } = compile(grammar);
+  pattern.lastIndex = 0;
+  let out = '';
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(code))) {
+    if (m[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    out += escapeHtml(code.slice(last, m.index));
+    if (m[1]) out += span('comment', m[0]);
+    else if (m[2]) out += span('string', m[0]);
+    else if (m[3]) out += span('number', m[0]);
+    else if (keywords.has(grammar.ignoreCase ? m[0].toLowerCase() : m[0])) out += span('keyword', m[0]);
+    else out += escapeHtml(m[0]);
+    last = m.index + m[0].length;
+  }
+  return out + escapeHtml(code.slice(last));
+}
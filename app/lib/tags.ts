@@ -0,0 +1,96 @@
+import type { Card } from './types';
+
+// Tags are free-form strings on each card. A "/" nests a tag inside a
+// folder ("outreach/follow-up" lives in "outreach"), and filtering by a
+// folder matches everything underneath it. Colours are kept separately,
+// keyed by tag path, and inherited from the nearest coloured ancestor.
+
+export type TagColors = Record<string, string>;
+
+// Sidebar pseudo-tag selecting cards without any tags
+export const UNTAGGED = '\u0000untagged';
+
+/** Trim, collapse whitespace and tidy slashes; returns '' for junk. */
+export function normalizeTag(raw: string): string {
+  return raw
+    .split('/')
+    .map(part => part.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join('/');
+}
+
+/** Parse a comma-separated tag field into unique normalized tags. */
+export function parseTagInput(input: string): string[] {
+  return uniqueTags(input.split(','));
+}
+
+/** Normalize an unknown value (e.g. from an imported file) into tags. */
+export function normalizeTags(value: unknown): string[] {
+  if (Array.isArray(value)) return uniqueTags(value.map(v => String(v ?? '')));
+  if (typeof value === 'string') return parseTagInput(value);
+  return [];
+}
+
+function uniqueTags(list: string[]): string[] {
+  const out: string[] = [];
+  for (const raw of list) {
+    const t = normalizeTag(raw);
+    if (t && !out.includes(t)) out.push(t);
+  }
+  return out;
+}
+
+/** "a/b/c" -> ["a", "a/b", "a/b/c"] */
+export function tagAncestry(tag: string): string[] {
+  const parts = tag.split('/');
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+/** True when `tag` is `folder` itself or nested anywhere inside it. */
+export function isUnder(tag: string, folder: string): boolean {
+  return tag === folder || tag.startsWith(folder + '/');
+}
+
+/** Every tag path in use (folders included) with the number of cards under it. */
+export function tagCounts(cards: Card[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const c of cards) {
+    const paths = new Set((c.tags ?? []).flatMap(tagAncestry));
+    for (const p of paths) counts.set(p, (counts.get(p) ?? 0) + 1);
+  }
+  return new Map([...counts.entries()].sort((a, b) => a[0].localeCompare(b[0])));
+}
+
+/** Card passes when no filter is set or it matches any selected tag/folder. */
+export function matchesTagFilter(card: Card, selected: Set<string>): boolean {
+  if (selected.size === 0) return true;
+  const tags = card.tags ?? [];
+  if (selected.has(UNTAGGED) && tags.length === 0) return true;
+  return tags.some(t => [...selected].some(sel => sel !== UNTAGGED && isUnder(t, sel)));
+}
+
+/** Colour for `tag`, falling back to its nearest coloured folder. */
+export function tagColor(tag: string, colors: TagColors): string | undefined {
+  const chain = tagAncestry(tag).reverse();
+  for (const p of chain) if (colors[p]) return colors[p];
+  return undefined;
+}
+
+/** Keep a valid #rrggbb colour map from an unknown value. */
+export function normalizeTagColors(value: unknown): TagColors {
+  const out: TagColors = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return out;
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    const tag = normalizeTag(k);
+    if (tag && typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v)) out[tag] = v;
+  }
+  return out;
+}
+
+/** Subset of `colors` relevant to `cards` (for exports). */
+export function colorsFor(cards: Card[], colors: TagColors): TagColors {
+  const used = new Set(cards.flatMap(c => (c.tags ?? []).flatMap(tagAncestry)));
+  const out: TagColors = {};
+  for (const [k, v] of Object.entries(colors)) if (used.has(k)) out[k] = v;
+  return out;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { describeIssue, parseTemplate, renderTemplate } from './templates';
+
+describe('parseTemplate', () => {
+  it('finds plain, default and choice placeholders', () => {
+    expect(parseTemplate('Hi {{name}}, {{tone=friendly}} in {{lang=en|de|fr}}').vars).toEqual([
+      { name: 'name', defaultValue: '', choices: [] },
+      { name: 'tone', defaultValue: 'friendly', choices: [] },
+      { name: 'lang', defaultValue: 'en', choices: ['en', 'de', 'fr'] }
+    ]);
+  });
+
+  it('keeps the first declaration of a repeated name', () => {
+    const { vars } = parseTemplate('{{x=one}} and {{x=two}}');
+    expect(vars).toEqual([{ name: 'x', defaultValue: 'one', choices: [] }]);
+  });
+
+  it('leaves include directives alone', () => {
+    expect(parseTemplate('{{> c1}} {{topic}}')).toEqual({
+      vars: [{ name: 'topic', defaultValue: '', choices: [] }],
+      issues: []
+    });
+  });
+
+  it('reports malformed placeholders', () => {
+    const messages = (text: string) => parseTemplate(text).issues.map(i => i.message);
+    expect(messages('a {{ }}')).toEqual(['Empty placeholder name']);
+    expect(messages('{{1st}}')).toEqual(['Invalid placeholder name "1st"']);
+    expect(messages('{{a {{b}}')).toEqual(['Nested "{{" inside a placeholder']);
+    expect(messages('text {{open')).toEqual(['Unclosed placeholder "{{"']);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills in values, falling back to defaults', () => {
+    expect(renderTemplate('{{greet=Hello}}, {{name}}! ({{lang=en|de}})', { name: 'Ada' })).toBe('Hello, Ada! (en)');
+  });
+
+  it('prefers given values over defaults, even empty ones', () => {
+    expect(renderTemplate('[{{x=default}}]', { x: '' })).toBe('[]');
+  });
+
+  it('keeps malformed placeholders and includes as written', () => {
+    expect(renderTemplate('{{ }} {{> c1}} {{open', {})).toBe('{{ }} {{> c1}} {{open');
+  });
+});
+
+describe('describeIssue', () => {
+  it('names the line the issue is on', () => {
+    const text = 'first\nsecond {{ }}';
+    expect(describeIssue(text, parseTemplate(text).issues[0])).toBe('Empty placeholder name (line 2)');
+  });
+});
@@ -0,0 +1,118 @@
+// Template placeholders inside card text.
+//
+// Syntax:
+//   {{name}}              plain variable
+//   {{name=default}}      variable with a default value
+//   {{name=a|b|c}}        choice list (first option is the default)
+//
+// Variable names start with a letter or underscore and may contain
+// letters, digits, "_", "-" and ".". "{{> id}}" includes another card
+// (see lib/includes.ts) and is passed through as text.
+
+export type TemplateVar = {
+  name: string;
+  defaultValue: string;
+  choices: string[]; // empty = free text
+};
+
+export type TemplateIssue = {
+  index: number; // offset in the source text
+  message: string;
+};
+
+export type ParsedTemplate = {
+  vars: TemplateVar[];
+  issues: TemplateIssue[];
+};
+
+const NAME_RE = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; name: string; spec: string | null };
+
+function tokenize(text: string): { tokens: Token[]; issues: TemplateIssue[] } {
+  const tokens: Token[] = [];
+  const issues: TemplateIssue[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text.indexOf('{{', i);
+    if (open === -1) {
+      tokens.push({ kind: 'text', value: text.slice(i) });
+      break;
+    }
+    if (open > i) tokens.push({ kind: 'text', value: text.slice(i, open) });
+
+    const close = text.indexOf('}}', open + 2);
+    if (close === -1) {
+      issues.push({ index: open, message: 'Unclosed placeholder "{{"' });
+      tokens.push({ kind: 'text', value: text.slice(open) });
+      break;
+    }
+
+    const inner = text.slice(open + 2, close);
+    if (inner.trimStart().startsWith('>')) {
+      tokens.push({ kind: 'text', value: text.slice(open, close + 2) });
+      i = close + 2;
+      continue;
+    }
+    if (inner.includes('{{')) {
+      issues.push({ index: open, message: 'Nested "{{" inside a placeholder' });
+      tokens.push({ kind: 'text', value: text.slice(open, close + 2) });
+      i = close + 2;
+      continue;
+    }
+
+    const eq = inner.indexOf('=');
+    const name = (eq === -1 ? inner : inner.slice(0, eq)).trim();
+    const spec = eq === -1 ? null : inner.slice(eq + 1);
+
+    if (!name) {
+      issues.push({ index: open, message: 'Empty placeholder name' });
+      tokens.push({ kind: 'text', value: text.slice(open, close + 2) });
+    } else if (!NAME_RE.test(name)) {
+      issues.push({ index: open, message: `Invalid placeholder name "${name}"` });
+      tokens.push({ kind: 'text', value: text.slice(open, close + 2) });
+    } else {
+      tokens.push({ kind: 'var', name, spec });
+    }
+    i = close + 2;
+  }
+
+  return { tokens, issues };
+}
+
+function parseSpec(spec: string | null): { defaultValue: string; choices: string[] } {
+  if (spec === null) return { defaultValue: '', choices: [] };
+  if (!spec.includes('|')) return { defaultValue: spec.trim(), choices: [] };
+  const choices = spec.split('|').map(s => s.trim()).filter(Boolean);
+  return { defaultValue: choices[0] ?? '', choices };
+}
+
+/** Find every placeholder in `text` (deduped by name, first declaration wins). */
+export function parseTemplate(text: string): ParsedTemplate {
+  const { tokens, issues } = tokenize(text);
+  const seen = new Map<string, TemplateVar>();
+  for (const t of tokens) {
+    if (t.kind !== 'var' || seen.has(t.name)) continue;
+    seen.set(t.name, { name: t.name, ...parseSpec(t.spec) });
+  }
+  return { vars: [...seen.values()], issues };
+}
+
+/** Replace placeholders with `values`; missing values fall back to defaults. */
+export function renderTemplate(text: string, values: Record<string, string>): string {
+  const { tokens } = tokenize(text);
+  const { vars } = parseTemplate(text);
+  const defaults = new Map(vars.map(v => [v.name, v.defaultValue]));
+  return tokens
+    .map(t => t.kind === 'text' ? t.value : (values[t.name] ?? defaults.get(t.name) ?? ''))
+    .join('');
+}
+
+/** Human-readable one-liner for the first issue (used in toasts). */
+export function describeIssue(text: string, issue: TemplateIssue): string {
+  const line = text.slice(0, issue.index).split(/\r?\n/).length;
+  return `${issue.message} (line ${line})`;
+}
@@ -0,0 +1,184 @@
+// Colour themes. The page reads its colours from CSS variables (see
+// globals.css and components/theme.ts); a theme is a palette written to
+// those variables. "System" follows the browser's prefers-color-scheme,
+// "Custom" is a palette the user edits, checked against WCAG contrast.
+
+export type Palette = {
+  bg: string;
+  panel: string;
+  surface: string;
+  border: string;
+  text: string;
+  accent: string;
+  onAccent: string; // text on accent-coloured buttons
+  warning: string; // warning text on cards and panels
+  danger: string; // error text, e.g. a prompt over the model's limit
+};
+
+export type ThemeMode = 'system' | 'dark' | 'light' | 'contrast' | 'custom';
+export type PresetName = 'dark' | 'light' | 'contrast';
+
+export type ThemeSettings = {
+  mode: ThemeMode;
+  custom: Palette; // kept while another mode is chosen
+};
+
+export const THEME_MODES: Record<ThemeMode, string> = {
+  system: 'Match system',
+  dark: 'Dark',
+  light: 'Light',
+  contrast: 'High contrast',
+  custom: 'Custom'
+};
+
+export const PRESETS: Record<PresetName, Palette> = {
+  dark: {
+    bg: '#0b0514',
+    panel: '#111827',
+    surface: '#171a22',
+    border: '#232a34',
+    text: '#e5e7eb',
+    accent: '#7c3aed',
+    onAccent: '#ffffff',
+    warning: '#fbbf24',
+    danger: '#f87171'
+  },
+  light: {
+    bg: '#f8fafc',
+    panel: '#ffffff',
+    surface: '#f1f5f9',
+    border: '#cbd5e1',
+    text: '#111827',
+    accent: '#6d28d9',
+    onAccent: '#ffffff',
+    warning: '#92400e',
+    danger: '#b91c1c'
+  },
+  contrast: {
+    bg: '#000000',
+    panel: '#000000',
+    surface: '#0a0a0a',
+    border: '#ffffff',
+    text: '#ffffff',
+    accent: '#ffff00',
+    onAccent: '#000000',
+    warning: '#ffb000',
+    danger: '#ff6b6b'
+  }
+};
+
+export const PALETTE_LABELS: Record<keyof Palette, string> = {
+  bg: 'Background',
+  panel: 'Panels',
+  surface: 'Fields and cards',
+  border: 'Borders',
+  text: 'Text',
+  accent: 'Accent',
+  onAccent: 'Text on accent',
+  warning: 'Warnings',
+  danger: 'Errors'
+};
+
+// CSS variable behind each palette colour
+const CSS_VARS: Record<keyof Palette, string> = {
+  bg: '--bg',
+  panel: '--panel',
+  surface: '--surface',
+  border: '--border',
+  text: '--text',
+  accent: '--accent',
+  onAccent: '--on-accent',
+  warning: '--warning',
+  danger: '--danger'
+};
+
+export const DEFAULT_THEME: ThemeSettings = { mode: 'system', custom: PRESETS.dark };
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+export function isPalette(value: unknown): value is Palette {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return (Object.keys(PALETTE_LABELS) as (keyof Palette)[]).every(k => typeof v[k] === 'string' && HEX.test(v[k] as string));
+}
+
+/**
+ * A saved or imported custom palette, or null when it isn't one. Colours
+ * added to Palette since it was saved are taken from the dark preset.
+ */
+export function paletteOf(value: unknown): Palette | null {
+  if (!value || typeof value !== 'object') return null;
+  const filled = { ...PRESETS.dark, ...value };
+  return isPalette(filled) ? filled : null;
+}
+
+export function normalizeThemeSettings(value: unknown): ThemeSettings {
+  const v = (value ?? {}) as Partial<ThemeSettings>;
+  return {
+    mode: v.mode && v.mode in THEME_MODES ? v.mode : DEFAULT_THEME.mode,
+    custom: paletteOf(v.custom) ?? DEFAULT_THEME.custom
+  };
+}
+
+/** The colours in effect; `prefersDark` is the browser's colour scheme. */
+export function resolvePalette(theme: ThemeSettings, prefersDark: boolean): Palette {
+  if (theme.mode === 'custom') return theme.custom;
+  if (theme.mode === 'system') return prefersDark ? PRESETS.dark : PRESETS.light;
+  return PRESETS[theme.mode];
+}
+
+/** Write a palette to the CSS variables on `el` (normally <html>). */
+export function applyPalette(el: HTMLElement, palette: Palette) {
+  for (const key of Object.keys(CSS_VARS) as (keyof Palette)[]) el.style.setProperty(CSS_VARS[key], palette[key]);
+  // Native controls (scrollbars, date pickers) follow along
+  el.style.colorScheme = luminance(palette.bg) < 0.5 ? 'dark' : 'light';
+}
+
+// ----------- Contrast (WCAG 2) -----------
+
+/** Relative luminance of a #rrggbb colour, 0 (black) to 1 (white). */
+export function luminance(hex: string): number {
+  const channel = (i: number) => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(1) + 0.7152 * channel(3) + 0.0722 * channel(5);
+}
+
+/** 1 (no contrast) to 21 (black on white). */
+export function contrastRatio(a: string, b: string): number {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+/** Black or white, whichever reads better on `bg`. */
+export function readableOn(bg: string): string {
+  return contrastRatio('#ffffff', bg) >= contrastRatio('#000000', bg) ? '#ffffff' : '#000000';
+}
+
+export type ContrastCheck = {
+  label: string;
+  ratio: number;
+  min: number; // 4.5 for text, 3 for other UI (WCAG AA)
+  ok: boolean;
+};
+
+// Pairs the page actually draws on top of each other
+const CHECKS: { label: string; fg: keyof Palette; bg: keyof Palette; min: number }[] = [
+  { label: 'Text on background', fg: 'text', bg: 'bg', min: 4.5 },
+  { label: 'Text on panels', fg: 'text', bg: 'panel', min: 4.5 },
+  { label: 'Text on fields and cards', fg: 'text', bg: 'surface', min: 4.5 },
+  { label: 'Text on accent', fg: 'onAccent', bg: 'accent', min: 4.5 },
+  { label: 'Accent on background', fg: 'accent', bg: 'bg', min: 3 },
+  { label: 'Warnings on cards', fg: 'warning', bg: 'surface', min: 4.5 },
+  { label: 'Warnings on panels', fg: 'warning', bg: 'panel', min: 4.5 },
+  { label: 'Errors on cards', fg: 'danger', bg: 'surface', min: 4.5 },
+  { label: 'Errors on panels', fg: 'danger', bg: 'panel', min: 4.5 }
+];
+
+export function checkContrast(palette: Palette): ContrastCheck[] {
+  return CHECKS.map(c => {
+    const ratio = contrastRatio(palette[c.fg], palette[c.bg]);
+    return { label: c.label, ratio, min: c.min, ok: ratio >= c.min };
+  });
+}
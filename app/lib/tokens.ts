@@ -0,0 +1,133 @@
+// Prompt size: characters, words and an estimate of LLM tokens, checked
+// against the context window of the models the user pastes into. Counting
+// is local only; tokenizers are pluggable (see registerTokenizer), the
+// built-in ones are estimates rather than any model's exact vocabulary.
+
+export type Tokenizer = {
+  id: string;
+  label: string;
+  count: (text: string) => number;
+};
+
+const tokenizers = new Map<string, Tokenizer>();
+
+/**
+ * Make a tokenizer available in the settings, e.g. an exact one for a
+ * specific model family bundled with the app. Registering an existing id
+ * replaces it.
+ */
+export function registerTokenizer(tokenizer: Tokenizer) {
+  tokenizers.set(tokenizer.id, tokenizer);
+}
+
+export function listTokenizers(): Tokenizer[] {
+  return [...tokenizers.values()];
+}
+
+// Pieces the way BPE tokenizers pre-split text: a word with its leading
+// space, up to three digits, a run of punctuation, or whitespace
+const PIECE = /\s?[A-Za-z]+|\s?\d{1,3}|\s?[^\sA-Za-z\d]+|\s+/g;
+
+registerTokenizer({
+  id: 'estimate',
+  label: 'Word pieces (closest to GPT-style tokenizers)',
+  count(text) {
+    let n = 0;
+    for (const piece of text.match(PIECE) ?? []) {
+      const word = piece.trim();
+      if (!word) n += piece.includes('\n') ? piece.split('\n').length - 1 : 1;
+      else if (/^[A-Za-z]+$/.test(word)) n += Math.max(1, Math.ceil(word.length / 6));
+      // Other scripts and symbols: roughly one token per character
+      else n += /^[\x21-\x7e]+$/.test(word) ? Math.ceil(word.length / 2) : [...word].length;
+    }
+    return n;
+  }
+});
+
+registerTokenizer({
+  id: 'chars4',
+  label: '4 characters per token',
+  count: text => Math.ceil(text.length / 4)
+});
+
+export type TextStats = { chars: number; words: number; tokens: number };
+
+export function countText(text: string, tokenizerId: string): TextStats {
+  const tokenizer = tokenizers.get(tokenizerId) ?? tokenizers.get(DEFAULT_TOKEN_SETTINGS.tokenizer) as Tokenizer;
+  return {
+    chars: [...text].length,
+    words: text.trim() ? text.trim().split(/\s+/).length : 0,
+    tokens: text ? tokenizer.count(text) : 0
+  };
+}
+
+// ----------- Models and limits -----------
+
+export type ModelLimit = {
+  id: string;
+  name: string;
+  contextTokens: number;
+};
+
+export type TokenSettings = {
+  tokenizer: string;
+  models: ModelLimit[];
+  model: string; // id of the model sizes are checked against
+  warnPercent: number; // "near the limit" from this share of the window
+};
+
+export const DEFAULT_MODELS: ModelLimit[] = [
+  { id: 'gpt-4o', name: 'GPT-4o', contextTokens: 128000 },
+  { id: 'claude', name: 'Claude', contextTokens: 200000 },
+  { id: 'gemini-pro', name: 'Gemini 1.5 Pro', contextTokens: 1000000 },
+  { id: 'llama-8k', name: 'Llama 3 (8K)', contextTokens: 8192 }
+];
+
+export const DEFAULT_TOKEN_SETTINGS: TokenSettings = {
+  tokenizer: 'estimate',
+  models: DEFAULT_MODELS,
+  model: 'gpt-4o',
+  warnPercent: 80
+};
+
+function isModel(value: unknown): value is ModelLimit {
+  const m = value as Partial<ModelLimit> | null;
+  return !!m && typeof m.id === 'string' && typeof m.name === 'string'
+    && Number.isInteger(m.contextTokens) && (m.contextTokens as number) > 0;
+}
+
+export function normalizeTokenSettings(value: unknown): TokenSettings {
+  const v = (value ?? {}) as Partial<TokenSettings>;
+  const models = Array.isArray(v.models) ? v.models.filter(isModel) : DEFAULT_TOKEN_SETTINGS.models;
+  return {
+    tokenizer: typeof v.tokenizer === 'string' && tokenizers.has(v.tokenizer) ? v.tokenizer : DEFAULT_TOKEN_SETTINGS.tokenizer,
+    models,
+    model: models.some(m => m.id === v.model) ? (v.model as string) : (models[0]?.id ?? ''),
+    warnPercent: Number.isFinite(v.warnPercent) && (v.warnPercent as number) > 0 && (v.warnPercent as number) <= 100
+      ? (v.warnPercent as number)
+      : DEFAULT_TOKEN_SETTINGS.warnPercent
+  };
+}
+
+export type LimitLevel = 'ok' | 'near' | 'over';
+
+export type LimitCheck = { model: ModelLimit; percent: number; level: LimitLevel };
+
+/** How `tokens` fits the window of `model`. */
+export function checkLimit(tokens: number, model: ModelLimit, warnPercent: number): LimitCheck {
+  const percent = (tokens / model.contextTokens) * 100;
+  return { model, percent, level: percent > 100 ? 'over' : percent >= warnPercent ? 'near' : 'ok' };
+}
+
+/** The checked model's fit, or null when no models are configured. */
+export function activeLimit(tokens: number, settings: TokenSettings): LimitCheck | null {
+  const model = settings.models.find(m => m.id === settings.model);
+  return model ? checkLimit(tokens, model, settings.warnPercent) : null;
+}
+
+/** "128K", "1M", "8,192" */
+export function formatTokens(n: number): string {
+  if (n >= 1000000 && n % 1000000 === 0) return `${n / 1000000}M`;
+  if (n >= 1000 && n % 1000 === 0) return `${n / 1000}K`;
+  return n.toLocaleString();
+}
@@ -0,0 +1,16 @@
+export type Card = {
+  id: string;
+  title: string;
+  text: string;
+  createdAt: number;
+  order?: number; // position when persisted/exported (see lib/order.ts)
+  tags?: string[]; // "folder/tag" paths (see lib/tags.ts)
+};
+
+export type LayoutEntry = {
+  id: string;
+  title: string;
+  savedAt: number; // epoch ms
+  cards: Card[];
+  tagColors?: Record<string, string>; // colours for tags used in this layout
+};
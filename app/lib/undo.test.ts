@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { pushBounded, restoreByCard, type UndoEntry } from './undo';
+
+const entry = (label: string): UndoEntry => ({ label, snapshot: { cards: [], layouts: [], layoutTitle: '', history: {}, templateValues: {} } });
+
+describe('pushBounded', () => {
+  it('drops the oldest entries past the limit', () => {
+    const stack = ['a', 'b', 'c'].reduce<UndoEntry[]>((s, l) => pushBounded(s, entry(l), 2), []);
+    expect(stack.map(e => e.label)).toEqual(['b', 'c']);
+  });
+});
+
+describe('restoreByCard', () => {
+  it('keeps current values, brings back those of restored cards and drops those of removed ones', () => {
+    const saved = { a: { topic: 'old' }, b: { topic: 'deleted card' } };
+    const current = { a: { topic: 'filled in since' }, c: { topic: 'added since' } };
+    expect(restoreByCard(current, saved, new Set(['a', 'b']))).toEqual({
+      a: { topic: 'filled in since' },
+      b: { topic: 'deleted card' }
+    });
+  });
+
+  it('leaves cards without entries out', () => {
+    expect(restoreByCard<string[]>({}, {}, new Set(['a']))).toEqual({});
+  });
+});
@@ -0,0 +1,44 @@
+import type { HistoryMap } from './history';
+import type { Card, LayoutEntry } from './types';
+
+// Undo/redo works on whole-state snapshots. Cards and layouts are never
+// mutated in place, so a snapshot is just a set of array references and
+// costs almost nothing to keep. Revisions and remembered template values
+// are kept too, but only to bring back those of cards an undo restores
+// (see restoreByCard); the rest stay as they are now.
+
+export type Snapshot = {
+  cards: Card[];
+  layouts: LayoutEntry[];
+  layoutTitle: string;
+  history: HistoryMap;
+  templateValues: Record<string, Record<string, string>>;
+};
+
+export type UndoEntry = {
+  label: string; // what the action did, e.g. "Delete prompt"
+  snapshot: Snapshot; // state to return to
+};
+
+export const MAX_UNDO = 50;
+
+/** Push onto a bounded stack, dropping the oldest entries past `max`. */
+export function pushBounded(stack: UndoEntry[], entry: UndoEntry, max = MAX_UNDO): UndoEntry[] {
+  const next = [...stack, entry];
+  return next.length > max ? next.slice(next.length - max) : next;
+}
+
+/**
+ * Per-card entries (revisions, template values) after returning to a
+ * snapshot: current entries are kept, so values filled in since aren't
+ * lost; cards the snapshot brings back get theirs from it, and cards no
+ * longer in `live` lose theirs.
+ */
+export function restoreByCard<T>(current: Record<string, T>, saved: Record<string, T>, live: Set<string>): Record<string, T> {
+  const out: Record<string, T> = {};
+  for (const id of live) {
+    if (id in current) out[id] = current[id];
+    else if (id in saved) out[id] = saved[id];
+  }
+  return out;
+}
@@ -0,0 +1,142 @@
+import type { Card } from './types';
+
+// Local copy statistics. Every copy bumps the card's count and last-copied
+// time, and adds one to a per-day, per-layout bucket for the stats view.
+// Nothing leaves the browser; it is stored with the other per-browser
+// settings (see lib/storage.ts).
+
+export type CardUsage = {
+  count: number;
+  lastAt: number; // epoch ms of the latest copy
+};
+
+export type UsageState = {
+  cards: Record<string, CardUsage>; // card id -> usage
+  days: Record<string, Record<string, number>>; // "YYYY-MM-DD" -> layout title ('' = unsaved page) -> copies
+};
+
+export const EMPTY_USAGE: UsageState = { cards: {}, days: {} };
+
+// Daily buckets older than this are dropped when new copies come in
+const KEEP_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isObj(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+export function normalizeUsage(value: unknown): UsageState {
+  if (!isObj(value)) return EMPTY_USAGE;
+  const cards: Record<string, CardUsage> = {};
+  if (isObj(value.cards)) {
+    for (const [id, u] of Object.entries(value.cards)) {
+      if (isObj(u) && typeof u.count === 'number' && typeof u.lastAt === 'number') cards[id] = { count: u.count, lastAt: u.lastAt };
+    }
+  }
+  const days: UsageState['days'] = {};
+  if (isObj(value.days)) {
+    for (const [day, perLayout] of Object.entries(value.days)) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || !isObj(perLayout)) continue;
+      days[day] = {};
+      for (const [layout, n] of Object.entries(perLayout)) if (typeof n === 'number') days[day][layout] = n;
+    }
+  }
+  return { cards, days };
+}
+
+/** Local calendar day, "2026-01-31". */
+export function dayKey(at: number): string {
+  const d = new Date(at);
+  const two = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${two(d.getMonth() + 1)}-${two(d.getDate())}`;
+}
+
+/** Count one copy of each card, made while `layout` was open. */
+export function recordCopies(usage: UsageState, ids: string[], layout: string): UsageState {
+  const now = Date.now();
+  const cards = { ...usage.cards };
+  for (const id of ids) cards[id] = { count: (cards[id]?.count ?? 0) + 1, lastAt: now };
+  const today = dayKey(now);
+  const oldest = dayKey(now - KEEP_DAYS * DAY_MS);
+  const days: UsageState['days'] = {};
+  for (const [day, perLayout] of Object.entries(usage.days)) if (day >= oldest) days[day] = perLayout;
+  days[today] = { ...days[today], [layout]: (days[today]?.[layout] ?? 0) + ids.length };
+  return { cards, days };
+}
+
+/** Move a layout's daily counts to its new title. */
+export function renameLayoutUsage(usage: UsageState, from: string, to: string): UsageState {
+  if (from === to) return usage;
+  const days: UsageState['days'] = {};
+  for (const [day, perLayout] of Object.entries(usage.days)) {
+    if (!(from in perLayout)) {
+      days[day] = perLayout;
+      continue;
+    }
+    const { [from]: n, ...rest } = perLayout;
+    days[day] = { ...rest, [to]: (rest[to] ?? 0) + n };
+  }
+  return { ...usage, days };
+}
+
+/** "just now", "5 min ago", "3 h ago", "2 d ago", then the date. */
+export function timeAgo(at: number, now: number): string {
+  const s = Math.max(0, Math.round((now - at) / 1000));
+  if (s < 60) return 'just now';
+  if (s < 3600) return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)} h ago`;
+  if (s < 30 * 86400) return `${Math.floor(s / 86400)} d ago`;
+  return new Date(at).toLocaleDateString();
+}
+
+// ----------- Sorting -----------
+
+export type CardSort = 'manual' | 'most' | 'recent' | 'alpha' | 'created';
+
+export const CARD_SORTS: Record<CardSort, string> = {
+  manual: 'Manual order',
+  most: 'Most used',
+  recent: 'Recently used',
+  alpha: 'Alphabetical',
+  created: 'Newest first'
+};
+
+/** Cards in display order; ties keep their manual order. */
+export function sortByUsage(cards: Card[], sort: CardSort, usage: UsageState): Card[] {
+  if (sort === 'manual') return cards;
+  const count = (c: Card) => usage.cards[c.id]?.count ?? 0;
+  const last = (c: Card) => usage.cards[c.id]?.lastAt ?? 0;
+  const compare: Record<Exclude<CardSort, 'manual'>, (a: Card, b: Card) => number> = {
+    most: (a, b) => count(b) - count(a) || last(b) - last(a),
+    recent: (a, b) => last(b) - last(a),
+    alpha: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+    created: (a, b) => b.createdAt - a.createdAt
+  };
+  return [...cards].sort(compare[sort]);
+}
+
+// ----------- Stats view -----------
+
+export type LayoutUsage = {
+  layout: string; // '' = unsaved page
+  total: number; // copies within the period
+  perDay: number[]; // oldest first, one entry per day of the period
+};
+
+/** Copies per layout over the last `days` days, busiest first. */
+export function layoutUsage(usage: UsageState, days: number, now: number): LayoutUsage[] {
+  const keys = Array.from({ length: days }, (_, i) => dayKey(now - (days - 1 - i) * DAY_MS));
+  const byLayout = new Map<string, LayoutUsage>();
+  keys.forEach((day, i) => {
+    for (const [layout, n] of Object.entries(usage.days[day] ?? {})) {
+      let entry = byLayout.get(layout);
+      if (!entry) {
+        entry = { layout, total: 0, perDay: new Array<number>(days).fill(0) };
+        byLayout.set(layout, entry);
+      }
+      entry.total += n;
+      entry.perDay[i] += n;
+    }
+  });
+  return [...byLayout.values()].sort((a, b) => b.total - a.total);
+}
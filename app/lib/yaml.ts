@@ -0,0 +1,305 @@
+// Small YAML reader/writer for the export format (see lib/exchange.ts).
+// It writes block mappings/sequences with literal blocks (|) for multi-line
+// text, and reads that back plus what people typically type by hand:
+// plain, single- and double-quoted scalars, folded blocks (>), flow lists
+// ([a, b]) and comments. Anchors, tags and multi-document files are not
+// supported.
+
+export class YamlError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlError';
+    this.line = line;
+  }
+}
+
+// ----------- Writing -----------
+
+const pad = (n: number) => ' '.repeat(n);
+
+const RESERVED = /^(true|false|null|yes|no|on|off|y|n|~)$/i;
+
+function scalar(v: unknown): string {
+  if (v === null || v === undefined) return 'null';
+  if (typeof v === 'number') return Number.isFinite(v) ? String(v) : 'null';
+  if (typeof v === 'boolean') return String(v);
+  const s = String(v);
+  // Plain when unambiguous, otherwise a JSON string (valid YAML)
+  return /^[A-Za-z_][\w .,/()&+!?-]*$/.test(s) && !/\s$/.test(s) && !RESERVED.test(s) ? s : JSON.stringify(s);
+}
+
+function key(k: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(k) ? k : JSON.stringify(k);
+}
+
+// Literal blocks can't carry \r, other control characters or lines that
+// are only whitespace; such strings are written quoted instead
+function literalOk(s: string): boolean {
+  return s.includes('\n') && !/[\r\u0000-\u0008\u000b-\u001f\u007f]/.test(s) && !/(^|\n)[ \t]+(\n|$)/.test(s);
+}
+
+function isMap(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// `head` is the start of the first line ("  title:" or "  -"); nested
+// content is indented to `indent`
+function emit(v: unknown, indent: number, head: string, out: string[]) {
+  if (typeof v === 'string' && literalOk(v)) {
+    const chomp = v.endsWith('\n\n') ? '+' : v.endsWith('\n') ? '' : '-';
+    const lines = (v.endsWith('\n') ? v.slice(0, -1) : v).split('\n');
+    const firstText = lines.find(l => l !== '') ?? '';
+    out.push(`${head} |${firstText.startsWith(' ') ? '2' : ''}${chomp}`);
+    for (const l of lines) out.push(l === '' ? '' : pad(indent) + l);
+  } else if (Array.isArray(v)) {
+    if (v.length === 0) {
+      out.push(head + ' []');
+      return;
+    }
+    out.push(head);
+    for (const item of v) {
+      if (isMap(item) && Object.keys(item).length) {
+        // "- first: x" with the remaining keys lined up under "first"
+        const sub: string[] = [];
+        emitMap(item, indent + 2, sub);
+        sub[0] = pad(indent) + '- ' + sub[0].slice(indent + 2);
+        out.push(...sub);
+      } else {
+        emit(item, indent + 2, pad(indent) + '-', out);
+      }
+    }
+  } else if (isMap(v)) {
+    if (Object.keys(v).length === 0) {
+      out.push(head + ' {}');
+      return;
+    }
+    out.push(head);
+    emitMap(v, indent, out);
+  } else {
+    out.push(head + ' ' + scalar(v));
+  }
+}
+
+function emitMap(obj: Record<string, unknown>, indent: number, out: string[]) {
+  for (const [k, v] of Object.entries(obj)) {
+    if (v !== undefined) emit(v, indent + 2, pad(indent) + key(k) + ':', out);
+  }
+}
+
+/** Serialize a mapping as a YAML document. */
+export function toYaml(doc: Record<string, unknown>): string {
+  const out: string[] = [];
+  emitMap(doc, 0, out);
+  return out.join('\n') + '\n';
+}
+
+// ----------- Reading -----------
+
+const KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"[\]{}#,&*!|>%@`-][^#]*?|-[^\s#][^#]*?)\s*:(?=\s|$)/;
+
+function indentOf(s: string): number {
+  return s.length - s.trimStart().length;
+}
+
+function isBlank(s: string): boolean {
+  return /^\s*(#.*)?$/.test(s);
+}
+
+function isSeqItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+function splitFlow(inner: string, line: number): string[] {
+  const parts: string[] = [];
+  let cur = '';
+  let q: string | null = null;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner[i];
+    if (q) {
+      if (ch === '\\' && q === '"') {
+        cur += ch + (inner[++i] ?? '');
+        continue;
+      }
+      if (ch === q) q = null;
+      cur += ch;
+    } else if (ch === '"' || ch === "'") {
+      q = ch;
+      cur += ch;
+    } else if (ch === '[' || ch === '{') {
+      throw new YamlError('nested flow collections are not supported', line);
+    } else if (ch === ',') {
+      parts.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  if (q) throw new YamlError('unterminated quoted string', line);
+  if (cur.trim()) parts.push(cur.trim());
+  return parts;
+}
+
+function parseScalar(raw: string, line: number): unknown {
+  const s = raw.trim();
+  if (s.startsWith('"')) {
+    const m = /^"((?:[^"\\]|\\.)*)"\s*(#.*)?$/.exec(s);
+    if (!m) throw new YamlError('unterminated double-quoted string', line);
+    try {
+      return JSON.parse('"' + m[1].replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1').replace(/\t/g, '\\t') + '"');
+    } catch {
+      throw new YamlError('invalid escape in double-quoted string', line);
+    }
+  }
+  if (s.startsWith("'")) {
+    const m = /^'((?:[^']|'')*)'\s*(#.*)?$/.exec(s);
+    if (!m) throw new YamlError('unterminated single-quoted string', line);
+    return m[1].replace(/''/g, "'");
+  }
+  if (s.startsWith('[')) {
+    const m = /^\[(.*)\]\s*(#.*)?$/.exec(s);
+    if (!m) throw new YamlError('unterminated flow list', line);
+    return splitFlow(m[1], line).map(p => parseScalar(p, line));
+  }
+  if (s.startsWith('{')) {
+    if (/^\{\s*\}\s*(#.*)?$/.test(s)) return {};
+    throw new YamlError('flow mappings are not supported; use one "key: value" per line', line);
+  }
+  const plain = s.replace(/\s+#.*$/, '');
+  if (plain === '' || plain === '~' || /^null$/i.test(plain)) return null;
+  if (/^true$/i.test(plain)) return true;
+  if (/^false$/i.test(plain)) return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(plain)) return Number(plain);
+  return plain;
+}
+
+/** Parse a YAML document; throws YamlError with a line number on bad input. */
+export function parseYaml(src: string): unknown {
+  const lines = src.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  let i = 0;
+
+  function skipBlank() {
+    while (i < lines.length && (isBlank(lines[i]) || /^(---|\.\.\.)\s*$/.test(lines[i]))) i++;
+  }
+
+  function node(minIndent: number): unknown {
+    skipBlank();
+    if (i >= lines.length) return null;
+    const ind = indentOf(lines[i]);
+    if (ind < minIndent) return null;
+    const content = lines[i].trim();
+    if (isSeqItem(content)) return seq(ind);
+    if (KEY.test(content)) return map(ind);
+    i++;
+    return parseScalar(content, i);
+  }
+
+  function map(ind: number): Record<string, unknown> {
+    const obj: Record<string, unknown> = {};
+    for (;;) {
+      skipBlank();
+      if (i >= lines.length || indentOf(lines[i]) !== ind) break;
+      const content = lines[i].trim();
+      if (isSeqItem(content)) break;
+      const m = KEY.exec(content);
+      if (!m) throw new YamlError('expected "key: value"', i + 1);
+      const k = String(parseScalar(m[1], i + 1) ?? '');
+      const rest = content.slice(m[0].length).trim();
+      i++;
+      obj[k] = value(rest, ind, true);
+    }
+    if (i < lines.length && indentOf(lines[i]) > ind) throw new YamlError('unexpected indentation', i + 1);
+    return obj;
+  }
+
+  function seq(ind: number): unknown[] {
+    const arr: unknown[] = [];
+    for (;;) {
+      skipBlank();
+      if (i >= lines.length || indentOf(lines[i]) !== ind || !isSeqItem(lines[i].trim())) break;
+      const after = lines[i].slice(ind + 1);
+      const rest = after.trimStart();
+      const col = ind + 1 + (after.length - rest.length);
+      if (rest === '' || rest.startsWith('#')) {
+        i++;
+        arr.push(value('', ind, false));
+      } else if (isSeqItem(rest) || KEY.test(rest)) {
+        // Inline nested collection: re-read this line as if "-" were a space
+        lines[i] = pad(col) + rest;
+        arr.push(isSeqItem(rest) ? seq(col) : map(col));
+      } else {
+        i++;
+        arr.push(value(rest, ind, false));
+      }
+    }
+    return arr;
+  }
+
+  // Value after "key:" or "-" on a line at indent `ind`
+  function value(rest: string, ind: number, sameIndentSeq: boolean): unknown {
+    if (rest === '' || rest.startsWith('#')) {
+      skipBlank();
+      if (i >= lines.length) return null;
+      const next = indentOf(lines[i]);
+      if (next > ind) return node(next);
+      // "key:\n- a" lists may sit at the key's own indent
+      if (sameIndentSeq && next === ind && isSeqItem(lines[i].trim())) return seq(ind);
+      return null;
+    }
+    if (rest[0] === '|' || rest[0] === '>') return block(rest, ind);
+    return parseScalar(rest, i);
+  }
+
+  function block(header: string, ind: number): string {
+    const m = /^([|>])([1-9])?([+-])?([1-9])?\s*(#.*)?$/.exec(header);
+    if (!m) throw new YamlError('invalid block scalar header', i);
+    const folded = m[1] === '>';
+    const explicit = Number(m[2] ?? m[4] ?? 0);
+    const chomp = m[3] ?? '';
+
+    let blockIndent = explicit ? ind + explicit : 0;
+    if (!blockIndent) {
+      let j = i;
+      while (j < lines.length && /^\s*$/.test(lines[j])) j++;
+      blockIndent = j < lines.length ? indentOf(lines[j]) : 0;
+    }
+
+    const body: string[] = [];
+    if (blockIndent > ind) {
+      while (i < lines.length && (/^\s*$/.test(lines[i]) || indentOf(lines[i]) >= blockIndent)) {
+        body.push(lines[i].slice(blockIndent));
+        i++;
+      }
+    }
+    let trailing = 0;
+    while (body.length && body[body.length - 1].trim() === '') {
+      body.pop();
+      trailing++;
+    }
+
+    let text: string;
+    if (folded) {
+      text = '';
+      body.forEach((l, k) => {
+        const prev = body[k - 1];
+        if (k === 0) text = l;
+        else if (l === '') text += '\n'; // a blank line stands for one newline
+        else if (prev === '') text += l;
+        else if (l.startsWith(' ') || prev.startsWith(' ')) text += '\n' + l;
+        else text += ' ' + l;
+      });
+    } else {
+      text = body.join('\n');
+    }
+    if (body.length === 0) return chomp === '+' ? '\n'.repeat(trailing) : '';
+    if (chomp === '-') return text;
+    if (chomp === '+') return text + '\n'.repeat(trailing + 1);
+    return text + '\n';
+  }
+
+  const result = node(0);
+  skipBlank();
+  if (i < lines.length) throw new YamlError('unexpected content', i + 1);
+  return result;
+}
@@ -2,89 +2,316 @@
 'use client';
 
 import Image from 'next/image';
-import { useEffect, useState } from 'react';
-
-type Card = {
-  id: string;
-  title: string;
-  text: string;
-  createdAt: number;
-};
-
-type LayoutEntry = {
-  id: string;
-  title: string;
-  savedAt: number; // epoch ms
-  cards: Card[];
-};
-
-const BG = 'var(--bg)';
-const PANEL = 'var(--panel)';
-const SURFACE = 'var(--surface)';
-const BORDER = 'var(--border)';
-const TEXT = 'var(--text)';
-const ACCENT = 'var(--accent)';
-
-// Shared font size for modal header buttons
-const BUTTON_FONT_SIZE = 14;
-
-// Uniform style so label-based "buttons" match actual <button> elements
-const LIB_BTN_STYLE: React.CSSProperties = {
-  background: PANEL,
-  color: TEXT,
-  padding: '6px 10px',
-  borderRadius: 8,
-  border: `1px solid ${BORDER}`,
-  fontSize: BUTTON_FONT_SIZE,
-  display: 'inline-flex',
-  alignItems: 'center',
-  justifyContent: 'center',
-  lineHeight: 1.2,
-  boxSizing: 'border-box',
-  maxWidth: '100%',
-  overflow: 'hidden',
-  textOverflow: 'ellipsis',
-  whiteSpace: 'nowrap'
-};
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AddForm } from './components/AddForm';
+import { AskDialog } from './components/AskDialog';
+import { CardList } from './components/CardList';
+import { LibraryModal } from './components/LibraryModal';
+import { NoticeStack } from './components/NoticeStack';
+import { SizeInfo } from './components/SizeInfo';
+import { TokenSettingsModal } from './components/TokenSettingsModal';
+import { AppearanceModal } from './components/AppearanceModal';
+import { BackupsModal } from './components/BackupsModal';
+import { ConflictDialog, type CardConflict } from './components/ConflictDialog';
+import { FillDialog } from './components/FillDialog';
+import { HistoryModal } from './components/HistoryModal';
+import { ImportWizard } from './components/ImportWizard';
+import { QuickOpen } from './components/QuickOpen';
+import { RestoreDialog } from './components/RestoreDialog';
+import { ShortcutsModal } from './components/ShortcutsModal';
+import { StatsModal } from './components/StatsModal';
+import { ACCENT, BORDER, ON_ACCENT, PANEL, SURFACE, TEXT } from './components/theme';
+import { useNotices } from './hooks/useNotices';
+import { usePersistence } from './hooks/usePersistence';
+import { usePrefersDark } from './hooks/usePrefersDark';
+import {
+  DEFAULT_BACKUP_SETTINGS, backupFileName, backupFromDoc, expiredBackups, isBackupDue, makeBackup,
+  normalizeBackupSettings, previewRestore,
+  type BackupData, type BackupRecord, type BackupSettings, type RestorePreview
+} from './lib/backup';
+import {
+  COPY_MODES, DEFAULT_COPY_SETTINGS, formatCopy, normalizeCopySettings, separatorFromInput, separatorToInput, writeClipboard,
+  type CopyMode, type CopyPart, type CopySettings
+} from './lib/clipboard';
+import {
+  EXPORT_FORMATS, ExchangeError, describeFieldError, makeDoc, parseDoc, serializeDoc,
+  type ExportDoc, type ExportFormat
+} from './lib/exchange';
+import {
+  actionsFor, addCardPlanAsLayout, applyCardPlan, applyLayoutPlan, planCards, planLayouts,
+  type ImportAction, type ImportItem, type ImportPlan, type ImportStatus
+} from './lib/importer';
+import { EMPTY_DRAFT, draftOf, duplicateCard, type CardDraft } from './lib/cards';
+import { addRevision, pruneHistory, type HistoryMap, type Revision } from './lib/history';
+import { pushBounded, restoreByCard, type Snapshot, type UndoEntry } from './lib/undo';
+import { duplicateLayout, hasUnsavedChanges, nextUniqueTitle, overwriteLayout, renameLayout, sortLayouts } from './lib/layouts';
+import { moveRelative, sortCards, stampOrder } from './lib/order';
+import { DEFAULT_PREFERENCES, normalizePreferences, type Preferences } from './lib/preferences';
+import { openServerStore } from './lib/remote';
+import { readSources, sourceKind, type SourceFile } from './lib/sources';
+import { MAX_INCLUDES, dependentsOf, describeCycle, includeSource, includesOf, resolveIncludes, type Resolved } from './lib/includes';
+import { openStore, track, type MetaKey, type MetaState, type PersistedState, type Store } from './lib/storage';
+import {
+  makeBase, openChannel, serialize, threeWayMerge,
+  type SyncMessage, type SyncState
+} from './lib/sync';
+import {
+  UNTAGGED, colorsFor, matchesTagFilter, normalizeTagColors, parseTagInput, tagColor, tagCounts,
+  type TagColors
+} from './lib/tags';
+import {
+  SHORTCUTS, actionFor, bindingOf, comboOf, describeCombo, isReserved, rebind,
+  type ShortcutAction
+} from './lib/shortcuts';
+import { buildIndex, layoutMatchesQuery, matchesQuery, type SearchHit } from './lib/search';
+import { describeIssue, parseTemplate, renderTemplate, type TemplateVar } from './lib/templates';
+import { DEFAULT_THEME, applyPalette, normalizeThemeSettings, resolvePalette, type ThemeSettings } from './lib/theme';
+import { DEFAULT_TOKEN_SETTINGS, normalizeTokenSettings, type TokenSettings } from './lib/tokens';
+import type { Card, LayoutEntry } from './lib/types';
+import {
+  CARD_SORTS, EMPTY_USAGE, normalizeUsage, recordCopies, renameLayoutUsage, sortByUsage,
+  type CardSort, type UsageState
+} from './lib/usage';
+
+// Window events fired by notice actions (see the undo/redo listener)
+const UNDO_EVENT = 'copyai:undo';
+const REDO_EVENT = 'copyai:redo';
+// Asks the page to fetch the shared library now (e.g. after a stale write)
+const PULL_EVENT = 'copyai:pull';
+const PULL_INTERVAL_MS = 15000;
+
+function downloadText(text: string, fileName: string, mime: string) {
+  const blob = new Blob([text], { type: mime });
+  const a = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
 export default function Page() {
   // ----------- State: cards on the page -----------
-  const [cards, setCards] = useState<Card[]>(() => {
-    try {
-      const raw = localStorage.getItem('copyai_cards');
-      if (raw) return JSON.parse(raw) as Card[];
-    } catch {}
-    return []; // start empty; you add prompts
-  });
-
-  // Layout title (kept for logic; not displayed)
+  const [cards, setCards] = useState<Card[]>([]); // start empty; you add prompts
+
+  // ----------- Persistence (see lib/storage.ts) -----------
+  const storeRef = useRef<Store | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveErrors, setSaveErrors] = useState<Record<string, string>>({});
+
+  // ----------- Cross-tab sync -----------
+  const syncRef = useRef<SyncState>({ channel: null, cards: makeBase([]), layouts: makeBase([]), meta: {} });
+  // Latest message handler for the channel opened once below
+  const syncHandlerRef = useRef<(msg: SyncMessage) => void>(() => {});
+  const [conflicts, setConflicts] = useState<CardConflict[]>([]);
+
+  // Title of the layout the page was opened from or last saved as ('' = none);
+  // titles are unique (see lib/layouts.ts)
   const [currentLayoutTitle, setCurrentLayoutTitle] = useState<string>('');
 
   // Add form
-  const [title, setTitle] = useState('');
-  const [text, setText] = useState('');
+  const [draft, setDraft] = useState<CardDraft>(EMPTY_DRAFT);
 
   // Inline edit state
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editTitle, setEditTitle] = useState('');
-  const [editText, setEditText] = useState('');
+  const [editDraft, setEditDraft] = useState<CardDraft>(EMPTY_DRAFT);
+  // Card as it was when editing started, to notice changes made meanwhile
+  const [editOrigin, setEditOrigin] = useState<Card | null>(null);
+
+  // ----------- State: revision history -----------
+  const [history, setHistory] = useState<HistoryMap>({});
+  const [author, setAuthor] = useState('');
+  const [historyCardId, setHistoryCardId] = useState<string | null>(null);
+  // Indices into the revision list shown in the dialog (see historyEntries)
+  const [diffFrom, setDiffFrom] = useState(0);
+  const [diffTo, setDiffTo] = useState(0);
+
+  // ----------- State: tags -----------
+  const [tagColors, setTagColors] = useState<TagColors>({});
+  const [showTags, setShowTags] = useState(false);
+  const [tagFilter, setTagFilter] = useState<Set<string>>(() => new Set());
+  // Cards ticked for bulk actions
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [bulkTag, setBulkTag] = useState('');
+  // Mode and separator for copying the ticked cards as one prompt
+  const [copySettings, setCopySettings] = useState<CopySettings>(DEFAULT_COPY_SETTINGS);
+
+  // ----------- State: copy statistics (see lib/usage.ts) -----------
+  const [usage, setUsage] = useState<UsageState>(EMPTY_USAGE);
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [showStats, setShowStats] = useState(false);
+  // Reference time for "x ago" labels and the stats period; refreshed
+  // whenever usage changes or the stats view opens
+  const [now, setNow] = useState(0);
+
+  // Drag-to-reorder (pointer events, so mouse and touch share one path)
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null);
+  const cardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
   // ----------- State: Library (saved layouts) -----------
-  const [layouts, setLayouts] = useState<LayoutEntry[]>(() => {
-    try {
-      const raw = localStorage.getItem('copyai_layouts');
-      if (raw) return JSON.parse(raw) as LayoutEntry[];
-    } catch {}
-    return [];
-  });
+  const [layouts, setLayouts] = useState<LayoutEntry[]>([]);
   const [showLibrary, setShowLibrary] = useState(false);
 
-  // ----------- UI state: temporary expand/collapse per card -----------
-  // Not persisted; resets on reload.
-  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  // ----------- State: backups (see lib/backup.ts) -----------
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>(DEFAULT_BACKUP_SETTINGS);
+  const [showBackups, setShowBackups] = useState(false);
+  const [backups, setBackups] = useState<BackupRecord[]>([]); // newest first
+  const [restore, setRestore] = useState<{
+    source: string;
+    data: BackupData;
+    preview: RestorePreview;
+    problems: string[];
+  } | null>(null);
+  // Latest auto-backup check for the timer started once below
+  const autoBackupRef = useRef<() => void>(() => {});
+  // Latest notice about records hidden by the team library, for the load effect
+  const localOnlyRef = useRef<(store: Store, hidden: NonNullable<PersistedState['localOnly']>) => void>(() => {});
+
+  // ----------- State: import wizard (see lib/importer.ts) -----------
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importTheme, setImportTheme] = useState<ThemeSettings | null>(null); // carried by an imported library
+  const [importName, setImportName] = useState('');
+  const [importProblems, setImportProblems] = useState<string[]>([]); // skipped entries
+  // Imported cards go onto the page, or into a new saved layout with this name
+  const [importTarget, setImportTarget] = useState<'page' | 'layout'>('page');
+  const [importLayoutName, setImportLayoutName] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+
+  // ----------- State: undo/redo -----------
+  const [undoPast, setUndoPast] = useState<UndoEntry[]>([]);
+  const [undoFuture, setUndoFuture] = useState<UndoEntry[]>([]);
+  // Latest undo/redo for the listeners registered once below
+  const undoRef = useRef<() => void>(() => {});
+  const redoRef = useRef<() => void>(() => {});
+  // Undo swapping the cards behind an open dialog would leave it acting on
+  // stale state, so the keys do nothing meanwhile
+  const undoBlockedRef = useRef(false);
+
+  // ----------- State: search / filter / quick-open -----------
+  const [filter, setFilter] = useState('');
+  const [libraryFilter, setLibraryFilter] = useState('');
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const filterRef = useRef<HTMLInputElement>(null);
+  const titleRef = useRef<HTMLInputElement>(null); // add form
+
+  // ----------- State: theme (see lib/theme.ts) -----------
+  const [theme, setTheme] = useState<ThemeSettings>(DEFAULT_THEME);
+  const [showAppearance, setShowAppearance] = useState(false);
+
+  // ----------- State: prompt sizes (see lib/tokens.ts) -----------
+  const [tokenSettings, setTokenSettings] = useState<TokenSettings>(DEFAULT_TOKEN_SETTINGS);
+  const [showTokenSettings, setShowTokenSettings] = useState(false);
+  const prefersDark = usePrefersDark();
+  const palette = useMemo(() => resolvePalette(theme, prefersDark), [theme, prefersDark]);
+
+  // ----------- Notifications and dialogs (see hooks/useNotices.ts) -----------
+  const { notices, dismissNotice, notify, ask, askConfirm, askText, answerAsk, liveRef, alertRef } = useNotices();
+
+  // ----------- State: keyboard shortcuts (see lib/shortcuts.ts) -----------
+  const [showHelp, setShowHelp] = useState(false);
+  const [rebinding, setRebinding] = useState<ShortcutAction | null>(null); // waiting for a key
+  // Latest shortcut handler for the listener registered once below
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  const searchIndex = useMemo(() => buildIndex(cards, layouts), [cards, layouts]);
+  const visibleCards = useMemo(
+    () => sortByUsage(
+      cards.filter(c => matchesTagFilter(c, tagFilter) && (!filter.trim() || matchesQuery(c, filter))),
+      preferences.cardSort,
+      usage
+    ),
+    [cards, filter, tagFilter, preferences.cardSort, usage]
+  );
+  // Dragging only makes sense in the page's own order
+  const manualOrder = preferences.cardSort === 'manual';
+  // ----------- Includes (see lib/includes.ts) -----------
+  const includeCards = useMemo(() => includeSource(cards, layouts), [cards, layouts]);
+  // Page cards that include others, expanded
+  const resolved = useMemo(() => {
+    const map = new Map<string, Resolved>();
+    for (const c of cards) if (includesOf(c.text).length) map.set(c.id, resolveIncludes(c, includeCards));
+    return map;
+  }, [cards, includeCards]);
+  // Page cards that are included, with every card that pulls them in
+  const dependents = useMemo(() => {
+    const map = new Map<string, Card[]>();
+    for (const id of new Set(cards.flatMap(c => includesOf(c.text)))) {
+      const users = dependentsOf(id, cards);
+      if (users.length) map.set(id, users);
+    }
+    return map;
+  }, [cards]);
+  const includeOptions = useMemo(() => cards.map(c => ({ id: c.id, title: c.title || 'Untitled' })), [cards]);
+  // The ticked cards as "Copy as one prompt" would copy them, for their size
+  const selectionText = useMemo(
+    () => selected.size
+      ? formatCopy(
+        cards.filter(c => selected.has(c.id)).map(c => ({ ...c, text: resolved.get(c.id)?.text ?? c.text })),
+        copySettings.mode,
+        copySettings.separator
+      ).text
+      : '',
+    [cards, selected, copySettings, resolved]
+  );
+  const counts = useMemo(() => tagCounts(cards), [cards]);
+  const untaggedCount = useMemo(() => cards.filter(c => !c.tags?.length).length, [cards]);
+  const visibleLayouts = useMemo(
+    () => sortLayouts(
+      libraryFilter.trim() ? layouts.filter(l => layoutMatchesQuery(l, libraryFilter)) : layouts,
+      preferences.librarySort
+    ),
+    [layouts, libraryFilter, preferences.librarySort]
+  );
+  // The open layout, and whether the page has moved on from it
+  const openLayoutEntry = useMemo(
+    () => (currentLayoutTitle ? layouts.find(l => l.title === currentLayoutTitle) ?? null : null),
+    [layouts, currentLayoutTitle]
+  );
+  const layoutDirty = useMemo(
+    () => (openLayoutEntry ? hasUnsavedChanges(cards, openLayoutEntry) : cards.length > 0),
+    [cards, openLayoutEntry]
+  );
+  // Card whose revision history is open
+  const historyCard = historyCardId ? cards.find(c => c.id === historyCardId) : undefined;
+
+  // ----------- State: template fill-in dialog -----------
+  // Last values entered per card, keyed by card id then variable name.
+  const [templateMemory, setTemplateMemory] = useState<Record<string, Record<string, string>>>({});
+  const [fillCard, setFillCard] = useState<Card | null>(null);
+  const [fillVars, setFillVars] = useState<TemplateVar[]>([]);
+  const [fillValues, setFillValues] = useState<Record<string, string>>({});
+  // How the result is copied, and the layout the copy is counted for
+  const [fillCopy, setFillCopy] = useState<{ mode: CopyMode; layout: string }>({ mode: 'plain', layout: '' });
+
+  // Dialogs and conflict prompts keep the keyboard to themselves; the
+  // shortcuts help is left out, as its own key closes it (see onShortcut)
+  const dialogOpen = Boolean(ask || restore || importPlan || showBackups || fillCard || historyCardId || showStats
+    || showLibrary || paletteOpen || conflicts.length > 0 || showAppearance || showTokenSettings);
+
+  // ----------- UI state: expand/collapse per card -----------
+  // For this session only, unless "Remember expanded cards" is on; then the
+  // ids are kept in the preferences instead
+  const [sessionExpanded, setSessionExpanded] = useState<Set<string>>(() => new Set());
+  const expanded = useMemo(
+    () => preferences.keepExpanded ? new Set(preferences.expandedIds) : sessionExpanded,
+    [preferences.keepExpanded, preferences.expandedIds, sessionExpanded]
+  );
+  const allExpanded = visibleCards.length > 0 && visibleCards.every(c => expanded.has(c.id));
+
+  function updateExpanded(update: (prev: Set<string>) => Set<string>) {
+    if (!preferences.keepExpanded) {
+      setSessionExpanded(update);
+      return;
+    }
+    // Ids of cards no longer on the page are dropped, so the list can't grow forever
+    const ids = new Set(cards.map(c => c.id));
+    setPreferences(prev => ({ ...prev, expandedIds: [...update(new Set(prev.expandedIds))].filter(id => ids.has(id)) }));
+  }
 
   function toggleExpanded(id: string) {
-    setExpanded(prev => {
+    updateExpanded(prev => {
       const next = new Set(prev);
       if (next.has(id)) next.delete(id);
       else next.add(id);
@@ -92,304 +319,1276 @@ export default function Page() {
     });
   }
 
-  // Persist page cards + layouts
+  // Expand every shown card, or collapse them all when they already are
+  function toggleExpandAll() {
+    updateExpanded(prev => {
+      const next = new Set(prev);
+      for (const c of visibleCards) {
+        if (allExpanded) next.delete(c.id);
+        else next.add(c.id);
+      }
+      return next;
+    });
+  }
+
+  function setKeepExpanded(keep: boolean) {
+    setPreferences(prev => ({ ...prev, keepExpanded: keep, expandedIds: keep ? [...sessionExpanded] : [] }));
+    if (!keep) setSessionExpanded(new Set(preferences.expandedIds));
+  }
+
+  // Load everything once on mount (migrating old localStorage data if needed)
   useEffect(() => {
-    try { localStorage.setItem('copyai_cards', JSON.stringify(cards)); } catch {}
-  }, [cards]);
+    let cancelled = false;
+    openStore()
+      .then(async local => {
+        // Prefer the shared team library when the API routes are reachable
+        const store = await openServerStore(local, () => window.dispatchEvent(new Event(PULL_EVENT))) ?? local;
+        const data = await store.load();
+        if (cancelled) return;
+        storeRef.current = store;
+        syncRef.current.cards = makeBase(data.cards);
+        syncRef.current.layouts = makeBase(data.layouts);
+        for (const [k, v] of Object.entries(data.meta)) syncRef.current.meta[k as MetaKey] = serialize(v);
+        setCards(data.cards);
+        setLayouts(data.layouts);
+        setTagColors(normalizeTagColors(data.meta.tagColors));
+        setTemplateMemory(data.meta.templateValues);
+        setHistory(data.meta.history);
+        setAuthor(data.meta.author);
+        setBackupSettings(normalizeBackupSettings(data.meta.backupSettings));
+        setCopySettings(normalizeCopySettings(data.meta.copySettings));
+        setUsage(normalizeUsage(data.meta.usage));
+        setPreferences(normalizePreferences(data.meta.preferences));
+        setCurrentLayoutTitle(typeof data.meta.layoutTitle === 'string' ? data.meta.layoutTitle : '');
+        setTheme(normalizeThemeSettings(data.meta.theme));
+        setTokenSettings(normalizeTokenSettings(data.meta.tokenSettings));
+        setNow(Date.now());
+        setLoaded(true);
+        if (data.localOnly) localOnlyRef.current(store, data.localOnly);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        // Leave storeRef empty so nothing overwrites the unreadable data
+        setLoadError(err instanceof Error ? err.message : String(err));
+        setLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // The shared library is shown instead of this browser's own; say what that
+  // hides (a backup of it was kept) and offer to add it to the team's
+  function offerLocalOnly(store: Store, hidden: NonNullable<PersistedState['localOnly']>) {
+    const parts = [
+      hidden.cards.length && `${hidden.cards.length} prompt${hidden.cards.length === 1 ? '' : 's'}`,
+      hidden.layouts.length && `${hidden.layouts.length} layout${hidden.layouts.length === 1 ? '' : 's'}`
+    ].filter(Boolean);
+    if (!parts.length || !store.share) return;
+    notify(`☁️ Showing the team library. ${parts.join(' and ')} saved only in this browser aren't in it (a backup was kept).`, {
+      severity: 'warning',
+      ms: 0,
+      action: {
+        label: 'Add to team library',
+        run: () => store.share?.(hidden.cards, hidden.layouts).then(
+          () => notify('☁️ Added to the team library', { severity: 'success' }),
+          (err: unknown) => notify(err instanceof Error ? err.message : String(err), { severity: 'error' })
+        )
+      }
+    });
+  }
+  useEffect(() => {
+    localOnlyRef.current = offerLocalOnly;
+  });
+
+  // Settings saved alongside the cards and layouts
+  const meta: MetaState = {
+    tagColors,
+    templateValues: templateMemory,
+    history,
+    author,
+    backupSettings,
+    copySettings,
+    usage,
+    preferences,
+    layoutTitle: currentLayoutTitle,
+    theme,
+    tokenSettings
+  };
+  usePersistence(storeRef, syncRef, loaded, { cards, layouts, meta }, setSaveErrors);
+
+  // Colours follow the theme (and the system, for "Match system")
+  useEffect(() => {
+    applyPalette(document.documentElement, palette);
+  }, [palette]);
+
+  // Keep "copied 5 min ago" labels current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Automatic backups: check shortly after loading, then every minute
+  useEffect(() => {
+    if (!loaded) return;
+    const run = () => autoBackupRef.current();
+    const first = window.setTimeout(run, 5000);
+    const timer = window.setInterval(run, 60000);
+    return () => {
+      window.clearTimeout(first);
+      window.clearInterval(timer);
+    };
+  }, [loaded]);
+
+  // Listen to the other tabs once our own data is loaded
   useEffect(() => {
-    try { localStorage.setItem('copyai_layouts', JSON.stringify(layouts)); } catch {}
-  }, [layouts]);
+    if (!loaded || !storeRef.current) return;
+    const sync = syncRef.current;
+    sync.channel = openChannel(msg => syncHandlerRef.current(msg));
+    return () => {
+      sync.channel?.close();
+      sync.channel = null;
+    };
+  }, [loaded]);
+
+  // Fetch teammates' changes from the shared library: on an interval, when
+  // the window regains focus, and right after a write was rejected as stale.
+  // They arrive like another tab's messages and go through the same merge.
+  useEffect(() => {
+    const store = storeRef.current;
+    if (!loaded || !store?.pull) return;
+    let busy = false;
+    async function pull() {
+      if (busy || !store?.pull) return;
+      busy = true;
+      try {
+        const data = await store.pull();
+        if (data) {
+          syncHandlerRef.current({ kind: 'cards', cards: data.cards });
+          syncHandlerRef.current({ kind: 'layouts', layouts: data.layouts });
+        }
+      } catch {
+        // Offline or server restarting; try again on the next tick
+      } finally {
+        busy = false;
+      }
+    }
+    const timer = window.setInterval(pull, PULL_INTERVAL_MS);
+    window.addEventListener('focus', pull);
+    window.addEventListener(PULL_EVENT, pull);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('focus', pull);
+      window.removeEventListener(PULL_EVENT, pull);
+    };
+  }, [loaded]);
+
+  // Ctrl/Cmd+K toggles the quick-open palette from anywhere
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo. Text fields keep
+  // their native undo so typing isn't hijacked. Toast buttons dispatch
+  // UNDO_EVENT/REDO_EVENT on window instead of holding a stale closure.
+  useEffect(() => {
+    const onUndo = () => undoRef.current();
+    const onRedo = () => redoRef.current();
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || undoBlockedRef.current) return;
+      const el = e.target as HTMLElement | null;
+      if (el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))) return;
+      const k = e.key.toLowerCase();
+      if (k === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((k === 'z' && e.shiftKey) || k === 'y') {
+        e.preventDefault();
+        redoRef.current();
+      }
+    }
+    window.addEventListener('keydown', onKey);
+    window.addEventListener(UNDO_EVENT, onUndo);
+    window.addEventListener(REDO_EVENT, onRedo);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener(UNDO_EVENT, onUndo);
+      window.removeEventListener(REDO_EVENT, onRedo);
+    };
+  }, []);
+
+  // Page-wide shortcuts; the handler itself is onShortcut below
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
 
   // ----------- Utilities -----------
-  function toast(msg: string, ms = 1200) {
-    const el = document.createElement('div');
-    el.textContent = msg;
-    Object.assign(el.style, {
-      position: 'fixed',
-      right: '12px',
-      bottom: '12px',
-      background: SURFACE,
-      color: TEXT,
-      border: `1px solid ${BORDER}`,
-      borderRadius: '8px',
-      padding: '10px 12px',
-      zIndex: '9999',
-      boxSizing: 'border-box',
-      maxWidth: 'calc(100vw - 24px)',
-      overflow: 'hidden',
-      whiteSpace: 'nowrap',
-      textOverflow: 'ellipsis'
-    } as CSSStyleDeclaration);
-    document.body.appendChild(el);
-    setTimeout(() => el.remove(), ms);
-  }
-
-  async function copyNow(value: string) {
+  // Re-attempt every write after a failure (e.g. once space was freed)
+  function retrySave() {
+    const store = storeRef.current;
+    if (!store) return;
+    track('cards', store.saveCards(cards), setSaveErrors);
+    track('layouts', store.saveLayouts(layouts), setSaveErrors);
+    for (const key of Object.keys(meta) as MetaKey[]) track(key, store.saveMeta(key, meta[key]), setSaveErrors);
+  }
+
+  // Notice for an undoable action
+  function notifyUndo(msg: string) {
+    notify(msg, { severity: 'success', ms: 4000, action: { label: 'Undo', run: () => window.dispatchEvent(new Event(UNDO_EVENT)) } });
+  }
+
+  // ----------- Undo / redo -----------
+  function snapshot(): Snapshot {
+    return { cards, layouts, layoutTitle: currentLayoutTitle, history, templateValues: templateMemory };
+  }
+
+  // Call right before a mutation; `label` names the action for the notices
+  function record(label: string) {
+    setUndoPast(prev => pushBounded(prev, { label, snapshot: snapshot() }));
+    setUndoFuture([]);
+  }
+
+  function applySnapshot(snap: Snapshot) {
+    setCards(snap.cards);
+    setLayouts(snap.layouts);
+    setCurrentLayoutTitle(snap.layoutTitle);
+    // Cards on the page or in a saved layout keep their entries
+    const live = new Set([...snap.cards, ...snap.layouts.flatMap(l => l.cards)].map(c => c.id));
+    setHistory(prev => restoreByCard(prev, snap.history, live));
+    setTemplateMemory(prev => restoreByCard(prev, snap.templateValues, live));
+    const ids = new Set(snap.cards.map(c => c.id));
+    setSelected(prev => new Set([...prev].filter(id => ids.has(id))));
+    // Drop any open inline edit; its card may no longer exist
+    setEditingId(null);
+    setEditDraft(EMPTY_DRAFT);
+    setEditOrigin(null);
+  }
+
+  function undo() {
+    const entry = undoPast[undoPast.length - 1];
+    if (!entry) {
+      notify('Nothing to undo');
+      return;
+    }
+    setUndoPast(undoPast.slice(0, -1));
+    setUndoFuture(prev => pushBounded(prev, { label: entry.label, snapshot: snapshot() }));
+    applySnapshot(entry.snapshot);
+    notify(`↩️ Undid: ${entry.label}`, { ms: 2400, action: { label: 'Redo', run: () => window.dispatchEvent(new Event(REDO_EVENT)) } });
+  }
+
+  function redo() {
+    const entry = undoFuture[undoFuture.length - 1];
+    if (!entry) {
+      notify('Nothing to redo');
+      return;
+    }
+    setUndoFuture(undoFuture.slice(0, -1));
+    setUndoPast(prev => pushBounded(prev, { label: entry.label, snapshot: snapshot() }));
+    applySnapshot(entry.snapshot);
+    notify(`↪️ Redid: ${entry.label}`, { ms: 2400 });
+  }
+  useEffect(() => {
+    undoRef.current = undo;
+    redoRef.current = redo;
+    undoBlockedRef.current = dialogOpen || showHelp;
+  });
+
+  // ----------- Cross-tab sync: changes from other tabs -----------
+  function onSyncMessage(msg: SyncMessage) {
+    const sync = syncRef.current;
+    if (msg.kind === 'cards') {
+      // Conflicting cards take the other side's version for now; ours is
+      // held in the conflict until the user picks
+      const { merged, conflicts: found } = threeWayMerge(sync.cards, cards, msg.cards);
+      sync.cards = makeBase(msg.cards);
+      setCards(merged);
+      if (found.length) {
+        const ids = new Set(found.map(f => f.local.id));
+        setConflicts(prev => [
+          ...prev.filter(c => c.source !== 'sync' || !ids.has(c.local.id)),
+          ...found.map(f => ({ ...f, source: 'sync' as const }))
+        ]);
+      }
+    } else if (msg.kind === 'layouts') {
+      const { merged, conflicts: found } = threeWayMerge(sync.layouts, layouts, msg.layouts);
+      // Layout conflicts resolve themselves: the most recently saved wins
+      const keepLocal = new Map(found
+        .filter(f => !f.remote || f.local.savedAt > f.remote.savedAt)
+        .map(f => [f.local.id, f.local]));
+      sync.layouts = makeBase(msg.layouts);
+      setLayouts([
+        ...merged.map(l => keepLocal.get(l.id) ?? l),
+        ...[...keepLocal.values()].filter(l => !merged.some(m => m.id === l.id))
+      ]);
+    } else {
+      sync.meta[msg.key] = serialize(msg.value);
+      if (msg.key === 'tagColors') setTagColors(msg.value as MetaState['tagColors']);
+      else if (msg.key === 'templateValues') setTemplateMemory(msg.value as MetaState['templateValues']);
+      else if (msg.key === 'history') setHistory(msg.value as MetaState['history']);
+      else if (msg.key === 'author') setAuthor(msg.value as MetaState['author']);
+      else if (msg.key === 'backupSettings') setBackupSettings(normalizeBackupSettings(msg.value));
+      else if (msg.key === 'copySettings') setCopySettings(normalizeCopySettings(msg.value));
+      else if (msg.key === 'usage') setUsage(normalizeUsage(msg.value));
+      else if (msg.key === 'preferences') setPreferences(normalizePreferences(msg.value));
+      else if (msg.key === 'layoutTitle') setCurrentLayoutTitle(msg.value as MetaState['layoutTitle']);
+      else if (msg.key === 'theme') setTheme(normalizeThemeSettings(msg.value));
+      else if (msg.key === 'tokenSettings') setTokenSettings(normalizeTokenSettings(msg.value));
+    }
+  }
+  useEffect(() => {
+    syncHandlerRef.current = onSyncMessage;
+  });
+
+  function resolveConflict(choice: 'mine' | 'theirs' | 'both') {
+    const conflict = conflicts[0];
+    if (!conflict) return;
+    setConflicts(prev => prev.slice(1));
+    const { local, remote, source } = conflict;
+    const copy = duplicateCard(local);
+
+    if (source === 'edit') {
+      if (choice === 'mine') {
+        commitEdit(local);
+        return;
+      }
+      cancelEdit();
+      if (choice === 'both') {
+        record('Keep both versions');
+        setCards(prev => remote
+          ? moveRelative([...prev, copy], copy.id, remote.id, true)
+          : [...prev, copy]);
+        notifyUndo('📑 Kept both versions');
+      }
+      return;
+    }
+
+    // source === 'sync': the list already shows their version
+    if (choice === 'theirs') {
+      notify('✅ Kept the other version', { severity: 'success' });
+      return;
+    }
+    record('Resolve conflict');
+    if (choice === 'mine') {
+      setCards(prev => prev.some(c => c.id === local.id)
+        ? prev.map(c => c.id === local.id ? local : c)
+        : [...prev, local]);
+      notifyUndo('✅ Kept this version');
+    } else {
+      setCards(prev => remote && prev.some(c => c.id === remote.id)
+        ? moveRelative([...prev, copy], copy.id, remote.id, true)
+        : [...prev, copy]);
+      notifyUndo('📑 Kept both versions');
+    }
+  }
+
+  // One or more cards in the given mode (see lib/clipboard.ts); copies of
+  // cards with an id count towards their usage, under `layout`
+  async function copyNow(parts: (CopyPart & { id?: string })[], mode: CopyMode = 'plain', note = '', layout = currentLayoutTitle) {
     try {
-      await navigator.clipboard.writeText(value);
-      toast('✅ Copied');
+      await writeClipboard(formatCopy(parts, mode, copySettings.separator));
+      const ids = parts.flatMap(p => (p.id ? [p.id] : []));
+      if (ids.length) {
+        setUsage(prev => recordCopies(prev, ids, layout));
+        setNow(Date.now());
+      }
+      const what = parts.length > 1 ? `${parts.length} prompts` : '';
+      const how = mode === 'plain' ? '' : ` as ${COPY_MODES[mode].label.toLowerCase()}`;
+      notify(`✅ Copied${what ? ' ' + what : ''}${how}${note}`, { severity: 'success', ms: note ? 2400 : undefined });
     } catch {
-      alert('Clipboard failed');
+      notify('Clipboard failed', { severity: 'error' });
+    }
+  }
+
+  // `c` with its includes expanded; null (and says why) when they loop
+  function withIncludes(c: Card): Card | null {
+    if (!includesOf(c.text).length) return c;
+    const r = resolveIncludes(c, includeCards);
+    if (r.cycle) {
+      notify(`Can't copy “${c.title || 'Untitled'}”: its includes loop (${describeCycle(r.cycle, includeCards)})`, { severity: 'error', ms: 4000 });
+      return null;
+    }
+    if (r.tooLarge) {
+      notify(`Can't copy “${c.title || 'Untitled'}”: it pulls in more than ${MAX_INCLUDES} includes`, { severity: 'error', ms: 4000 });
+      return null;
     }
+    if (r.missing.length) {
+      const n = r.missing.length;
+      notify(`⚠️ “${c.title || 'Untitled'}” includes ${n} deleted prompt${n === 1 ? '' : 's'}; copied with the include left in`, { severity: 'warning', ms: 3200 });
+    }
+    return { ...c, text: r.text };
   }
 
-  function nextUniqueTitle(base: string): string {
-    const titles = new Set(layouts.map(l => l.title));
-    let t = (base.trim() || 'Untitled');
-    while (titles.has(t)) t = t + '-2';
-    return t;
+  // Cards with {{placeholders}} open the fill-in dialog; others copy immediately.
+  // Includes are expanded first, so their placeholders are asked for too.
+  function copyCard(card: Card, mode: CopyMode = 'plain', layout = currentLayoutTitle) {
+    const c = withIncludes(card);
+    if (!c) return;
+    const { vars } = parseTemplate(c.text);
+    if (vars.length === 0) {
+      copyNow([c], mode, '', layout);
+      return;
+    }
+    const remembered = templateMemory[c.id] ?? {};
+    const initial: Record<string, string> = {};
+    for (const v of vars) {
+      const last = remembered[v.name];
+      // A remembered value only applies to a choice list if it is still an option
+      const usable = last !== undefined && (v.choices.length === 0 || v.choices.includes(last));
+      initial[v.name] = usable ? last : v.defaultValue;
+    }
+    setFillCard(c);
+    setFillVars(vars);
+    setFillValues(initial);
+    setFillCopy({ mode, layout });
   }
 
-  function fmt(ts: number) {
-    const d = new Date(ts);
-    return d.toLocaleString();
+  function submitFill() {
+    if (!fillCard) return;
+    const rendered = renderTemplate(fillCard.text, fillValues);
+    setTemplateMemory(prev => ({ ...prev, [fillCard.id]: { ...fillValues } }));
+    closeFill();
+    copyNow([{ id: fillCard.id, title: fillCard.title, text: rendered }], fillCopy.mode, '', fillCopy.layout);
   }
 
-  // Heuristic: decide if a text likely exceeds 3 lines and warrants a "Show more"
-  function needsClamp(txt: string): boolean {
-    if (!txt) return false;
-    const lineCount = txt.split(/\r?\n/).length;
-    return lineCount > 3 || txt.length > 240; // simple, layout-free heuristic
+  // ----------- Copy statistics -----------
+  function openStats() {
+    setNow(Date.now());
+    setShowStats(true);
+  }
+
+  async function resetUsage() {
+    const ok = await askConfirm({
+      title: 'Reset statistics?',
+      message: 'All copy counts and statistics in this browser are cleared.',
+      confirmLabel: 'Reset',
+      danger: true
+    });
+    if (!ok) return;
+    setUsage(EMPTY_USAGE);
+    notify('🗑️ Statistics reset', { severity: 'success' });
+  }
+
+  // ----------- Keyboard shortcuts -----------
+  // Escape closes the topmost dialog first; returns false when nothing was open
+  function closeTopmost(): boolean {
+    if (ask) answerAsk(false);
+    else if (restore) setRestore(null);
+    else if (importPlan) setImportPlan(null);
+    else if (showBackups) setShowBackups(false);
+    else if (fillCard) closeFill();
+    else if (historyCardId) setHistoryCardId(null);
+    else if (showStats) setShowStats(false);
+    else if (showHelp) setShowHelp(false);
+    else if (showAppearance) setShowAppearance(false);
+    else if (showTokenSettings) setShowTokenSettings(false);
+    else if (showLibrary) setShowLibrary(false);
+    else if (paletteOpen) closePalette();
+    else if (editingId) cancelEdit();
+    else return false;
+    return true;
+  }
+
+  function focusCard(id: string | undefined) {
+    if (id) cardRefs.current.get(id)?.focus();
+  }
+
+  function onShortcut(e: KeyboardEvent) {
+    if (e.defaultPrevented || rebinding) return;
+    if (e.key === 'Escape') {
+      if (closeTopmost()) e.preventDefault();
+      return;
+    }
+    const el = e.target as HTMLElement | null;
+    if (el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName))) return;
+    if (dialogOpen) return;
+    const combo = comboOf(e);
+    if (!combo) return;
+    const action = actionFor(preferences.keyBindings, combo);
+    if (showHelp && action !== 'help') return;
+    // Enter and Space on a button inside a card press the button
+    if (el?.tagName === 'BUTTON' && (combo === 'Enter' || combo === 'Space')) return;
+
+    const focusedId = (el?.closest('[data-card-id]') as HTMLElement | null)?.dataset.cardId;
+    const idx = visibleCards.findIndex(c => c.id === focusedId);
+    const focused = idx === -1 ? null : visibleCards[idx];
+
+    if (!action && /^[1-9]$/.test(combo)) {
+      const c = visibleCards[Number(combo) - 1];
+      if (!c) return;
+      e.preventDefault();
+      focusCard(c.id);
+      copyCard(c);
+      return;
+    }
+    if (!action) return;
+
+    const handled = ((): boolean => {
+      switch (action) {
+        case 'next':
+          focusCard(visibleCards[idx === -1 ? 0 : Math.min(idx + 1, visibleCards.length - 1)]?.id);
+          return visibleCards.length > 0;
+        case 'prev':
+          focusCard(visibleCards[idx === -1 ? visibleCards.length - 1 : Math.max(idx - 1, 0)]?.id);
+          return visibleCards.length > 0;
+        case 'first':
+          focusCard(visibleCards[0]?.id);
+          return visibleCards.length > 0;
+        case 'last':
+          focusCard(visibleCards[visibleCards.length - 1]?.id);
+          return visibleCards.length > 0;
+        case 'copy':
+          if (focused) copyCard(focused);
+          return !!focused;
+        case 'edit':
+          if (focused) startEdit(focused.id);
+          return !!focused;
+        case 'delete':
+          if (focused) removeCard(focused.id);
+          return !!focused;
+        case 'select':
+          if (focused) toggleSelected(focused.id);
+          return !!focused;
+        case 'history':
+          if (focused && history[focused.id]?.length) openHistory(focused.id);
+          return !!focused;
+        case 'add':
+          titleRef.current?.focus();
+          return true;
+        case 'filter':
+          filterRef.current?.focus();
+          return !!filterRef.current;
+        case 'library':
+          setShowLibrary(true);
+          return true;
+        case 'stats':
+          openStats();
+          return true;
+        case 'help':
+          setShowHelp(v => !v);
+          return true;
+      }
+    })();
+    if (handled) e.preventDefault();
+  }
+  useEffect(() => {
+    shortcutRef.current = onShortcut;
+  });
+
+  // Waiting for the new key of an action in the help overlay
+  function onRebindKey(e: React.KeyboardEvent) {
+    if (!rebinding) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRebinding(null);
+      return;
+    }
+    const combo = comboOf(e.nativeEvent);
+    if (!combo) return;
+    if (isReserved(combo)) {
+      notify(`⚠️ ${describeCombo(combo)} is reserved`, { severity: 'warning', ms: 2000 });
+      return;
+    }
+    const { bindings, displaced } = rebind(preferences.keyBindings, rebinding, combo);
+    setPreferences(prev => ({ ...prev, keyBindings: bindings }));
+    setRebinding(null);
+    if (displaced) notify(`ℹ️ ${describeCombo(combo)} was “${SHORTCUTS[displaced].label}”, which now has no key`, { ms: 3000 });
+  }
+
+  // Ticked cards in page order, joined into one prompt. Placeholders are
+  // copied as written; filling them in is one card at a time.
+  function copySelected() {
+    const ticked = cards.filter(c => selected.has(c.id)).map(withIncludes);
+    if (ticked.length === 0 || ticked.includes(null)) return;
+    const parts = ticked as Card[];
+    const templated = parts.filter(c => parseTemplate(c.text).vars.length > 0).length;
+    copyNow(parts, copySettings.mode, templated ? ` (${templated} with unfilled placeholders)` : '');
+  }
+
+  function closeFill() {
+    setFillCard(null);
+    setFillVars([]);
+    setFillValues({});
+  }
+
+  // Validate placeholders before saving; returns false (and says why) when malformed
+  function checkTemplate(txt: string): { ok: boolean; names: string[] } {
+    const { vars, issues } = parseTemplate(txt);
+    if (issues.length > 0) {
+      const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+      notify(`⚠️ ${describeIssue(txt, issues[0])}${more}`, { severity: 'warning', ms: 2400 });
+      return { ok: false, names: [] };
+    }
+    return { ok: true, names: vars.map(v => v.name) };
+  }
+
+  // Includes of a card about to be saved: false (and says why) when they
+  // would loop or pull in too much; otherwise a note on includes of deleted prompts
+  function checkIncludes(id: string, txt: string): { ok: boolean; note: string } {
+    if (!includesOf(txt).length) return { ok: true, note: '' };
+    const r = resolveIncludes({ id, text: txt }, includeCards);
+    if (r.cycle) {
+      notify(`⚠️ This would include itself: ${describeCycle(r.cycle, includeCards)}`, { severity: 'warning', ms: 4000 });
+      return { ok: false, note: '' };
+    }
+    if (r.tooLarge) {
+      notify(`⚠️ This would pull in more than ${MAX_INCLUDES} includes`, { severity: 'warning', ms: 4000 });
+      return { ok: false, note: '' };
+    }
+    return { ok: true, note: r.missing.length ? ` · ⚠️ includes ${r.missing.length} missing prompt${r.missing.length === 1 ? '' : 's'}` : '' };
+  }
+
+  // ----------- Quick-open palette -----------
+  function closePalette() {
+    setPaletteOpen(false);
+  }
+
+  function activateHit(hit: SearchHit, openContaining: boolean) {
+    closePalette();
+    if (openContaining && hit.doc.layoutId) {
+      openLayout(hit.doc.layoutId);
+      return;
+    }
+    copyCard(hit.doc.card, 'plain', hit.doc.layoutTitle ?? currentLayoutTitle);
   }
 
   // ----------- Page actions: Add / Edit / Delete cards -----------
   function addCard() {
-    const t = title.trim();
-    const x = text.trim();
+    const t = draft.title.trim();
+    const x = draft.text.trim();
     if (!t && !x) {
-      toast('Enter a title or text first');
+      notify('Enter a title or text first', { severity: 'warning' });
       return;
     }
+    const check = checkTemplate(x);
+    if (!check.ok) return;
     const id = 'c' + Date.now();
-    const newCard: Card = { id, title: t || 'Untitled', text: x, createdAt: Date.now() };
+    const includes = checkIncludes(id, x);
+    if (!includes.ok) return;
+    const newCard: Card = { id, title: t || 'Untitled', text: x, createdAt: Date.now(), tags: parseTagInput(draft.tags) };
+    record('Add prompt');
     // Append to bottom
     setCards(prev => [...prev, newCard]);
-    setTitle('');
-    setText('');
-    toast('➕ Added (to bottom)');
+    setDraft(EMPTY_DRAFT);
+    notifyUndo((check.names.length
+      ? `➕ Added (to bottom) · variables: ${check.names.join(', ')}`
+      : '➕ Added (to bottom)') + includes.note);
   }
 
   function startEdit(id: string) {
     const c = cards.find(c => c.id === id);
     if (!c) return;
     setEditingId(id);
-    setEditTitle(c.title);
-    setEditText(c.text);
+    setEditDraft(draftOf(c));
+    setEditOrigin(c);
+  }
+
+  // True when the card being edited changed after editing started
+  function editIsStale(): boolean {
+    if (!editingId || !editOrigin) return false;
+    const current = cards.find(c => c.id === editingId);
+    return !current || serialize(current) !== serialize(editOrigin);
   }
 
   function saveEdit() {
     if (!editingId) return;
-    const t = editTitle.trim() || 'Untitled';
-    setCards(prev => prev.map(c => c.id === editingId ? { ...c, title: t, text: editText } : c));
-    setEditingId(null);
-    setEditTitle('');
-    setEditText('');
-    toast('💾 Saved');
+    const t = editDraft.title.trim() || 'Untitled';
+    const check = checkTemplate(editDraft.text);
+    if (!check.ok) return;
+    const includes = checkIncludes(editingId, editDraft.text);
+    if (!includes.ok) return;
+    const tags = parseTagInput(editDraft.tags);
+    const current = cards.find(c => c.id === editingId);
+    const edited: Card = { ...(current ?? editOrigin as Card), title: t, text: editDraft.text, tags };
+    if (editIsStale()) {
+      // Someone else changed it meanwhile: ask instead of overwriting
+      setConflicts(prev => [...prev, { source: 'edit', local: edited, remote: current ?? null }]);
+      return;
+    }
+    commitEdit(edited, check.names, includes.note);
+  }
+
+  function commitEdit(edited: Card, variables: string[] = [], note = '') {
+    const before = cards.find(c => c.id === edited.id);
+    record('Edit prompt');
+    if (before && (before.title !== edited.title || before.text !== edited.text)) {
+      setHistory(prev => addRevision(prev, before.id, {
+        at: Date.now(),
+        author: author.trim(),
+        title: before.title,
+        text: before.text
+      }));
+    }
+    setCards(prev => prev.some(c => c.id === edited.id)
+      ? prev.map(c => c.id === edited.id ? edited : c)
+      : [...prev, edited]); // deleted elsewhere meanwhile: bring it back
+    cancelEdit();
+    // Cards that include this one copy the new text from now on
+    const users = before && before.text !== edited.text ? dependents.get(edited.id)?.length ?? 0 : 0;
+    notifyUndo((variables.length
+      ? `💾 Saved · variables: ${variables.join(', ')}`
+      : '💾 Saved')
+      + (users ? ` · updates ${users} prompt${users === 1 ? '' : 's'} that include it` : '')
+      + note);
   }
 
   function cancelEdit() {
     setEditingId(null);
-    setEditTitle('');
-    setEditText('');
+    setEditDraft(EMPTY_DRAFT);
+    setEditOrigin(null);
   }
 
-  function removeCard(id: string) {
-    if (!confirm('Delete this prompt?')) return;
+  async function removeCard(id: string) {
+    const title = cards.find(c => c.id === id)?.title || 'Untitled';
+    // Cards that include this one are left with a missing include, unless a
+    // saved layout still has a copy of it
+    const users = dependents.get(id) ?? [];
+    const saved = layouts.some(l => l.cards.some(c => c.id === id));
+    const message = users.length && !saved
+      ? `${title}\n\nIt is included by ${users.map(c => `“${c.title || 'Untitled'}”`).join(', ')}; `
+        + `${users.length === 1 ? 'that prompt' : 'those prompts'} will copy with a missing include.`
+      : title;
+    if (!(await askConfirm({ title: 'Delete this prompt?', message, confirmLabel: 'Delete', danger: true }))) return;
+    record('Delete prompt');
     setCards(prev => prev.filter(c => c.id !== id));
-    toast('🗑 Deleted');
+    setSelected(prev => {
+      if (!prev.has(id)) return prev;
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    setTemplateMemory(prev => {
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    // Keep history while a saved layout still holds this card
+    const live = new Set(layouts.flatMap(l => l.cards.map(c => c.id)));
+    cards.forEach(c => { if (c.id !== id) live.add(c.id); });
+    setHistory(prev => pruneHistory(prev, live));
+    notifyUndo('🗑 Deleted');
+  }
+
+  // ----------- Page actions: Revision history -----------
+  // Oldest..newest, with the card's current wording as the final entry
+  function historyEntries(c: Card): Revision[] {
+    return [...(history[c.id] ?? []), { at: 0, author: '', title: c.title, text: c.text }];
+  }
+
+  function openHistory(id: string) {
+    const c = cards.find(c => c.id === id);
+    if (!c) return;
+    const n = historyEntries(c).length;
+    setHistoryCardId(id);
+    setDiffFrom(Math.max(n - 2, 0));
+    setDiffTo(n - 1);
+  }
+
+  function restoreRevision(c: Card, rev: Revision) {
+    if (rev.title === c.title && rev.text === c.text) {
+      notify('Already the current version');
+      return;
+    }
+    record('Restore revision');
+    setHistory(prev => addRevision(prev, c.id, {
+      at: Date.now(),
+      author: author.trim(),
+      title: c.title,
+      text: c.text
+    }));
+    setCards(prev => prev.map(x => x.id === c.id ? { ...x, title: rev.title, text: rev.text } : x));
+    setHistoryCardId(null);
+    notifyUndo('↩️ Restored');
+  }
+
+  // ----------- Page actions: Tags -----------
+  function toggleTagFilter(tag: string) {
+    setTagFilter(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag);
+      else next.add(tag);
+      return next;
+    });
+  }
+
+  function toggleSelected(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function selectAllVisible() {
+    setSelected(new Set(visibleCards.map(c => c.id)));
+  }
+
+  // Add or remove the tags typed in the bulk bar on every selected card
+  function applyBulkTags(mode: 'add' | 'remove') {
+    const tags = parseTagInput(bulkTag);
+    if (tags.length === 0) {
+      notify('Enter a tag first', { severity: 'warning' });
+      return;
+    }
+    record(mode === 'add' ? 'Tag prompts' : 'Untag prompts');
+    setCards(prev => prev.map(c => {
+      if (!selected.has(c.id)) return c;
+      const cur = c.tags ?? [];
+      const nextTags = mode === 'add'
+        ? [...cur, ...tags.filter(t => !cur.includes(t))]
+        : cur.filter(t => !tags.includes(t));
+      return { ...c, tags: nextTags };
+    }));
+    setBulkTag('');
+    const n = selected.size;
+    notifyUndo(`🏷 ${mode === 'add' ? 'Tagged' : 'Untagged'} ${n} prompt${n > 1 ? 's' : ''}`);
+  }
+
+  function setColorFor(tag: string, color: string | null) {
+    setTagColors(prev => {
+      const next = { ...prev };
+      if (color) next[tag] = color;
+      else delete next[tag];
+      return next;
+    });
+  }
+
+  // ----------- Page actions: Reorder cards -----------
+  function moveCard(id: string, targetId: string, after: boolean) {
+    record('Move prompt');
+    setCards(prev => moveRelative(prev, id, targetId, after));
+  }
+
+  // Keyboard reordering on the drag handle; moves relative to the visible
+  // (possibly filtered) neighbours so hidden cards keep their places
+  function onHandleKey(e: React.KeyboardEvent<HTMLButtonElement>, id: string) {
+    const idx = visibleCards.findIndex(c => c.id === id);
+    if (idx === -1) return;
+    const last = visibleCards.length - 1;
+    let target: { id: string; after: boolean } | null = null;
+    if (e.key === 'ArrowUp' && idx > 0) target = { id: visibleCards[idx - 1].id, after: false };
+    else if (e.key === 'ArrowDown' && idx < last) target = { id: visibleCards[idx + 1].id, after: true };
+    else if (e.key === 'Home' && idx > 0) target = { id: visibleCards[0].id, after: false };
+    else if (e.key === 'End' && idx < last) target = { id: visibleCards[last].id, after: true };
+    if (!target) return;
+    e.preventDefault();
+    moveCard(id, target.id, target.after);
+  }
+
+  function onDragMove(e: React.PointerEvent, id: string) {
+    if (dragId !== id) return;
+    // Auto-scroll when dragging near the viewport edges
+    if (e.clientY < 48) window.scrollBy(0, -12);
+    else if (e.clientY > window.innerHeight - 48) window.scrollBy(0, 12);
+
+    let target: { id: string; after: boolean } | null = null;
+    for (const c of visibleCards) {
+      const el = cardRefs.current.get(c.id);
+      if (!el) continue;
+      const r = el.getBoundingClientRect();
+      if (e.clientY < r.top + r.height / 2) {
+        target = { id: c.id, after: false };
+        break;
+      }
+      target = { id: c.id, after: true };
+    }
+    if (target && target.id === id) target = null;
+    setDropTarget(target);
   }
 
-  // ----------- Layout actions: Save / Open / Delete -----------
+  function endDrag(commit: boolean) {
+    if (commit && dragId && dropTarget) moveCard(dragId, dropTarget.id, dropTarget.after);
+    setDragId(null);
+    setDropTarget(null);
+  }
+
+  // ----------- Layout actions: Save / Open / Rename / Duplicate / Delete -----------
+  // Save: overwrites the open layout, or asks for a title when none is open
   function saveLayout() {
+    if (!openLayoutEntry || cards.length === 0) {
+      saveLayoutAs();
+      return;
+    }
+    if (!layoutDirty) {
+      notify(`No changes to save in ${openLayoutEntry.title}`);
+      return;
+    }
+    record('Save layout');
+    setLayouts(prev => overwriteLayout(prev, openLayoutEntry.id, cards, colorsFor(cards, tagColors)));
+    notifyUndo(`💾 Saved layout: ${openLayoutEntry.title}`);
+  }
+
+  // Save As: always a new layout, which becomes the open one
+  async function saveLayoutAs() {
     if (cards.length === 0) {
-      toast('Nothing to save (no prompts yet)');
+      notify('Nothing to save (no prompts yet)', { severity: 'warning' });
       return;
     }
-    const base = prompt('Layout title:', currentLayoutTitle || '') ?? '';
-    const uniqueTitle = nextUniqueTitle(base);
+    const base = await askText({ title: 'Save layout as', label: 'Layout title', value: currentLayoutTitle || '', confirmLabel: 'Save' });
+    if (base === null) return;
+    const uniqueTitle = nextUniqueTitle(layouts, base);
     const entry: LayoutEntry = {
       id: 'L' + Date.now(),
       title: uniqueTitle,
       savedAt: Date.now(),
-      cards
+      cards: stampOrder(cards),
+      tagColors: colorsFor(cards, tagColors)
     };
+    record('Save layout');
     setLayouts(prev => [...prev, entry]);
     setCurrentLayoutTitle(uniqueTitle);
-    toast(`💾 Saved layout: ${uniqueTitle}`);
+    notifyUndo(`💾 Saved layout: ${uniqueTitle}`);
   }
 
   function openLayout(id: string) {
     const lay = layouts.find(l => l.id === id);
     if (!lay) return;
-    setCards(lay.cards);
+    record('Open layout');
+    setCards(sortCards(lay.cards));
+    // Layout colours fill in tags that have none locally
+    if (lay.tagColors) setTagColors(prev => ({ ...lay.tagColors, ...prev }));
+    setSelected(new Set());
     setCurrentLayoutTitle(lay.title);
     setShowLibrary(false);
-    setExpanded(new Set()); // reset temp expansion on open
-    toast(`📂 Opened: ${lay.title}`);
+    updateExpanded(() => new Set()); // reset expansion on open
+    notifyUndo(`📂 Opened: ${lay.title}`);
+  }
+
+  async function renameSavedLayout(id: string) {
+    const lay = layouts.find(l => l.id === id);
+    if (!lay) return;
+    const input = await askText({ title: 'Rename layout', label: 'Layout title', value: lay.title, confirmLabel: 'Rename' });
+    if (input === null || input.trim() === lay.title) return;
+    const { layouts: next, title } = renameLayout(layouts, id, input);
+    record('Rename layout');
+    setLayouts(next);
+    if (lay.title === currentLayoutTitle) setCurrentLayoutTitle(title);
+    // Copy statistics are kept per layout title
+    setUsage(prev => renameLayoutUsage(prev, lay.title, title));
+    notifyUndo(`✏️ Renamed to ${title}`);
+  }
+
+  function duplicateSavedLayout(id: string) {
+    const { layouts: next, copy } = duplicateLayout(layouts, id);
+    if (!copy) return;
+    record('Duplicate layout');
+    setLayouts(next);
+    notifyUndo(`📄 Duplicated as ${copy.title}`);
   }
 
-  function deleteLayout(id: string) {
+  async function deleteLayout(id: string) {
     const lay = layouts.find(l => l.id === id);
     if (!lay) return;
-    if (!confirm(`Delete layout?\n\n${lay.title}`)) return;
+    if (!(await askConfirm({ title: 'Delete layout?', message: lay.title, confirmLabel: 'Delete', danger: true }))) return;
+    record('Delete layout');
     setLayouts(prev => prev.filter(l => l.id !== id));
-    toast('🗑 Layout deleted');
-  }
-
-  // ----------- Import/Export (inside Library) -----------
-  function exportJSON() {
-    const blob = new Blob([JSON.stringify({ cards }, null, 2)], { type: 'application/json' });
-    const a = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    a.href = url;
-    a.download = 'prompts.json';
-    a.click();
-    URL.revokeObjectURL(url);
-  }
-
- function exportLibrary() {
-  const payload = JSON.stringify({ layouts }, null, 2);
-
-  // Primary: modern clipboard API
-  navigator.clipboard.writeText(payload)
-    .then(() => {
-      toast('✅ Library copied to clipboard');
-    })
-    .catch(() => {
-      // Fallback: create a hidden textarea and copy via execCommand
-      try {
-        const ta = document.createElement('textarea');
-        ta.value = payload;
-        ta.style.position = 'fixed';
-        ta.style.left = '-9999px';
-        ta.setAttribute('readonly', 'true');
-        document.body.appendChild(ta);
-        ta.select();
-        document.execCommand('copy');
-        document.body.removeChild(ta);
-        toast('✅ Library copied to clipboard');
-      } catch {
-        // Last resort: show an alert so user can copy manually
-        alert('Copy failed. Your browser may block clipboard access.\n\nHere is the library JSON so you can copy it manually:\n\n' + payload);
-      }
+    // The page keeps its cards, now as an unsaved page
+    if (lay.title === currentLayoutTitle) setCurrentLayoutTitle('');
+    notifyUndo('🗑 Layout deleted');
+  }
+
+  // ----------- Backups (inside Library) -----------
+  function backupData(): BackupData {
+    return {
+      cards,
+      layouts,
+      layoutTitle: currentLayoutTitle,
+      tagColors,
+      templateValues: templateMemory,
+      history,
+      author,
+      theme,
+      backupSettings,
+      copySettings,
+      preferences,
+      usage,
+      tokenSettings
+    };
+  }
+
+  async function refreshBackups() {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      const list = await store.listBackups();
+      setBackups(list.sort((a, b) => b.createdAt - a.createdAt));
+    } catch {
+      setBackups([]);
+    }
+  }
+
+  // Keep a backup in this browser, then prune automatic ones to `keep`
+  async function storeBackup(auto: boolean) {
+    const store = storeRef.current;
+    if (!store) throw new Error('storage is not available');
+    await store.saveBackup(makeBackup(backupData(), auto));
+    const all = await store.listBackups();
+    await store.deleteBackups(expiredBackups(all, backupSettings.keep).map(b => b.id));
+  }
+
+  async function autoBackup() {
+    const store = storeRef.current;
+    if (!store || backupSettings.interval === 'off') return;
+    try {
+      const latest = (await store.listBackups())
+        .filter(b => b.auto)
+        .sort((a, b) => b.createdAt - a.createdAt)[0];
+      if (!isBackupDue(backupSettings, latest, backupData())) return;
+      await storeBackup(true);
+      if (showBackups) refreshBackups();
+    } catch (err) {
+      notify(`⚠️ Automatic backup failed: ${err instanceof Error ? err.message : String(err)}`, { severity: 'warning' });
+    }
+  }
+  useEffect(() => {
+    autoBackupRef.current = autoBackup;
+  });
+
+  function openBackups() {
+    setShowBackups(true);
+    refreshBackups();
+  }
+
+  function downloadBackup(existing?: BackupRecord) {
+    const backup = existing ?? makeBackup(backupData(), false);
+    downloadText(backup.doc, backupFileName(backup.createdAt), 'application/json');
+  }
+
+  async function backupNow() {
+    try {
+      await storeBackup(false);
+      notify('✅ Backup saved in this browser', { severity: 'success' });
+    } catch (err) {
+      notify(`Backup failed: ${err instanceof Error ? err.message : String(err)}`, { severity: 'error' });
+    }
+    refreshBackups();
+  }
+
+  async function deleteBackup(b: BackupRecord) {
+    const ok = await askConfirm({
+      title: 'Delete backup?',
+      message: `The backup from ${new Date(b.createdAt).toLocaleString()} is removed from this browser.`,
+      confirmLabel: 'Delete',
+      danger: true
     });
-}
+    if (!ok) return;
+    try {
+      await storeRef.current?.deleteBackups([b.id]);
+    } catch (err) {
+      notify(`Could not delete backup: ${err instanceof Error ? err.message : String(err)}`, { severity: 'error' });
+    }
+    refreshBackups();
+  }
 
+  // Parse a backup (or any export) and show what restoring it would change
+  function openRestore(text: string, source: string, fileName: string) {
+    let parsed: ReturnType<typeof parseDoc>;
+    try {
+      parsed = parseDoc(text, fileName);
+    } catch (err) {
+      notify(err instanceof ExchangeError ? err.message : 'Invalid backup file', { severity: 'error' });
+      return;
+    }
+    const current = backupData();
+    const data = backupFromDoc(parsed.doc, current);
+    setRestore({
+      source,
+      data,
+      preview: previewRestore(current, data),
+      problems: parsed.errors.map(describeFieldError)
+    });
+  }
 
-  function importJSON(file: File) {
-    file.text().then(t => {
-      const data = JSON.parse(t);
-      if (!data || !Array.isArray(data.cards)) {
-        alert('Invalid file');
-        return;
+  function restoreFromFile(file: File) {
+    file.text().then(t => openRestore(t, file.name, file.name)).catch(() => notify('Failed to read file', { severity: 'error' }));
+  }
+
+  function applyRestore() {
+    if (!restore) return;
+    const { data } = restore;
+    setRestore(null);
+    setShowBackups(false);
+    // Settings aren't covered by undo, so keep a copy of the state being replaced
+    storeRef.current?.saveBackup(makeBackup(backupData(), false)).catch(() => {});
+    record('Restore backup');
+    applySnapshot({
+      cards: data.cards,
+      layouts: data.layouts,
+      layoutTitle: data.layoutTitle,
+      history: data.history,
+      templateValues: data.templateValues
+    });
+    // Unlike an undo, a restore replaces these outright
+    setHistory(data.history);
+    setTemplateMemory(data.templateValues);
+    setTagColors(data.tagColors);
+    setAuthor(data.author);
+    setTheme(data.theme);
+    setBackupSettings(data.backupSettings);
+    setCopySettings(data.copySettings);
+    setPreferences(data.preferences);
+    setUsage(data.usage);
+    setTokenSettings(data.tokenSettings);
+    setSessionExpanded(new Set());
+    notifyUndo('♻️ Backup restored');
+  }
+
+  // ----------- Import/Export (inside Library, see lib/exchange.ts) -----------
+  function exportCards() {
+    const { ext, mime } = EXPORT_FORMATS[exportFormat];
+    const doc = makeDoc({ cards, tagColors: colorsFor(cards, tagColors) });
+    downloadText(serializeDoc(doc, exportFormat), `prompts.${ext}`, mime);
+  }
+
+  function exportLibrary() {
+    const { ext, mime } = EXPORT_FORMATS[exportFormat];
+    downloadText(serializeDoc(makeDoc({ layouts, theme }), exportFormat), `library.${ext}`, mime);
+  }
+
+  function copyLibrary() {
+    writeClipboard({ text: serializeDoc(makeDoc({ layouts, theme }), exportFormat) })
+      .then(() => notify('✅ Library copied to clipboard', { severity: 'success' }))
+      // Large libraries and mobile browsers often refuse; a file always works
+      .catch(() => notify('⚠️ Copy failed. Use Export Library to download it instead.', { severity: 'warning' }));
+  }
+
+  // Both imports open the wizard; nothing is written until it is confirmed
+  function importCards(file: File) {
+    readImportFile(file, doc => {
+      if (!doc.cards?.length && doc.layouts?.length) {
+        notify('This file contains saved layouts. Use "Import Library From File" instead.', { severity: 'warning' });
+        return undefined;
       }
-      const norm: Card[] = data.cards.map((c: any, i: number) => ({
-        id: String(c.id ?? 'c' + Date.now() + i),
-        title: String(c.title ?? 'Untitled'),
-        text: String(c.text ?? ''),
-        createdAt: Number.isFinite(+c.createdAt) ? +c.createdAt : Date.now() - i
-      }));
-      // Oldest at top, newest at bottom
-      norm.sort((a, b) => a.createdAt - b.createdAt);
-      setCards(norm);
-      setExpanded(new Set()); // reset temp expansion on import
-      toast('📥 Imported');
-    }).catch(() => alert('Failed to read file'));
+      return doc.cards?.length ? planCards(cards, doc.cards, doc.tagColors ?? {}) : null;
+    });
   }
 
-  // New: Import Library (layouts) from file
   function importLibrary(file: File) {
+    readImportFile(file, doc => {
+      if (!doc.layouts?.length && doc.cards?.length) {
+        notify('This file contains prompts, not layouts. Use "Import Layout From File" instead.', { severity: 'warning' });
+        return undefined;
+      }
+      return doc.layouts?.length ? planLayouts(layouts, doc.layouts) : null;
+    });
+  }
+
+  // `makePlan` returns null when the file holds nothing to import, or
+  // undefined when it already told the user why
+  function readImportFile(file: File, makePlan: (doc: ExportDoc) => ImportPlan | null | undefined) {
     file.text().then(t => {
-      let data: any;
+      let parsed: ReturnType<typeof parseDoc>;
       try {
-        data = JSON.parse(t);
-      } catch {
-        alert('Invalid JSON');
+        parsed = parseDoc(t, file.name);
+      } catch (err) {
+        notify(err instanceof ExchangeError ? err.message : 'Invalid file', { severity: 'error' });
         return;
       }
-
-      // Accept common shapes:
-      // - { layouts: [...] }
-      // - [ ... ] (array of layouts)
-      const incoming = Array.isArray(data) ? data : data?.layouts;
-      if (!Array.isArray(incoming)) {
-        alert('Invalid library file (expected { "layouts": [...] })');
+      const problems = parsed.errors.map(describeFieldError);
+      const plan = makePlan(parsed.doc);
+      if (plan === undefined) return;
+      if (!plan) {
+        if (problems.length) {
+          notify(`Nothing could be imported from ${file.name}:\n\n${problems.slice(0, 10).join('\n')}`
+            + (problems.length > 10 ? `\n…and ${problems.length - 10} more` : ''), { severity: 'error' });
+        } else {
+          notify('ℹ️ Nothing to import in this file');
+        }
         return;
       }
+      openImportWizard(plan, file.name, problems);
+      setImportTheme(plan.kind === 'layouts' ? parsed.doc.theme ?? null : null);
+    }).catch(() => notify('Failed to read file', { severity: 'error' }));
+  }
 
-      // Build a set of existing titles to avoid collisions
-      const existingTitles = new Set(layouts.map(l => l.title));
-
-      const normalized: LayoutEntry[] = incoming.map((l: any, li: number) => {
-        // normalize cards
-        const cardsArr: Card[] = Array.isArray(l?.cards) ? l.cards.map((c: any, i: number) => ({
-          id: String(c?.id ?? 'c' + Date.now() + '_' + li + '_' + i),
-          title: String(c?.title ?? 'Untitled'),
-          text: String(c?.text ?? ''),
-          createdAt: Number.isFinite(+c?.createdAt) ? +c.createdAt : (Date.now() - i)
-        })) : [];
-
-        // Sort oldest->newest
-        cardsArr.sort((a, b) => a.createdAt - b.createdAt);
-
-        // Title uniqueness across existing + within this import
-        let baseTitle = String(l?.title ?? 'Untitled');
-        let uniqueTitle = baseTitle.trim() || 'Untitled';
-        while (existingTitles.has(uniqueTitle)) uniqueTitle = uniqueTitle + '-2';
-        existingTitles.add(uniqueTitle);
-
-        const savedAt = Number.isFinite(+l?.savedAt) ? +l.savedAt : Date.now() - li;
-
-        return {
-          id: 'L' + Date.now() + '_' + li,
-          title: uniqueTitle,
-          savedAt,
-          cards: cardsArr
-        };
-      });
+  function openImportWizard(plan: ImportPlan, name: string, problems: string[], layoutName = '') {
+    setImportPlan(plan);
+    setImportName(name);
+    setImportProblems(problems);
+    setImportTarget('page');
+    setImportLayoutName(layoutName);
+    setImportTheme(null);
+  }
 
-      if (normalized.length === 0) {
-        toast('ℹ️ No layouts found in file');
+  // Chat exports, Markdown notes and .txt files (see lib/sources.ts); a
+  // picked folder brings its files along with their relative paths
+  function importSources(list: FileList) {
+    const files = Array.from(list);
+    if (files.length === 0) return;
+    Promise.all(files.map(async (f): Promise<SourceFile> => ({
+      name: f.name,
+      path: f.webkitRelativePath || undefined,
+      // Files that would be passed over anyway (images etc.) aren't read
+      text: sourceKind(f.name) ? await f.text() : '',
+      modifiedAt: f.lastModified || undefined
+    }))).then(read => {
+      const { cards: found, problems, title } = readSources(read);
+      if (found.length === 0) {
+        notify(problems.length
+          ? `No prompts found:\n\n${problems.slice(0, 10).join('\n')}` + (problems.length > 10 ? `\n…and ${problems.length - 10} more` : '')
+          : 'No prompts found', { severity: problems.length ? 'error' : 'warning' });
         return;
       }
+      const folder = files[0].webkitRelativePath.split('/')[0];
+      const name = folder || (files.length === 1 ? files[0].name : `${files.length} files`);
+      openImportWizard(planCards(cards, found, {}), name, problems, title);
+    }).catch(() => notify('Failed to read files', { severity: 'error' }));
+  }
 
-      setLayouts(prev => [...prev, ...normalized]);
-      toast(`📚 Imported ${normalized.length} layout${normalized.length > 1 ? 's' : ''}`);
-    }).catch(() => alert('Failed to read file'));
-  }
-
-  // ----------- Styles for preview clamping (3 lines) -----------
-  const LINE_HEIGHT = 1.4; // visual line-height multiplier
-  const PREVIEW_LINES = 3;
-  const PREVIEW_HEIGHT = `calc(${LINE_HEIGHT}em * ${PREVIEW_LINES})`;
-
-  // Collapsed preview: fixed height (equal for all), 3 lines visible, rest hidden
-  const previewCollapsedStyle: React.CSSProperties = {
-    whiteSpace: 'pre-line',
-    display: '-webkit-box',
-    WebkitLineClamp: PREVIEW_LINES as unknown as number,
-    WebkitBoxOrient: 'vertical' as unknown as 'vertical',
-    overflow: 'hidden',
-    lineHeight: LINE_HEIGHT as unknown as string,
-    height: PREVIEW_HEIGHT,
-    opacity: 1,
-    boxSizing: 'border-box',
-    maxWidth: '100%',
-    overflowWrap: 'anywhere',
-    wordBreak: 'break-word'
-  };
+  // Change the action of one row (key) or of every row with a status
+  function setImportAction(target: { key: string } | { status: ImportStatus }, action: ImportAction) {
+    setImportPlan(prev => {
+      if (!prev) return prev;
+      const items = (prev.items as ImportItem<Card | LayoutEntry>[]).map(item => {
+        const hit = 'key' in target ? item.key === target.key : item.status === target.status;
+        return hit && actionsFor(item.status).includes(action) ? { ...item, action } : item;
+      });
+      return { ...prev, items } as ImportPlan;
+    });
+  }
 
-  // Expanded view: full text
-  const previewExpandedStyle: React.CSSProperties = {
-    whiteSpace: 'pre-wrap',
-    display: 'block',
-    overflow: 'visible',
-    lineHeight: LINE_HEIGHT as unknown as string,
-    boxSizing: 'border-box',
-    maxWidth: '100%',
-    overflowWrap: 'anywhere',
-    wordBreak: 'break-word'
-  };
+  function confirmImport() {
+    const plan = importPlan;
+    if (!plan) return;
+    setImportPlan(null);
+    const count = (plan.items as ImportItem<unknown>[]).filter(i => i.action !== 'skip').length;
+    if (count === 0) {
+      notify('ℹ️ Nothing imported');
+      return;
+    }
+    if (plan.kind === 'cards' && importTarget === 'layout') {
+      record('Import prompts as layout');
+      setLayouts(prev => addCardPlanAsLayout(prev, importLayoutName, plan.items, plan.tagColors));
+      notifyUndo(`📚 Saved ${count} imported prompt${count > 1 ? 's' : ''} as a new layout`);
+    } else if (plan.kind === 'cards') {
+      record('Import prompts');
+      setTagColors(prev => ({ ...plan.tagColors, ...prev }));
+      setSelected(new Set());
+      setCards(prev => applyCardPlan(prev, plan.items));
+      notifyUndo(`📥 Imported ${count} prompt${count > 1 ? 's' : ''}`);
+    } else {
+      record('Import library');
+      setLayouts(prev => applyLayoutPlan(prev, plan.items));
+      notifyUndo(`📚 Imported ${count} layout${count > 1 ? 's' : ''}`);
+      // The library's theme is offered, not applied: it is a per-browser choice
+      const incoming = importTheme;
+      if (incoming && serialize(incoming) !== serialize(theme)) {
+        notify('🎨 The imported library has its own theme', {
+          ms: 8000,
+          action: { label: 'Use it', run: () => setTheme(incoming) }
+        });
+      }
+    }
+  }
 
   // ----------- Render -----------
   return (
@@ -403,7 +1602,7 @@ export default function Page() {
       }}
     >
       {/* Header / Controls */}
-      <div
+      <header
         style={{
           display: 'flex',
           alignItems: 'center',
@@ -419,15 +1618,30 @@ export default function Page() {
         <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
           <Image
             src="/copyai_logo.png"
-            alt="CopyAI logo"
+            alt="" // the name is right next to it
             width={22}
             height={22}
             priority
             style={{ display: 'block' }}
           />
-          <div style={{ fontWeight: 700, fontSize: 20 }}>
+          <h1 style={{ fontWeight: 700, fontSize: 20, margin: 0 }}>
             CopyAI
-          </div>
+          </h1>
+        </div>
+
+        {/* Open layout; the dot marks changes not saved into it yet */}
+        <div
+          style={{ display: 'flex', alignItems: 'center', gap: 6, minWidth: 0, fontSize: 14, opacity: .85 }}
+          title={openLayoutEntry
+            ? `${openLayoutEntry.title}${layoutDirty ? ' (unsaved changes)' : ''}`
+            : 'This page is not saved as a layout'}
+        >
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {openLayoutEntry ? `📂 ${openLayoutEntry.title}` : 'Unsaved page'}
+          </span>
+          {openLayoutEntry && layoutDirty && (
+            <span aria-label="unsaved changes" style={{ color: ACCENT, fontSize: 18, lineHeight: 1 }}>•</span>
+          )}
         </div>
 
         {/* Spacer pushes the buttons to the right */}
@@ -436,10 +1650,20 @@ export default function Page() {
         {/* Primary actions aligned to the right */}
         <button
           onClick={saveLayout}
-          style={{ background: ACCENT, color: '#fff', padding: '8px 12px', borderRadius: 8 }}
-          title="Save current list as a layout in the Library"
+          style={{ background: ACCENT, color: ON_ACCENT, padding: '8px 12px', borderRadius: 8 }}
+          title={openLayoutEntry
+            ? `Save the page into ${openLayoutEntry.title}`
+            : 'Save current list as a layout in the Library'}
         >
-          💾 Save Layout
+          💾 Save
+        </button>
+
+        <button
+          onClick={saveLayoutAs}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title="Save current list as a new layout in the Library"
+        >
+          Save As…
         </button>
 
         <button
@@ -449,400 +1673,492 @@ export default function Page() {
         >
           📚 Library
         </button>
-      </div>
 
-      {/* Add Form */}
-      <div
-        style={{
-          background: PANEL,
-          border: `1px solid ${BORDER}`,
-          borderRadius: 12,
-          padding: 16,
-          display: 'grid',
-          gap: 10,
-          marginBottom: 16,
-          boxSizing: 'border-box',
-          maxWidth: '100%',
-          overflow: 'hidden' // ensures rounded corners are always respected
-        }}
-      >
-        {/* No section title */}
-        <input
-          value={title}
-          onChange={(e) => setTitle(e.target.value)}
-          placeholder="Title (e.g., Outreach – Follow-up #1)"
-          style={{
-            width: '100%',
-            background: SURFACE,
-            color: TEXT,
-            border: `1px solid ${BORDER}`,
-            borderRadius: 8,
-            padding: '10px',
-            boxSizing: 'border-box',
-            maxWidth: '100%',
-            overflowWrap: 'anywhere',
-            wordBreak: 'break-word'
-          }}
-        />
+        <button
+          onClick={() => setPaletteOpen(true)}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title="Search all prompts and layouts (Ctrl/Cmd+K)"
+        >
+          🔍 Search
+        </button>
+
+        <button
+          onClick={openStats}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title="How often prompts are copied (stored only in this browser)"
+        >
+          📊 Stats
+        </button>
 
-        <textarea
-          value={text}
-          onChange={(e) => setText(e.target.value)}
-          placeholder="Prompt text…"
-          rows={5}
+        <button
+          onClick={() => setShowHelp(true)}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title={`Keyboard shortcuts (${describeCombo(bindingOf(preferences.keyBindings, 'help'))})`}
+        >
+          ⌨️
+        </button>
+
+        <button
+          onClick={() => setShowAppearance(true)}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title="Appearance: theme, colours and card previews"
+        >
+          🎨
+        </button>
+
+        <button
+          onClick={() => setShowTokenSettings(true)}
+          style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }}
+          title="Prompt size: token counting and model context limits"
+        >
+          📏
+        </button>
+      </header>
+
+      {/* Storage problems stay visible until resolved */}
+      {(loadError || Object.keys(saveErrors).length > 0) && (
+        <div
+          role="alert"
           style={{
-            width: '100%',
-            resize: 'vertical',
-            background: SURFACE,
-            color: TEXT,
-            border: `1px solid ${BORDER}`,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            flexWrap: 'wrap',
+            background: 'rgba(239,68,68,.15)',
+            border: '1px solid rgba(239,68,68,.6)',
             borderRadius: 8,
-            padding: 10,
+            padding: '8px 12px',
+            marginBottom: 16,
+            fontSize: 14,
             boxSizing: 'border-box',
-            maxWidth: '100%',
-            overflowWrap: 'anywhere',
-            wordBreak: 'break-word'
+            maxWidth: '100%'
           }}
-        />
+        >
+          <div style={{ flex: '1 1 auto', minWidth: 0, overflowWrap: 'anywhere' }}>
+            {loadError
+              ? `⚠️ Could not load saved prompts (${loadError}). Changes in this session will not be saved.`
+              : `⚠️ ${Object.values(saveErrors)[0]}. Recent changes are not saved yet — download a backup from the Library if this persists.`}
+          </div>
+          {!loadError && (
+            <button
+              onClick={retrySave}
+              style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}
+            >
+              Retry
+            </button>
+          )}
+        </div>
+      )}
 
-        <div>
+      <AddForm draft={draft} onChange={setDraft} onAdd={addCard} disabled={!loaded} titleRef={titleRef} tokenSettings={tokenSettings}
+        includeOptions={includeOptions} resolveText={text => resolveIncludes({ id: '', text }, includeCards).text} />
+
+      {/* Filter for the list below (+ tag sidebar toggle) */}
+      {cards.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, marginBottom: 12, boxSizing: 'border-box', maxWidth: '100%' }}>
+          <button
+            onClick={() => setShowTags(v => !v)}
+            style={{
+              background: showTags || tagFilter.size > 0 ? ACCENT : PANEL,
+              color: showTags || tagFilter.size > 0 ? ON_ACCENT : TEXT,
+              padding: '6px 10px',
+              borderRadius: 8,
+              flex: '0 0 auto'
+            }}
+            title={showTags ? 'Hide tag sidebar' : 'Show tag sidebar'}
+          >
+            🏷 Tags{tagFilter.size > 0 ? ` (${tagFilter.size})` : ''}
+          </button>
+          <input
+            ref={filterRef}
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Escape') return;
+              e.preventDefault(); // handled here, not by the page shortcuts
+              setFilter('');
+            }}
+            placeholder={`Filter ${cards.length} prompt${cards.length > 1 ? 's' : ''}…`}
+            style={{
+              flex: '1 1 auto',
+              minWidth: 0,
+              background: SURFACE,
+              color: TEXT,
+              border: `1px solid ${BORDER}`,
+              borderRadius: 8,
+              padding: '8px 10px',
+              boxSizing: 'border-box',
+              maxWidth: '100%'
+            }}
+          />
+          <select
+            value={preferences.cardSort}
+            onChange={(e) => setPreferences(prev => ({ ...prev, cardSort: e.target.value as CardSort }))}
+            title={manualOrder ? 'Sort prompts' : 'Sorted view; switch to manual order to drag prompts'}
+            aria-label="Sort prompts"
+            style={{
+              flex: '0 0 auto',
+              background: SURFACE,
+              color: TEXT,
+              border: `1px solid ${BORDER}`,
+              borderRadius: 8,
+              padding: '8px 6px'
+            }}
+          >
+            {(Object.keys(CARD_SORTS) as CardSort[]).map(k => <option key={k} value={k}>{CARD_SORTS[k]}</option>)}
+          </select>
           <button
-            onClick={addCard}
-            style={{ background: ACCENT, color: '#fff', padding: '10px 14px', borderRadius: 8 }}
+            onClick={toggleExpandAll}
+            title={allExpanded ? 'Collapse every shown prompt' : 'Expand every shown prompt'}
+            style={{ flex: '0 0 auto', background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }}
           >
-            ➕ Add (goes to bottom)
+            {allExpanded ? 'Collapse all' : 'Expand all'}
           </button>
         </div>
-      </div>
-
-      {/* Vertical List (oldest first, newest last) */}
-      <div style={{ display: 'grid', gap: 12, overflowX: 'hidden', boxSizing: 'border-box', maxWidth: '100%' }}>
-        {cards.length === 0 && (
-          <div style={{ opacity: .7, textAlign: 'center' }}>(No prompts yet — add one above)</div>
-        )}
-
-        {cards.map((c) => {
-          const isEditing = editingId === c.id;
-          const isExpanded = expanded.has(c.id);
-          const showToggle = needsClamp(c.text) || isExpanded;
-
-          return (
-            <div
-              key={c.id}
-              onClick={(e) => {
-                if (isEditing) return;
-                if ((e.target as HTMLElement).closest('[data-nocopy]')) return;
-                // Copy full text on card click (primary behavior)
-                copyNow(c.text);
-              }}
-              style={{
-                background: SURFACE,
-                border: `1px solid ${BORDER}`,
-                borderRadius: 12,
-                padding: 12,
-                boxSizing: 'border-box',
-                maxWidth: '100%',
-                // Critical: Clip children so rounded corners are always respected
-                overflow: 'hidden'
-              }}
-            >
-              {isEditing ? (
-                <div style={{ display: 'grid', gap: 8, boxSizing: 'border-box', maxWidth: '100%' }}>
-                  <input
-                    value={editTitle}
-                    onChange={(e) => setEditTitle(e.target.value)}
-                    placeholder="Title"
-                    style={{
-                      width: '100%',
-                      background: BG,
-                      color: TEXT,
-                      border: `1px solid ${BORDER}`,
-                      borderRadius: 8,
-                      padding: '8px 10px',
-                      boxSizing: 'border-box',
-                      maxWidth: '100%',
-                      overflowWrap: 'anywhere',
-                      wordBreak: 'break-word'
-                    }}
-                  />
-                  <textarea
-                    value={editText}
-                    onChange={(e) => setEditText(e.target.value)}
-                    placeholder="Text"
-                    rows={5}
-                    style={{
-                      width: '100%',
-                      resize: 'vertical',
-                      background: BG,
-                      color: TEXT,
-                      border: `1px solid ${BORDER}`,
-                      borderRadius: 8,
-                      padding: 10,
-                      boxSizing: 'border-box',
-                      maxWidth: '100%',
-                      overflowWrap: 'anywhere',
-                      wordBreak: 'break-word'
-                    }}
-                  />
-                  <div style={{ display: 'flex', gap: 8 }}>
-                    <button onClick={saveEdit} style={{ background: ACCENT, color: '#fff', padding: '8px 12px', borderRadius: 8 }} data-nocopy>
-                      Save
-                    </button>
-                    <button onClick={cancelEdit} style={{ background: PANEL, color: TEXT, padding: '8px 12px', borderRadius: 8 }} data-nocopy>
-                      Cancel
-                    </button>
-                  </div>
-                </div>
-              ) : (
-                <div style={{ display: 'grid', gap: 6, boxSizing: 'border-box', maxWidth: '100%' }}>
-                  <div
-                    style={{
-                      fontWeight: 700,
-                      fontSize: 16,
-                      boxSizing: 'border-box',
-                      maxWidth: '100%',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      whiteSpace: 'nowrap'
-                    }}
-                    title={c.title || 'Untitled'}
-                  >
-                    {c.title || 'Untitled'}
-                  </div>
-
-                  {/* Text + bottom-right toggle container */}
-                  <div
-                    style={{
-                      position: 'relative',
-                      boxSizing: 'border-box',
-                      maxWidth: '100%',
-                      // Ensure toggle never sits outside rounded clipping
-                      paddingBottom: showToggle ? 28 : 0
-                    }}
-                  >
-                    <div
-                      style={{
-                        ...(isExpanded ? previewExpandedStyle : previewCollapsedStyle),
-                        opacity: c.text ? 1 : .6
-                      }}
-                    >
-                      {c.text || '(empty)'}
-                    </div>
-
-                    {showToggle && (
-                      <button
-                        data-nocopy
-                        onClick={(e) => {
-                          e.stopPropagation(); // do not copy text when toggling
-                          toggleExpanded(c.id);
-                        }}
-                        aria-label={isExpanded ? 'Show less' : 'Show more'}
-                        title={isExpanded ? 'Show less' : 'Show more'}
-                        style={{
-                          position: 'absolute',
-                          right: 8, // inset to keep away from the clipped edge
-                          bottom: 8, // inset to keep away from the clipped edge
-                          background: PANEL,
-                          color: TEXT,
-                          border: `1px solid ${BORDER}`,
-                          borderRadius: 6,
-                          padding: '2px 8px',
-                          fontSize: 12,
-                          lineHeight: 1.4,
-                          cursor: 'pointer',
-                          maxWidth: 'calc(100% - 16px)',
-                          boxSizing: 'border-box',
-                          overflow: 'hidden',
-                          textOverflow: 'ellipsis',
-                          whiteSpace: 'nowrap'
-                        }}
-                      >
-                        {isExpanded ? 'Show less' : 'Show more'}
-                      </button>
-                    )}
-                  </div>
-
-                  {/* Action buttons */}
-                  <div style={{ display: 'flex', gap: 8, marginTop: 4, flexWrap: 'wrap' }}>
-                    <button onClick={() => startEdit(c.id)} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }} data-nocopy>
-                      Edit
-                    </button>
-                    <button onClick={() => removeCard(c.id)} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8 }} data-nocopy>
-                      Delete
-                    </button>
-                  </div>
-                </div>
-              )}
-            </div>
-          );
-        })}
-      </div>
+      )}
 
-      {/* Library Modal (with Import/Export inside) */}
-      {showLibrary && (
+      {/* Bulk actions for ticked cards */}
+      {selected.size > 0 && (
         <div
-          onClick={() => setShowLibrary(false)}
           style={{
-            position: 'fixed', inset: 0, background: 'rgba(0,0,0,.5)',
-            display: 'grid', placeItems: 'center', zIndex: 10000,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            flexWrap: 'wrap',
+            background: PANEL,
+            border: `1px solid ${BORDER}`,
+            borderRadius: 8,
+            padding: '8px 10px',
+            marginBottom: 12,
             boxSizing: 'border-box',
-            maxWidth: '100%',
-            overflow: 'hidden'
+            maxWidth: '100%'
           }}
         >
-          <div
-            onClick={(e) => e.stopPropagation()}
+          <div style={{ fontSize: 13, opacity: .8 }}>{selected.size} selected</div>
+          <input
+            value={bulkTag}
+            onChange={(e) => setBulkTag(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyBulkTags('add'); }}
+            placeholder="tag, another/tag"
             style={{
-              background: PANEL,
+              flex: '1 1 160px',
+              minWidth: 0,
+              background: SURFACE,
+              color: TEXT,
               border: `1px solid ${BORDER}`,
-              borderRadius: 12,
-              width: 'min(720px, 92vw)',
-              maxHeight: '80vh',
-              // Scroll stays inside rounded container:
-              overflow: 'auto',
-              padding: '16px 14px 16px',
-              boxSizing: 'border-box',
-              maxWidth: '92vw',
-              // Clip to preserve rounded corners at all times
-              overflowClipMargin: '0px', // harmless if unsupported
-              overflowX: 'hidden'
+              borderRadius: 8,
+              padding: '6px 8px',
+              boxSizing: 'border-box'
             }}
-          >
-            <div
-              style={{
-                display: 'flex',
-                alignItems: 'center',
-                gap: 8,
-                justifyContent: 'space-between',
-                marginBottom: 10,
-                flexWrap: 'wrap',
-                rowGap: 8,
-                boxSizing: 'border-box',
-                maxWidth: '100%'
-              }}
+          />
+          <button onClick={() => applyBulkTags('add')} style={{ background: ACCENT, color: ON_ACCENT, padding: '6px 10px', borderRadius: 8 }}>
+            Add tag
+          </button>
+          <button onClick={() => applyBulkTags('remove')} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Remove tag
+          </button>
+          <button onClick={selectAllVisible} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Select all shown
+          </button>
+          {/* Combined copy: ticked cards in page order, joined by the separator */}
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+            <button onClick={copySelected} style={{ background: ACCENT, color: ON_ACCENT, padding: '6px 10px', borderRadius: 8 }}>
+              Copy as one prompt
+            </button>
+            {/* Size of the combined prompt, as it would be copied */}
+            <SizeInfo text={selectionText} settings={tokenSettings} />
+            <select
+              value={copySettings.mode}
+              onChange={(e) => setCopySettings(prev => ({ ...prev, mode: e.target.value as CopyMode }))}
+              title={COPY_MODES[copySettings.mode].hint}
+              style={{ background: SURFACE, color: TEXT, border: `1px solid ${BORDER}`, borderRadius: 8, padding: '6px 8px' }}
             >
-              {/* Left cluster: Import / Export Current Layout / Import Library / Export Library */}
-              <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', boxSizing: 'border-box', maxWidth: '100%' }}>
-                {/* Import current layout (cards) */}
-                <label
-                  style={LIB_BTN_STYLE}
-                  title="Import a layout (JSON file with cards)"
-                >
-                  Import Layout From File
-                  <input
-                    type="file"
-                    accept="application/json"
-                    hidden
-                    onChange={(e) => e.target.files && importJSON(e.target.files[0])}
-                  />
-                </label>
-
-                {/* Export current layout (cards) */}
-                <button
-                  onClick={exportJSON}
-                  style={LIB_BTN_STYLE}
-                  title="Export current layout as JSON"
-                >
-                  Export Current Layout
-                </button>
+              {(Object.keys(COPY_MODES) as CopyMode[]).map(m => <option key={m} value={m}>{COPY_MODES[m].label}</option>)}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 13 }} title="Between cards; \n is a new line, \t a tab">
+              Separator
+              <input
+                value={separatorToInput(copySettings.separator)}
+                onChange={(e) => setCopySettings(prev => ({ ...prev, separator: separatorFromInput(e.target.value) }))}
+                style={{
+                  width: 110,
+                  background: SURFACE,
+                  color: TEXT,
+                  border: `1px solid ${BORDER}`,
+                  borderRadius: 8,
+                  padding: '6px 8px',
+                  fontFamily: 'monospace',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </label>
+          </div>
+          <button onClick={() => setSelected(new Set())} style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}>
+            Clear
+          </button>
+        </div>
+      )}
 
-                {/* NEW: Import Library (layouts) — placed to the LEFT of Export Library */}
-                <label
-                  style={LIB_BTN_STYLE}
-                  title="Import a saved library (JSON with layouts)"
-                >
-                  Import Library From File
+      <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start', flexWrap: 'wrap', boxSizing: 'border-box', maxWidth: '100%' }}>
+      {/* Tag sidebar (collapsible) */}
+      {showTags && cards.length > 0 && (
+        <div
+          style={{
+            flex: '0 0 220px',
+            maxWidth: '100%',
+            background: PANEL,
+            border: `1px solid ${BORDER}`,
+            borderRadius: 12,
+            padding: 10,
+            display: 'grid',
+            gap: 2,
+            boxSizing: 'border-box',
+            overflow: 'hidden'
+          }}
+        >
+          {[
+            { key: '', label: 'All', count: cards.length, depth: 0 },
+            { key: UNTAGGED, label: 'Untagged', count: untaggedCount, depth: 0 },
+            ...[...counts.entries()].map(([tag, count]) => ({
+              key: tag,
+              label: tag.split('/').pop() as string,
+              count,
+              depth: tag.split('/').length - 1
+            }))
+          ].map(row => {
+            const active = row.key === '' ? tagFilter.size === 0 : tagFilter.has(row.key);
+            const isTag = row.key !== '' && row.key !== UNTAGGED;
+            const color = isTag ? tagColor(row.key, tagColors) : undefined;
+            return (
+              <div
+                key={row.key || 'all'}
+                style={{ display: 'flex', alignItems: 'center', gap: 6, paddingLeft: row.depth * 12, minWidth: 0 }}
+              >
+                {isTag && (
                   <input
-                    type="file"
-                    accept="application/json"
-                    hidden
-                    onChange={(e) => e.target.files && importLibrary(e.target.files[0])}
+                    type="color"
+                    value={tagColors[row.key] ?? color ?? '#6b7280'}
+                    onChange={(e) => setColorFor(row.key, e.target.value)}
+                    onDoubleClick={() => setColorFor(row.key, null)}
+                    title="Tag colour (double-click to reset)"
+                    style={{ width: 16, height: 16, padding: 0, border: 'none', background: 'transparent', flex: '0 0 auto' }}
                   />
-                </label>
-
-                {/* Export Library (layouts) */}
+                )}
                 <button
-                  onClick={exportLibrary}
-                  style={LIB_BTN_STYLE}
-                  title="Export all saved layouts as JSON"
+                  onClick={() => row.key === '' ? setTagFilter(new Set()) : toggleTagFilter(row.key)}
+                  style={{
+                    flex: '1 1 auto',
+                    minWidth: 0,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    gap: 6,
+                    background: active ? SURFACE : 'transparent',
+                    color: TEXT,
+                    border: 'none',
+                    borderRadius: 6,
+                    padding: '4px 6px',
+                    fontSize: 13,
+                    fontWeight: active ? 700 : 400,
+                    textAlign: 'left'
+                  }}
+                  title={isTag ? row.key : row.label}
                 >
-                  Export Library
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.label}</span>
+                  <span style={{ opacity: .6 }}>{row.count}</span>
                 </button>
               </div>
+            );
+          })}
+        </div>
+      )}
 
-              {/* Right: Close (purple) */}
-              <button
-                onClick={() => setShowLibrary(false)}
-                style={{
-                  background: ACCENT,
-                  color: '#fff',
-                  padding: '6px 10px',
-                  borderRadius: 8,
-                  fontSize: BUTTON_FONT_SIZE
-                }}
-              >
-                Close
-              </button>
-            </div>
-
-            {layouts.length === 0 && <div style={{ opacity: .7 }}>(Library is empty)</div>}
-
-            <div style={{ display: 'grid', gap: 8 }}>
-   
-{layouts.map(l => (
-  <div
-    key={l.id}
-    style={{
-      display: 'flex',
-      alignItems: 'center',
-      padding: '10px 12px',               // inset so buttons don't touch the rounded edge
-      borderBottom: `1px solid ${BORDER}`,
-      borderRadius: 8,                    // optional: softens row corners visually
-      boxSizing: 'border-box',
-      width: '100%',
-      gap: 8,
-      overflow: 'hidden'                  // prevents accidental horizontal overflow within row
-    }}
-  >
-    {/* Left block: title + timestamp (flexible, shrinks as needed) */}
-    <div style={{ flex: '1 1 auto', minWidth: 0 }}>
-      <div
-        style={{
-          fontWeight: 600,
-          overflow: 'hidden',
-          textOverflow: 'ellipsis',
-          whiteSpace: 'nowrap'
+      {/* Vertical List (user order; new cards go to the bottom) */}
+      <CardList
+        cards={visibleCards}
+        totalCount={cards.length}
+        filter={filter}
+        loaded={loaded}
+        usage={usage}
+        now={now}
+        history={history}
+        tagColors={tagColors}
+        keyBindings={preferences.keyBindings}
+        tokenSettings={tokenSettings}
+        resolved={resolved}
+        dependents={dependents}
+        includeCards={includeCards}
+        includeOptions={includeOptions}
+        cardRefs={cardRefs}
+        onCopy={copyCard}
+        onEdit={startEdit}
+        onDelete={removeCard}
+        onHistory={openHistory}
+        onTagClick={(tag) => {
+          toggleTagFilter(tag);
+          setShowTags(true);
         }}
-        title={l.title}
-      >
-        {l.title}
+        selected={selected}
+        onToggleSelected={toggleSelected}
+        previewLines={preferences.previewLines}
+        expanded={expanded}
+        onToggleExpanded={toggleExpanded}
+        editingId={editingId}
+        editDraft={editDraft}
+        editStale={editIsStale()}
+        onEditChange={setEditDraft}
+        onSaveEdit={saveEdit}
+        onCancelEdit={cancelEdit}
+        manualOrder={manualOrder}
+        dragId={dragId}
+        dropTarget={dropTarget}
+        onDragStart={setDragId}
+        onDragMove={onDragMove}
+        onDragEnd={endDrag}
+        onHandleKey={onHandleKey}
+      />
       </div>
-      <div style={{ opacity: .6, fontSize: 12 }}>Saved: {fmt(l.savedAt)}</div>
-    </div>
 
-    {/* Right block: buttons (fixed width) */}
-    <div style={{ display: 'flex', gap: 8, flex: '0 0 auto' }}>
-      <button
-        onClick={() => openLayout(l.id)}
-        style={{ background: ACCENT, color: '#fff', padding: '6px 10px', borderRadius: 8 }}
-      >
-        Open
-      </button>
-      <button
-        onClick={() => deleteLayout(l.id)}
-        style={{ background: PANEL, color: TEXT, padding: '6px 10px', borderRadius: 8, border: `1px solid ${BORDER}` }}
-      >
-        Delete
-      </button>
-    </div>
-  </div>
-))}
+      {/* Library Modal (with Import/Export inside) */}
+      {showLibrary && (
+        <LibraryModal
+          layouts={layouts}
+          visibleLayouts={visibleLayouts}
+          filter={libraryFilter}
+          onFilterChange={setLibraryFilter}
+          exportFormat={exportFormat}
+          onExportFormatChange={setExportFormat}
+          onClose={() => setShowLibrary(false)}
+          sort={preferences.librarySort}
+          onSortChange={(librarySort) => setPreferences(prev => ({ ...prev, librarySort }))}
+          openTitle={openLayoutEntry?.title ?? null}
+          openDirty={layoutDirty}
+          onOpen={openLayout}
+          onRename={renameSavedLayout}
+          onDuplicate={duplicateSavedLayout}
+          onDelete={deleteLayout}
+          onImportCards={importCards}
+          onImportLibrary={importLibrary}
+          onImportSources={importSources}
+          onExportCards={exportCards}
+          onExportLibrary={exportLibrary}
+          onCopyLibrary={copyLibrary}
+          onDownloadBackup={() => downloadBackup()}
+          onOpenBackups={openBackups}
+        />
+      )}
+
+      {/* Theme, palette editor and card preview settings */}
+      {showAppearance && (
+        <AppearanceModal
+          theme={theme}
+          palette={palette}
+          onThemeChange={setTheme}
+          previewLines={preferences.previewLines}
+          onPreviewLinesChange={(previewLines) => setPreferences(prev => ({ ...prev, previewLines }))}
+          keepExpanded={preferences.keepExpanded}
+          onKeepExpandedChange={setKeepExpanded}
+          onClose={() => setShowAppearance(false)}
+        />
+      )}
 
-            </div>
+      {showTokenSettings && (
+        <TokenSettingsModal settings={tokenSettings} onChange={setTokenSettings} onClose={() => setShowTokenSettings(false)} />
+      )}
 
-          </div>
-        </div>
+      {/* Quick-open palette (Ctrl/Cmd+K) */}
+      {paletteOpen && <QuickOpen docs={searchIndex} onActivate={activateHit} onClose={closePalette} />}
+
+      {/* Revision history + diff */}
+      {historyCard && (
+        <HistoryModal
+          card={historyCard}
+          entries={historyEntries(historyCard)}
+          diffFrom={diffFrom}
+          diffTo={diffTo}
+          onDiffFromChange={setDiffFrom}
+          onDiffToChange={setDiffTo}
+          author={author}
+          onAuthorChange={setAuthor}
+          onRestore={(rev) => restoreRevision(historyCard, rev)}
+          onClose={() => setHistoryCardId(null)}
+        />
+      )}
+
+      {/* Conflict resolution (one at a time) */}
+      {conflicts.length > 0 && <ConflictDialog conflict={conflicts[0]} count={conflicts.length} onResolve={resolveConflict} />}
+
+      {/* Backups: schedule, local backups and restore */}
+      {showBackups && (
+        <BackupsModal
+          settings={backupSettings}
+          onSettingsChange={setBackupSettings}
+          backups={backups}
+          onBackupNow={backupNow}
+          onRestoreFile={restoreFromFile}
+          onRestore={(b) => openRestore(b.doc, `the backup from ${new Date(b.createdAt).toLocaleString()}`, backupFileName(b.createdAt))}
+          onDownload={downloadBackup}
+          onDelete={deleteBackup}
+          onClose={() => setShowBackups(false)}
+        />
+      )}
+
+      {/* Restore preview: what changes before anything is replaced */}
+      {restore && (
+        <RestoreDialog
+          source={restore.source}
+          preview={restore.preview}
+          problems={restore.problems}
+          onConfirm={applyRestore}
+          onCancel={() => setRestore(null)}
+        />
+      )}
+
+      {/* Import wizard: preview the file and choose per item before writing */}
+      {importPlan && (
+        <ImportWizard
+          plan={importPlan}
+          name={importName}
+          problems={importProblems}
+          target={importTarget}
+          onTargetChange={setImportTarget}
+          layoutName={importLayoutName}
+          onLayoutNameChange={setImportLayoutName}
+          onAction={setImportAction}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPlan(null)}
+        />
       )}
+
+      {/* Copy statistics */}
+      {showStats && <StatsModal cards={cards} usage={usage} now={now} onReset={resetUsage} onClose={() => setShowStats(false)} />}
+
+      {/* Keyboard shortcuts help; keys can be rebound here */}
+      {showHelp && (
+        <ShortcutsModal
+          bindings={preferences.keyBindings}
+          rebinding={rebinding}
+          onRebindingChange={setRebinding}
+          onRebindKey={onRebindKey}
+          onReset={() => { setPreferences(prev => ({ ...prev, keyBindings: {} })); setRebinding(null); }}
+          onClose={() => { setShowHelp(false); setRebinding(null); }}
+        />
+      )}
+
+      {/* Template fill-in dialog */}
+      {fillCard && (
+        <FillDialog
+          card={fillCard}
+          vars={fillVars}
+          values={fillValues}
+          onValuesChange={setFillValues}
+          mode={fillCopy.mode}
+          onSubmit={submitFill}
+          onCancel={closeFill}
+        />
+      )}
+
+      {ask && <AskDialog key={ask.title} request={ask} onAnswer={answerAsk} />}
+      <NoticeStack notices={notices} onDismiss={dismissNotice} liveRef={liveRef} alertRef={alertRef} />
     </div>
   );
 }
@@ -0,0 +1,31 @@
+import "@testing-library/jest-dom/vitest";
+import { cleanup } from "@testing-library/react";
+import axeCore from "axe-core";
+import { afterEach, expect } from "vitest";
+import * as axeMatchers from "vitest-axe/matchers";
+
+// `expect(await axe(container)).toHaveNoViolations()`. jsdom can't compute
+// colours; contrast is checked per palette instead (checkContrast, lib/theme.ts)
+expect.extend(axeMatchers);
+axeCore.configure({ rules: [{ id: "color-contrast", enabled: false }] });
+
+declare module "vitest" {
+  interface Matchers<T> {
+    toHaveNoViolations(): T;
+  }
+}
+
+// jsdom has no layout: nothing ever resizes (see hooks/useOverflow.ts)
+// and there is nothing to scroll
+if (!("ResizeObserver" in globalThis)) {
+  globalThis.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+}
+Element.prototype.scrollIntoView ??= function () {};
+
+afterEach(() => {
+  cleanup();
+});